@@ -1,5 +1,7 @@
 import {
   type ChangeEvent,
+  type SyntheticEvent,
+  useCallback,
   useEffect,
   useMemo,
   useRef,
@@ -10,10 +12,18 @@ import {
   Check,
   Copy,
   Download,
+  FileArchive,
+  FileCode,
+  FileJson,
+  FolderOpen,
+  ImageOff,
+  Languages,
   Loader2,
+  Plus,
   RefreshCw,
   ShieldAlert,
   ShieldCheck,
+  Trash2,
   Upload,
 } from 'lucide-react'
 
@@ -29,108 +39,322 @@ import {
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import { scopeSvgContent } from '@/lib/svg-scope'
-import type { LevelRectId, SvgEntry } from '@/lib/types'
+import {
+  applyIdPattern,
+  createBatchArchive,
+  DEFAULT_ID_PATTERN,
+  getScopedFileName,
+} from '@/lib/batch'
+import { compareSvgRenderings } from '@/lib/canvas-raster'
+import {
+  analyzeCollisions,
+  createUniqueSvgId,
+  type IdCollision,
+} from '@/lib/collision-analysis'
+import {
+  createTimingFunction,
+  DEFAULT_LEVEL_TRANSITION,
+  DEFAULT_LEVEL_TRANSITION_SECONDS,
+  extractLevelTransitions,
+  isValidTimingFunction,
+  LEVEL_FILL_DIRECTIONS,
+  LEVEL_TIMING_FUNCTION_PRESETS,
+  type LevelFillDirection,
+  type LevelFillDirections,
+  type LevelTransition,
+  type LevelTransitions,
+} from '@/lib/level-transition'
+import {
+  ID_STRATEGIES,
+  SCOPE_STRATEGIES,
+  scopeSvgContent,
+  type IdStrategy,
+  type LevelRect,
+  type ScopeOptions,
+  type ScopeWarning,
+  type ScopeWarningCode,
+} from '@/lib/svg-scope'
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALES,
+  matchLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+} from '@/lib/i18n'
+import {
+  generateLevelBindingModule,
+  getLevelBindingFileName,
+  LEVEL_BINDING_LANGUAGES,
+  type LevelBindingLanguage,
+} from '@/lib/level-binding'
+import {
+  extractLevelCalibrations,
+  type LevelCalibration,
+} from '@/lib/level-calibration'
+import {
+  DEFAULT_LEVEL_RULES,
+  LEVEL_RULE_KINDS,
+  type LevelDetectionRule,
+  type LevelRuleKind,
+} from '@/lib/level-detection'
+import {
+  ANIMATION_REMOVAL_POLICY,
+  DEFAULT_REMOVAL_POLICY,
+  formatRemovalRecord,
+  type RemovalPolicy,
+} from '@/lib/removal-policy'
+import {
+  diffLines,
+  foldDiffRows,
+  type DiffLine,
+  type DiffRowKind,
+} from '@/lib/text-diff'
+import {
+  createPreviewDocument,
+  PREVIEW_CONNECT_MESSAGE,
+  preparePreviewSvg,
+  type PreviewCommand,
+  type PreviewSizeMessage,
+} from '@/lib/preview-frame'
+import {
+  createScopeConfig,
+  getConfigDesiredId,
+  parseScopeConfig,
+  resolveScopeConfig,
+  SCOPE_CONFIG_FILE_NAME,
+  type ScopeConfig,
+  type ScopeConfigIssue,
+} from '@/lib/scope-config'
+import {
+  DEFAULT_SANITIZE_POLICY,
+  formatSanitizeRecord,
+  type SanitizePolicy,
+} from '@/lib/svg-sanitize'
+import {
+  DEFAULT_OPTIMIZE_OPTIONS,
+  formatByteSize,
+  getByteSize,
+  MAX_OPTIMIZE_PRECISION,
+  type OptimizeOptions,
+} from '@/lib/svg-optimize'
+import type { SvgEntry } from '@/lib/types'
+import { DEFAULT_VISUAL_DIFF_THRESHOLD } from '@/lib/visual-diff'
+import {
+  createWorkspace,
+  createWorkspaceBundle,
+  createWorkspaceSnapshot,
+  parseWorkspaceBundle,
+  summarizeWorkspace,
+  type Workspace,
+  type WorkspaceImportWarning,
+  type WorkspaceMeta,
+  type WorkspaceSettings,
+  type WorkspaceSummary,
+} from '@/lib/workspace'
+import {
+  deleteWorkspace,
+  listWorkspaces,
+  loadWorkspace,
+  saveWorkspace,
+} from '@/lib/workspace-store'
+import { createZip } from '@/lib/zip'
+import { formatXml, parseXml } from '@/lib/xml-dom'
 
 const generateEntryId = () =>
   typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
     ? crypto.randomUUID()
     : `entry-${Math.random().toString(36).slice(2, 10)}`
 
-const DEFAULT_LEVEL_TRANSITION_SECONDS = 5
-const LEVEL_RECT_IDS: LevelRectId[] = ['level', 'level1', 'level_1', 'level2']
-
-function splitTopLevelCommas(value: string) {
-  const segments: string[] = []
-  let buffer = ''
-  let depth = 0
 
-  for (const ch of value) {
-    if (ch === '(') depth += 1
-    if (ch === ')' && depth > 0) depth -= 1
+const LOCALE_STORAGE_KEY = 'svg-scope-locale'
+const WORKSPACE_STORAGE_KEY = 'svg-scope-workspace'
+const WORKSPACE_SAVE_DELAY = 500
 
-    if (ch === ',' && depth === 0) {
-      segments.push(buffer)
-      buffer = ''
-      continue
-    }
-    buffer += ch
-  }
+function getInitialLocale(): Locale {
+  const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY)
+  if (isLocale(stored)) return stored
+  return matchLocale(navigator.language) ?? DEFAULT_LOCALE
+}
 
-  if (buffer) segments.push(buffer)
-  return segments.map((seg) => seg.trim()).filter(Boolean)
+function groupWarningsByCode(warnings: ScopeWarning[]) {
+  const groups = new Map<ScopeWarningCode, ScopeWarning[]>()
+  warnings.forEach((warning) => {
+    groups.set(warning.code, [...(groups.get(warning.code) ?? []), warning])
+  })
+  return Array.from(groups)
 }
 
-function parseCssTimeToSeconds(token: string) {
-  const match = token.trim().match(/^([0-9]*\.?[0-9]+)\s*(ms|s)\s*$/i)
-  if (!match) return null
-  const value = Number.parseFloat(match[1])
-  if (!Number.isFinite(value)) return null
-  const unit = match[2].toLowerCase()
-  return unit === 'ms' ? value / 1000 : value
+function parseIdList(value: string) {
+  return value
+    .split(/[\s,，]+/)
+    .map((item) => item.trim())
+    .filter(Boolean)
 }
 
-function extractTransitionSecondsFromStyle(styleValue: string) {
-  const text = styleValue.trim()
-  if (!text) return null
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+
+const REMOVAL_POLICY_PRESETS = [
+  ['default', DEFAULT_REMOVAL_POLICY],
+  ['animation', ANIMATION_REMOVAL_POLICY],
+] as const
+
+const REMOVAL_POLICY_FIELDS = [
+  'stripProperties',
+  'keepProperties',
+  'stripElements',
+  'keepElements',
+] as const
+
+const SANITIZE_POLICY_FIELDS = [
+  'allowElements',
+  'allowAttributes',
+  'allowUrls',
+] as const
+
+const OPTIMIZE_STEP_FIELDS = [
+  'removeEditorData',
+  'removeComments',
+  'removeEmptyGroups',
+  'minifyCss',
+] as const
+
+function formatSizeChange(before: number, after: number) {
+  if (!before) return '0%'
+  const percent = ((after - before) / before) * 100
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`
+}
 
-  const durationMatch = text.match(
-    /(^|;)\s*(-[a-z]+-)?transition-duration\s*:\s*([^;]+)\s*;?/i
-  )
-  if (durationMatch?.[3]) {
-    const timeMatch = durationMatch[3].match(/([0-9]*\.?[0-9]+\s*(?:ms|s))/i)
-    if (timeMatch?.[1]) {
-      const seconds = parseCssTimeToSeconds(timeMatch[1])
-      if (seconds !== null) return seconds
-    }
-  }
+// 两侧都格式化后再对比，原文件的换行 / 缩进差异不会淹没真正的改动
+function formatSvgForDiff(source: string) {
+  const root = parseXml(source)
+  return root ? formatXml(root) : source
+}
 
-  const shorthandMatch = text.match(
-    /(^|;)\s*(-[a-z]+-)?transition\s*:\s*([^;]+)\s*;?/i
-  )
-  if (!shorthandMatch?.[3]) return null
+// 以图片渲染，原始 SVG 未加作用域的样式不会影响页面
+function toSvgDataUrl(source: string) {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`
+}
 
-  const segments = splitTopLevelCommas(shorthandMatch[3])
-  const heightSegment =
-    segments.find((seg) => /\bheight\b/i.test(seg)) ?? segments[0]
-  if (!heightSegment) return null
+const DIFF_CELL_CLASS_NAMES: Record<
+  DiffRowKind,
+  { before: string; after: string }
+> = {
+  equal: { before: '', after: '' },
+  change: { before: 'bg-red-50', after: 'bg-emerald-50' },
+  delete: { before: 'bg-red-50', after: 'bg-muted/40' },
+  insert: { before: 'bg-muted/40', after: 'bg-emerald-50' },
+}
 
-  const times = Array.from(
-    heightSegment.matchAll(/([0-9]*\.?[0-9]+)\s*(ms|s)\b/gi)
+function DiffCell({
+  line,
+  className,
+  highlightClassName,
+}: {
+  line: DiffLine | null
+  className: string
+  highlightClassName: string
+}) {
+  return (
+    <div className={`flex min-w-0 ${className}`}>
+      <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">
+        {line?.number}
+      </span>
+      <span className="min-w-0 flex-1 whitespace-pre-wrap break-all">
+        {line?.segments.map((segment, index) =>
+          segment.changed ? (
+            <mark key={index} className={highlightClassName}>
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </span>
+    </div>
   )
-  if (!times.length) return null
-
-  return parseCssTimeToSeconds(`${times[0][1]}${times[0][2]}`)
 }
 
-function extractLevelTransitionSeconds(svgContent: string) {
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(svgContent, 'image/svg+xml')
-  const result: Partial<Record<LevelRectId, number>> = {}
-
-  LEVEL_RECT_IDS.forEach((rectId) => {
-    const rect = doc.querySelector(`rect#${rectId}`)
-    if (!rect) return
-    const styleValue = rect.getAttribute('style') ?? ''
-    const seconds = extractTransitionSecondsFromStyle(styleValue)
-    result[rectId] = seconds ?? DEFAULT_LEVEL_TRANSITION_SECONDS
-  })
-
-  return result
+function formatLevelRectName(levelRect: LevelRect) {
+  return levelRect.id ? `#${levelRect.id}` : levelRect.key
 }
 
 function App() {
   const fileInputRef = useRef<HTMLInputElement>(null)
   const copyTimeoutRef = useRef<number | null>(null)
-  const previewRef = useRef<HTMLDivElement>(null)
+  const sourceDetailsRef = useRef<HTMLDetailsElement>(null)
+  const sourceTextareaRef = useRef<HTMLTextAreaElement>(null)
+  const levelDemoSizesRef = useRef<Record<string, number>>({})
 
+  const [locale, setLocale] = useState<Locale>(getInitialLocale)
   const [entries, setEntries] = useState<SvgEntry[]>([])
   const [activeEntryId, setActiveEntryId] = useState<string | null>(null)
+  const [selectedEntryIds, setSelectedEntryIds] = useState<string[]>([])
+  const [idPattern, setIdPattern] = useState(DEFAULT_ID_PATTERN)
+  const [bulkLevelSeconds, setBulkLevelSeconds] = useState(
+    String(DEFAULT_LEVEL_TRANSITION_SECONDS)
+  )
   const [copiedEntryId, setCopiedEntryId] = useState<string | null>(null)
-  const [levelDemoMaxHeights, setLevelDemoMaxHeights] = useState<
-    Partial<Record<LevelRectId, number>>
+  const [idStrategy, setIdStrategy] = useState<IdStrategy>('random')
+  const [namespaceIds, setNamespaceIds] = useState(false)
+  const [preservedIdsText, setPreservedIdsText] = useState('')
+  const [levelRules, setLevelRules] =
+    useState<LevelDetectionRule[]>(DEFAULT_LEVEL_RULES)
+  const [removalPolicy, setRemovalPolicy] = useState<RemovalPolicy>(
+    DEFAULT_REMOVAL_POLICY
+  )
+  const [sanitizePolicy, setSanitizePolicy] = useState<SanitizePolicy | null>(
+    null
+  )
+  const [optimizeOptions, setOptimizeOptions] =
+    useState<OptimizeOptions | null>(null)
+  const previewDocument = useMemo(() => createPreviewDocument(), [])
+  const [previewPort, setPreviewPort] = useState<MessagePort | null>(null)
+  const [previewHeight, setPreviewHeight] = useState<number | null>(null)
+  const [levelDemoPercents, setLevelDemoPercents] = useState<
+    Record<string, number>
   >({})
-  const levelDemoRafRef = useRef<Partial<Record<LevelRectId, number>>>({})
+  const levelDemoRafRef = useRef<Record<string, number>>({})
+  const [visualThreshold, setVisualThreshold] = useState(
+    DEFAULT_VISUAL_DIFF_THRESHOLD
+  )
+  const visualCheckPendingRef = useRef<Map<string, string>>(new Map())
+  const workspaceInputRef = useRef<HTMLInputElement>(null)
+  const workspaceSaveTimeoutRef = useRef<number | null>(null)
+  const [workspaceMeta, setWorkspaceMeta] = useState<WorkspaceMeta | null>(
+    null
+  )
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [workspaceError, setWorkspaceError] = useState<MessageKey | null>(
+    null
+  )
+  const [workspaceImportWarnings, setWorkspaceImportWarnings] = useState<
+    WorkspaceImportWarning[]
+  >([])
+  const configInputRef = useRef<HTMLInputElement>(null)
+  const [scopeConfig, setScopeConfig] = useState<{
+    name: string
+    config: ScopeConfig
+  } | null>(null)
+  const [configIssues, setConfigIssues] = useState<{
+    name: string
+    issues: ScopeConfigIssue[]
+  } | null>(null)
+  const [isDiffOpen, setIsDiffOpen] = useState(false)
+  const [expandedDiffFolds, setExpandedDiffFolds] = useState<number[]>([])
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) =>
+      translate(locale, key, params),
+    [locale]
+  )
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale)
+  }, [locale])
 
   useEffect(() => {
     return () => {
@@ -140,7 +364,215 @@ function App() {
     }
   }, [])
 
-  const handleApplyLevelTransitions = (entryId: string) => {
+  const workspaceSettings = useMemo<WorkspaceSettings>(
+    () => ({
+      idStrategy,
+      namespaceIds,
+      preservedIdsText,
+      levelRules,
+      removalPolicy,
+      sanitizePolicy,
+      optimizeOptions,
+      visualThreshold,
+      config: scopeConfig?.config ?? null,
+    }),
+    [
+      idStrategy,
+      namespaceIds,
+      preservedIdsText,
+      levelRules,
+      removalPolicy,
+      sanitizePolicy,
+      optimizeOptions,
+      visualThreshold,
+      scopeConfig,
+    ]
+  )
+
+  const resolvedConfig = useMemo(
+    () => (scopeConfig ? resolveScopeConfig(scopeConfig.config) : null),
+    [scopeConfig]
+  )
+
+  const applyWorkspace = useCallback((workspace: Workspace) => {
+    setWorkspaceImportWarnings([])
+    setWorkspaceMeta({
+      id: workspace.id,
+      name: workspace.name,
+      createdAt: workspace.createdAt,
+    })
+    setEntries(workspace.entries)
+    setActiveEntryId(workspace.activeEntryId)
+    setSelectedEntryIds([])
+    setIdStrategy(workspace.settings.idStrategy)
+    setNamespaceIds(workspace.settings.namespaceIds)
+    setPreservedIdsText(workspace.settings.preservedIdsText)
+    setLevelRules(workspace.settings.levelRules)
+    setRemovalPolicy(workspace.settings.removalPolicy)
+    setSanitizePolicy(workspace.settings.sanitizePolicy)
+    setOptimizeOptions(workspace.settings.optimizeOptions)
+    setVisualThreshold(workspace.settings.visualThreshold)
+    setScopeConfig(
+      workspace.settings.config
+        ? { name: SCOPE_CONFIG_FILE_NAME, config: workspace.settings.config }
+        : null
+    )
+    setConfigIssues(null)
+    window.localStorage.setItem(WORKSPACE_STORAGE_KEY, workspace.id)
+  }, [])
+
+  // 恢复上次打开的项目；IndexedDB 不可用时只在内存中工作
+  useEffect(() => {
+    let cancelled = false
+    const restore = async () => {
+      const summaries = await listWorkspaces()
+      const lastId = window.localStorage.getItem(WORKSPACE_STORAGE_KEY)
+      const target =
+        summaries.find((summary) => summary.id === lastId) ?? summaries[0]
+      const workspace = target ? await loadWorkspace(target.id) : null
+      return { summaries, workspace }
+    }
+    restore().then(
+      ({ summaries, workspace }) => {
+        if (cancelled) return
+        setWorkspaces(summaries)
+        applyWorkspace(
+          workspace ??
+            createWorkspace(
+              translate(getInitialLocale(), 'workspace.defaultName')
+            )
+        )
+      },
+      () => {
+        if (!cancelled) setWorkspaceError('workspace.unavailable')
+      }
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [applyWorkspace])
+
+  useEffect(() => {
+    if (!workspaceMeta) return
+    const timeout = window.setTimeout(() => {
+      const snapshot = createWorkspaceSnapshot(
+        workspaceMeta,
+        entries,
+        activeEntryId,
+        workspaceSettings
+      )
+      saveWorkspace(snapshot).then(
+        () =>
+          setWorkspaces((prev) => [
+            summarizeWorkspace(snapshot),
+            ...prev.filter((summary) => summary.id !== snapshot.id),
+          ]),
+        () => setWorkspaceError('workspace.saveFailed')
+      )
+    }, WORKSPACE_SAVE_DELAY)
+    workspaceSaveTimeoutRef.current = timeout
+    return () => window.clearTimeout(timeout)
+  }, [workspaceMeta, entries, activeEntryId, workspaceSettings])
+
+  // 切换项目前立即保存，避免丢失尚未自动保存的改动
+  const saveCurrentWorkspace = async () => {
+    if (!workspaceMeta) return
+    if (workspaceSaveTimeoutRef.current) {
+      window.clearTimeout(workspaceSaveTimeoutRef.current)
+    }
+    await saveWorkspace(
+      createWorkspaceSnapshot(
+        workspaceMeta,
+        entries,
+        activeEntryId,
+        workspaceSettings
+      )
+    )
+  }
+
+  const handleSwitchWorkspace = async (workspaceId: string) => {
+    if (workspaceId === workspaceMeta?.id) return
+    try {
+      await saveCurrentWorkspace()
+      const workspace = await loadWorkspace(workspaceId)
+      if (workspace) applyWorkspace(workspace)
+      setWorkspaceError(null)
+    } catch {
+      setWorkspaceError('workspace.saveFailed')
+    }
+  }
+
+  const handleCreateWorkspace = async () => {
+    try {
+      await saveCurrentWorkspace()
+      applyWorkspace(createWorkspace(t('workspace.untitled')))
+      setWorkspaceError(null)
+    } catch {
+      setWorkspaceError('workspace.saveFailed')
+    }
+  }
+
+  const handleDeleteWorkspace = async () => {
+    if (
+      !workspaceMeta ||
+      !window.confirm(
+        t('workspace.deleteConfirm', { name: workspaceMeta.name })
+      )
+    ) {
+      return
+    }
+    if (workspaceSaveTimeoutRef.current) {
+      window.clearTimeout(workspaceSaveTimeoutRef.current)
+    }
+    try {
+      await deleteWorkspace(workspaceMeta.id)
+      const remaining = workspaces.filter(
+        (summary) => summary.id !== workspaceMeta.id
+      )
+      setWorkspaces(remaining)
+      const next = remaining[0] ? await loadWorkspace(remaining[0].id) : null
+      applyWorkspace(next ?? createWorkspace(t('workspace.defaultName')))
+      setWorkspaceError(null)
+    } catch {
+      setWorkspaceError('workspace.saveFailed')
+    }
+  }
+
+  const handleImportWorkspace = async (
+    event: ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    const imported = parseWorkspaceBundle(await file.text())
+    if (!imported) {
+      setWorkspaceError('workspace.importFailed')
+      return
+    }
+    const { workspace, warnings } = imported
+    try {
+      await saveCurrentWorkspace()
+      await saveWorkspace(workspace)
+      setWorkspaces((prev) => [summarizeWorkspace(workspace), ...prev])
+      setWorkspaceError(null)
+    } catch {
+      setWorkspaceError('workspace.saveFailed')
+    }
+    applyWorkspace(workspace)
+    setWorkspaceImportWarnings(warnings)
+  }
+
+  const sharedScopeOptions: ScopeOptions = {
+    locale,
+    idStrategy,
+    namespaceIds,
+    preservedIds: parseIdList(preservedIdsText),
+    levelRules,
+    sanitizePolicy,
+    optimize: optimizeOptions,
+  }
+
+  const handleReprocess = (entryId: string, overrides: ScopeOptions = {}) => {
     setEntries((prev) => {
       const entry = prev.find((item) => item.id === entryId)
       if (!entry || !entry.rawContent) {
@@ -148,10 +580,26 @@ function App() {
       }
 
       const desiredId = entry.result?.ok ? entry.result.svgId : undefined
+      // 规则变化后可能识别出新的液位元素，沿用其原有的过渡与标定
+      const rules = overrides.levelRules ?? levelRules
+      const levelTransitions = {
+        ...extractLevelTransitions(entry.rawContent, undefined, rules),
+        ...entry.levelTransitions,
+      }
+      const levelCalibrations = {
+        ...extractLevelCalibrations(entry.rawContent, undefined, rules),
+        ...entry.levelCalibrations,
+      }
       const scoped = scopeSvgContent(entry.rawContent, {
         desiredId,
         fileName: entry.fileName,
-        levelTransitionSeconds: entry.levelTransitionSeconds,
+        levelTransitions,
+        levelFillDirections: entry.levelFillDirections,
+        levelCalibrations,
+        scopeStrategy: entry.scopeStrategy,
+        removalPolicy: entry.removalPolicy ?? removalPolicy,
+        ...sharedScopeOptions,
+        ...overrides,
       })
 
       return prev.map((item) => {
@@ -160,12 +608,14 @@ function App() {
           return {
             ...item,
             result: null,
-            error: scoped.error ?? '无法处理该 SVG 文件。',
+            error: scoped.errorCode ?? 'process-failed',
           }
         }
 
         return {
           ...item,
+          levelTransitions,
+          levelCalibrations,
           result: scoped,
           error: null,
         }
@@ -173,6 +623,160 @@ function App() {
     })
   }
 
+  const handleUpdateLevelTransition = (
+    entryId: string,
+    key: string,
+    patch: Partial<LevelTransition>
+  ) => {
+    setEntries((prev) =>
+      prev.map((item) =>
+        item.id === entryId
+          ? {
+              ...item,
+              levelTransitions: {
+                ...item.levelTransitions,
+                [key]: {
+                  ...DEFAULT_LEVEL_TRANSITION,
+                  ...item.levelTransitions[key],
+                  ...patch,
+                },
+              },
+            }
+          : item
+      )
+    )
+  }
+
+  const handleUpdateLevelCalibration = (
+    entryId: string,
+    key: string,
+    patch: Partial<LevelCalibration>
+  ) => {
+    setEntries((prev) =>
+      prev.map((item) =>
+        item.id === entryId
+          ? {
+              ...item,
+              levelCalibrations: {
+                ...item.levelCalibrations,
+                [key]: {
+                  ...(item.levelCalibrations[key] ?? { min: null, max: null }),
+                  ...patch,
+                },
+              },
+            }
+          : item
+      )
+    )
+  }
+
+  // 方向会改变导出的 transform / transition，直接重新处理
+  const handleChangeLevelDirection = (
+    entryId: string,
+    key: string,
+    direction: LevelFillDirection
+  ) => {
+    setEntries((prev) =>
+      prev.map((item) =>
+        item.id === entryId
+          ? {
+              ...item,
+              levelFillDirections: {
+                ...item.levelFillDirections,
+                [key]: direction,
+              },
+            }
+          : item
+      )
+    )
+    handleReprocess(entryId)
+  }
+
+  const handleUpdateLevelRule = (
+    index: number,
+    patch: Partial<LevelDetectionRule>
+  ) => {
+    setLevelRules((prev) =>
+      prev.map((rule, ruleIndex) =>
+        ruleIndex === index ? { ...rule, ...patch } : rule
+      )
+    )
+  }
+
+  const handleAddLevelRule = () => {
+    setLevelRules((prev) => [...prev, { kind: 'id', value: '' }])
+  }
+
+  const handleRemoveLevelRule = (index: number) => {
+    setLevelRules((prev) => prev.filter((_, ruleIndex) => ruleIndex !== index))
+  }
+
+  const handleApplyLevelRules = () => {
+    entries.forEach((entry) => handleReprocess(entry.id))
+  }
+
+  // 勾选单独设置的文件修改自己的策略，否则修改全局策略
+  const handleUpdateRemovalPolicy = (
+    entry: SvgEntry,
+    patch: Partial<RemovalPolicy>
+  ) => {
+    if (!entry.removalPolicy) {
+      setRemovalPolicy((prev) => ({ ...prev, ...patch }))
+      return
+    }
+    setEntries((prev) =>
+      prev.map((item) =>
+        item.id === entry.id && item.removalPolicy
+          ? { ...item, removalPolicy: { ...item.removalPolicy, ...patch } }
+          : item
+      )
+    )
+  }
+
+  const handleToggleRemovalOverride = (entryId: string, enabled: boolean) => {
+    setEntries((prev) =>
+      prev.map((item) =>
+        item.id === entryId
+          ? { ...item, removalPolicy: enabled ? removalPolicy : null }
+          : item
+      )
+    )
+    handleReprocess(entryId)
+  }
+
+  const handleApplyRemovalPolicy = () => {
+    entries.forEach((entry) => handleReprocess(entry.id))
+  }
+
+  const handleToggleSanitize = (enabled: boolean) => {
+    const nextPolicy = enabled ? DEFAULT_SANITIZE_POLICY : null
+    setSanitizePolicy(nextPolicy)
+    entries.forEach((entry) =>
+      handleReprocess(entry.id, { sanitizePolicy: nextPolicy })
+    )
+  }
+
+  const handleUpdateSanitizePolicy = (patch: Partial<SanitizePolicy>) => {
+    setSanitizePolicy((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  const handleToggleOptimize = (enabled: boolean) => {
+    const nextOptions = enabled ? DEFAULT_OPTIMIZE_OPTIONS : null
+    setOptimizeOptions(nextOptions)
+    entries.forEach((entry) =>
+      handleReprocess(entry.id, { optimize: nextOptions })
+    )
+  }
+
+  const handleUpdateOptimizeOptions = (patch: Partial<OptimizeOptions>) => {
+    if (!optimizeOptions) return
+    const nextOptions = { ...optimizeOptions, ...patch }
+    setOptimizeOptions(nextOptions)
+    entries.forEach((entry) =>
+      handleReprocess(entry.id, { optimize: nextOptions })
+    )
+  }
+
   const handleFileSelection = (event: ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files
     if (!files?.length) {
@@ -183,12 +787,12 @@ function App() {
       id: generateEntryId(),
       fileName: file.name,
       desiredId: '',
-      levelTransitionSeconds: {
-        level: DEFAULT_LEVEL_TRANSITION_SECONDS,
-        level1: DEFAULT_LEVEL_TRANSITION_SECONDS,
-        level_1: DEFAULT_LEVEL_TRANSITION_SECONDS,
-        level2: DEFAULT_LEVEL_TRANSITION_SECONDS,
-      },
+      levelTransitions: {},
+      levelFillDirections: {},
+      levelCalibrations: {},
+      scopeStrategy: resolvedConfig?.scopeOptions.scopeStrategy ?? 'id-prefix',
+      removalPolicy: null,
+      visualCheck: null,
       rawContent: '',
       result: null,
       error: null,
@@ -208,13 +812,44 @@ function App() {
             ? reader.result
             : new TextDecoder('utf-8').decode(reader.result as ArrayBuffer)
 
-        const entryLevelTransitionSeconds = {
-          ...newEntries[index]?.levelTransitionSeconds,
-          ...extractLevelTransitionSeconds(content),
-        }
+        // 配置中的液位过渡只覆盖写出的字段，其余沿用文件里已有的 transition
+        const entryLevelTransitions: LevelTransitions = Object.fromEntries(
+          Object.entries(
+            extractLevelTransitions(content, undefined, levelRules)
+          ).map(([key, transition]) => [
+            key,
+            { ...transition, ...resolvedConfig?.levelTransition },
+          ])
+        )
+        const entryLevelFillDirections: LevelFillDirections = resolvedConfig
+          ? Object.fromEntries(
+              Object.keys(entryLevelTransitions).map((key) => [
+                key,
+                resolvedConfig.levelDirections.byKey[key] ??
+                  resolvedConfig.levelDirections.fallback,
+              ])
+            )
+          : {}
+        const entryLevelCalibrations = extractLevelCalibrations(
+          content,
+          undefined,
+          levelRules
+        )
         const scoped = scopeSvgContent(content, {
+          desiredId: resolvedConfig
+            ? getConfigDesiredId(resolvedConfig, {
+                fileName: file.name,
+                index: entries.length + index + 1,
+                id: parseXml(content)?.getAttribute('id') ?? '',
+              })
+            : undefined,
+          forceNewId: resolvedConfig?.scopeOptions.forceNewId,
           fileName: file.name,
-          levelTransitionSeconds: entryLevelTransitionSeconds,
+          levelTransitions: entryLevelTransitions,
+          levelFillDirections: entryLevelFillDirections,
+          scopeStrategy: newEntries[index].scopeStrategy,
+          removalPolicy,
+          ...sharedScopeOptions,
         })
 
         setEntries((prev) =>
@@ -230,7 +865,7 @@ function App() {
                 isProcessing: false,
                 desiredId: '',
                 result: null,
-                error: scoped.error ?? '无法处理该 SVG 文件。',
+                error: scoped.errorCode ?? 'process-failed',
               }
             }
 
@@ -239,10 +874,12 @@ function App() {
               rawContent: content,
               isProcessing: false,
               desiredId: scoped.svgId,
-              levelTransitionSeconds: {
-                ...item.levelTransitionSeconds,
-                ...entryLevelTransitionSeconds,
+              levelTransitions: {
+                ...item.levelTransitions,
+                ...entryLevelTransitions,
               },
+              levelFillDirections: entryLevelFillDirections,
+              levelCalibrations: entryLevelCalibrations,
               result: scoped,
               error: null,
             }
@@ -257,7 +894,7 @@ function App() {
               ? {
                   ...item,
                   isProcessing: false,
-                  error: '读取文件时发生错误，请重试。',
+                  error: 'read-failed',
                 }
               : item
           )
@@ -282,7 +919,12 @@ function App() {
         desiredId: forceNew ? undefined : trimmedDesired || undefined,
         fileName: entry.fileName,
         forceNewId: forceNew,
-        levelTransitionSeconds: entry.levelTransitionSeconds,
+        levelTransitions: entry.levelTransitions,
+        levelFillDirections: entry.levelFillDirections,
+        levelCalibrations: entry.levelCalibrations,
+        scopeStrategy: entry.scopeStrategy,
+        removalPolicy: entry.removalPolicy ?? removalPolicy,
+        ...sharedScopeOptions,
       })
 
       return prev.map((item) => {
@@ -295,7 +937,7 @@ function App() {
             ...item,
             desiredId: trimmedDesired,
             result: null,
-            error: scoped.error ?? '无法处理该 SVG 文件。',
+            error: scoped.errorCode ?? 'process-failed',
           }
         }
 
@@ -311,24 +953,247 @@ function App() {
     setCopiedEntryId((prev) => (prev === entryId ? null : prev))
   }
 
-  const handleDownload = (entry: SvgEntry) => {
-    if (!entry.result?.ok) return
+  const selectedEntries = entries.filter((entry) =>
+    selectedEntryIds.includes(entry.id)
+  )
 
-    const blob = new Blob([entry.result.processed], {
-      type: 'image/svg+xml',
+  const handleToggleSelected = (entryId: string, selected: boolean) => {
+    setSelectedEntryIds((prev) =>
+      selected
+        ? [...prev.filter((id) => id !== entryId), entryId]
+        : prev.filter((id) => id !== entryId)
+    )
+  }
+
+  const handleBulkApplyIdPattern = () => {
+    selectedEntries.forEach((entry, index) => {
+      const nextId = applyIdPattern(idPattern, {
+        fileName: entry.fileName,
+        index: index + 1,
+        id: entry.result?.ok ? entry.result.svgId : '',
+      })
+      setEntries((prev) =>
+        prev.map((item) =>
+          item.id === entry.id ? { ...item, desiredId: nextId } : item
+        )
+      )
+      handleApplyId(entry.id)
     })
+  }
+
+  const handleBulkLevelSeconds = () => {
+    const seconds = Number.parseFloat(bulkLevelSeconds)
+    if (!Number.isFinite(seconds) || seconds < 0) return
+    setEntries((prev) =>
+      prev.map((item) => {
+        if (!selectedEntryIds.includes(item.id) || !item.result?.ok) {
+          return item
+        }
+        const keys = new Set([
+          ...Object.keys(item.levelTransitions),
+          ...item.result.levelRects.map(({ key }) => key),
+        ])
+        return {
+          ...item,
+          levelTransitions: Object.fromEntries(
+            Array.from(keys, (key) => [
+              key,
+              {
+                ...DEFAULT_LEVEL_TRANSITION,
+                ...item.levelTransitions[key],
+                duration: seconds,
+              },
+            ])
+          ),
+        }
+      })
+    )
+    selectedEntries.forEach((entry) => handleReprocess(entry.id))
+  }
+
+  const handleBulkReprocess = () => {
+    selectedEntries.forEach((entry) => handleReprocess(entry.id))
+  }
+
+  const handleBulkRemove = () => {
+    const remaining = entries.filter(
+      (entry) => !selectedEntryIds.includes(entry.id)
+    )
+    setEntries(remaining)
+    setSelectedEntryIds([])
+    setActiveEntryId((prev) =>
+      remaining.some((entry) => entry.id === prev)
+        ? prev
+        : (remaining[0]?.id ?? null)
+    )
+  }
+
+  const handleExportWorkspace = () => {
+    if (!workspaceMeta) return
+    const snapshot = createWorkspaceSnapshot(
+      workspaceMeta,
+      entries,
+      activeEntryId,
+      workspaceSettings
+    )
+    downloadText(
+      JSON.stringify(createWorkspaceBundle(snapshot), null, 2),
+      'application/json',
+      `${snapshot.name || 'workspace'}.svg-scope.json`
+    )
+  }
+
+  const handleLoadConfig = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    const { config, issues } = parseScopeConfig(await file.text(), locale)
+    if (!config) {
+      setConfigIssues({ name: file.name, issues })
+      return
+    }
+
+    // 配置里没写的字段保留当前设置
+    const { scopeOptions, idTemplate, visualThreshold: threshold } =
+      resolveScopeConfig(config)
+    const nextPreservedIds = scopeOptions.preservedIds
+      ? [...scopeOptions.preservedIds]
+      : parseIdList(preservedIdsText)
+    const nextLevelRules = scopeOptions.levelRules
+      ? [...scopeOptions.levelRules]
+      : levelRules
+    const nextRemovalPolicy = scopeOptions.removalPolicy ?? removalPolicy
+    const nextSanitizePolicy =
+      scopeOptions.sanitizePolicy === undefined
+        ? sanitizePolicy
+        : scopeOptions.sanitizePolicy
+    const nextOptimizeOptions =
+      scopeOptions.optimize === undefined
+        ? optimizeOptions
+        : scopeOptions.optimize
+    const overrides: ScopeOptions = {
+      idStrategy: scopeOptions.idStrategy ?? idStrategy,
+      namespaceIds: scopeOptions.namespaceIds ?? namespaceIds,
+      preservedIds: nextPreservedIds,
+      levelRules: nextLevelRules,
+      sanitizePolicy: nextSanitizePolicy,
+      optimize: nextOptimizeOptions,
+    }
+    setIdStrategy(scopeOptions.idStrategy ?? idStrategy)
+    setNamespaceIds(scopeOptions.namespaceIds ?? namespaceIds)
+    setPreservedIdsText(nextPreservedIds.join('\n'))
+    setLevelRules(nextLevelRules)
+    setRemovalPolicy(nextRemovalPolicy)
+    setSanitizePolicy(nextSanitizePolicy)
+    setOptimizeOptions(nextOptimizeOptions)
+    if (threshold !== null) setVisualThreshold(threshold)
+    if (idTemplate) setIdPattern(idTemplate)
+    setScopeConfig({ name: file.name, config })
+    setConfigIssues(null)
+
+    const { scopeStrategy } = scopeOptions
+    if (scopeStrategy) {
+      setEntries((prev) => prev.map((item) => ({ ...item, scopeStrategy })))
+    }
+    entries.forEach((entry) =>
+      handleReprocess(entry.id, {
+        ...overrides,
+        ...(entry.removalPolicy ? {} : { removalPolicy: nextRemovalPolicy }),
+      })
+    )
+  }
+
+  const handleExportConfig = () => {
+    const config = createScopeConfig(
+      {
+        idStrategy,
+        namespaceIds,
+        preservedIds: parseIdList(preservedIdsText),
+        levelRules,
+        removalPolicy,
+        sanitizePolicy,
+        optimizeOptions,
+        visualThreshold,
+        idTemplate: idPattern,
+      },
+      scopeConfig?.config
+    )
+    downloadText(
+      `${JSON.stringify(config, null, 2)}\n`,
+      'application/json',
+      SCOPE_CONFIG_FILE_NAME
+    )
+  }
+
+  const handleBulkDownload = () => {
+    downloadText(
+      createZip(createBatchArchive(selectedEntries)),
+      'application/zip',
+      'scoped-svgs.zip'
+    )
+  }
+
+  const handleRevealSourceLine = (line: number) => {
+    const details = sourceDetailsRef.current
+    const textarea = sourceTextareaRef.current
+    if (!details || !textarea) return
+
+    details.open = true
+    const lines = textarea.value.split('\n')
+    const start = lines
+      .slice(0, line - 1)
+      .reduce((offset, text) => offset + text.length + 1, 0)
+    textarea.focus()
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0))
+    const lineHeight =
+      Number.parseFloat(window.getComputedStyle(textarea).lineHeight) || 16
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight)
+    details.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }
+
+  const getDownloadFileName = (entry: SvgEntry) =>
+    getScopedFileName(entry.fileName, entry.result?.svgId ?? '')
+
+  const downloadText = (
+    content: BlobPart,
+    type: string,
+    fileName: string
+  ) => {
+    const blob = new Blob([content], { type })
     const url = URL.createObjectURL(blob)
-    const downloadName =
-      entry.fileName.replace(/\.svg$/i, '') ||
-      entry.result.svgId ||
-      'scoped-svg'
     const anchor = document.createElement('a')
     anchor.href = url
-    anchor.download = `${downloadName}-scoped.svg`
+    anchor.download = fileName
     anchor.click()
     URL.revokeObjectURL(url)
   }
 
+  const handleDownload = (entry: SvgEntry) => {
+    if (!entry.result?.ok) return
+    downloadText(
+      entry.result.processed,
+      'image/svg+xml',
+      getDownloadFileName(entry)
+    )
+  }
+
+  const handleDownloadBinding = (
+    entry: SvgEntry,
+    language: LevelBindingLanguage
+  ) => {
+    if (!entry.result?.ok) return
+    const fileName = getDownloadFileName(entry)
+    downloadText(
+      generateLevelBindingModule(entry.result, {
+        language,
+        fileName,
+        locale,
+      }),
+      'text/javascript',
+      getLevelBindingFileName(fileName, language)
+    )
+  }
+
   const handleCopy = async (entry: SvgEntry) => {
     if (!entry.result?.ok) return
     try {
@@ -347,7 +1212,7 @@ function App() {
           item.id === entry.id
             ? {
                 ...item,
-                error: '无法写入剪贴板，请确认浏览器权限后重试。',
+                error: 'clipboard-failed',
               }
             : item
         )
@@ -360,6 +1225,97 @@ function App() {
     [entries, activeEntryId]
   )
 
+  // 批量检查只在至少两个文件处理成功时有意义
+  const collisionReport = useMemo(() => {
+    const inputs = entries.flatMap((entry) =>
+      entry.result?.ok
+        ? [
+            {
+              entryId: entry.id,
+              svgId: entry.result.svgId,
+              processed: entry.result.processed,
+            },
+          ]
+        : []
+    )
+    return inputs.length > 1 ? analyzeCollisions(inputs) : null
+  }, [entries])
+  const collisionCount = collisionReport
+    ? collisionReport.rootIds.length +
+      collisionReport.elementIds.length +
+      collisionReport.globalRules.length +
+      collisionReport.classConflicts.filter((conflict) => !conflict.isolated)
+        .length
+    : 0
+  const getEntryFileName = (entryId: string) =>
+    entries.find((entry) => entry.id === entryId)?.fileName ?? entryId
+
+  // 保留第一个文件的 id，其余文件改用追加序号后的 id
+  const handleResolveRootCollision = (collision: IdCollision) => {
+    const takenIds = new Set(
+      entries.flatMap((entry) => (entry.result?.ok ? [entry.result.svgId] : []))
+    )
+    collision.entryIds.slice(1).forEach((entryId) => {
+      const nextId = createUniqueSvgId(collision.id, takenIds)
+      takenIds.add(nextId)
+      setEntries((prev) =>
+        prev.map((item) =>
+          item.id === entryId ? { ...item, desiredId: nextId } : item
+        )
+      )
+      handleApplyId(entryId)
+    })
+  }
+
+  const handleResolveElementCollision = (collision: IdCollision) => {
+    setNamespaceIds(true)
+    collision.entryIds.forEach((entryId) => {
+      handleReprocess(entryId, { namespaceIds: true })
+    })
+  }
+
+  const activeProcessed = activeEntry?.result?.ok
+    ? activeEntry.result.processed
+    : null
+  const activeRawContent = activeEntry?.rawContent ?? ''
+
+  // 大文件格式化与对比较慢，只在展开对比面板时计算
+  const diffBlocks = useMemo(() => {
+    if (!isDiffOpen || activeProcessed === null) return null
+    return foldDiffRows(
+      diffLines(
+        formatSvgForDiff(activeRawContent),
+        formatSvgForDiff(activeProcessed)
+      )
+    )
+  }, [isDiffOpen, activeRawContent, activeProcessed])
+
+  const diffStats = useMemo(() => {
+    const rows = diffBlocks?.flatMap((block) => block.rows) ?? []
+    return {
+      added: rows.filter((row) => row.kind !== 'equal' && row.after).length,
+      removed: rows.filter((row) => row.kind !== 'equal' && row.before).length,
+    }
+  }, [diffBlocks])
+
+  const diffPreviewUrls = useMemo(
+    () =>
+      isDiffOpen && activeProcessed !== null
+        ? {
+            before: toSvgDataUrl(activeRawContent),
+            after: toSvgDataUrl(activeProcessed),
+          }
+        : null,
+    [isDiffOpen, activeRawContent, activeProcessed]
+  )
+
+  useEffect(() => {
+    setExpandedDiffFolds([])
+  }, [activeRawContent, activeProcessed])
+
+  const getLevelTransition = (key: string) =>
+    activeEntry?.levelTransitions[key] ?? DEFAULT_LEVEL_TRANSITION
+
   useEffect(() => {
     return () => {
       Object.values(levelDemoRafRef.current).forEach((rafId) => {
@@ -368,101 +1324,180 @@ function App() {
         }
       })
     }
-  }, [])
+  }, [])
+
+  const previewSvg = useMemo(
+    () =>
+      activeProcessed === null
+        ? null
+        : preparePreviewSvg(activeProcessed, levelRules),
+    [activeProcessed, levelRules]
+  )
+
+  // iframe 每次加载后重新建立消息通道，旧端口随旧文档一起失效
+  const handlePreviewFrameLoad = (event: SyntheticEvent<HTMLIFrameElement>) => {
+    const channel = new MessageChannel()
+    channel.port1.onmessage = ({ data }: MessageEvent<PreviewSizeMessage>) => {
+      if (data.type === 'size') setPreviewHeight(data.height)
+    }
+    event.currentTarget.contentWindow?.postMessage(
+      PREVIEW_CONNECT_MESSAGE,
+      '*',
+      [channel.port2]
+    )
+    previewPort?.close()
+    setPreviewPort(channel.port1)
+  }
+
+  useEffect(() => {
+    levelDemoSizesRef.current = {}
+    const command: PreviewCommand = {
+      type: 'render',
+      svg: previewSvg?.svg ?? '',
+    }
+    previewPort?.postMessage(command)
+  }, [previewPort, previewSvg])
 
-  const getPreviewSvg = () => {
-    const container = previewRef.current
-    if (!container) return null
-    return container.querySelector('svg') as SVGSVGElement | null
+  const postPreviewCommand = (command: PreviewCommand) => {
+    previewPort?.postMessage(command)
   }
 
-  const getPreviewLevelRect = (rectId: LevelRectId) => {
-    const svg = getPreviewSvg()
-    if (!svg) return null
-    return svg.querySelector(`rect#${rectId}`) as SVGRectElement | null
+  const getPreviewLevelElement = (key: string) =>
+    previewSvg?.levelElements.get(key) ?? null
+
+  const getPreviewLevelRect = (key: string) => {
+    const element = getPreviewLevelElement(key)
+    return element?.localName === 'rect' ? element : null
   }
 
-  const setLevelRectHeight = (rect: SVGRectElement, height: number) => {
-    const rounded = Math.round(height * 1000) / 1000
-    const value = `${rounded}`
-    rect.setAttribute('height', value)
+  const setLevelRectSize = (levelRect: LevelRect, size: number) => {
+    const rounded = Math.round(size * 1000) / 1000
+    const attributes: Record<string, string> = {
+      [levelRect.dimension]: `${rounded}`,
+    }
+    if (levelRect.anchor !== null) {
+      const position = levelRect.dimension === 'width' ? 'x' : 'y'
+      const offset = Math.round((levelRect.anchor - size) * 1000) / 1000
+      attributes[position] = `${offset}`
+    }
+    levelDemoSizesRef.current[levelRect.key] = size
+    postPreviewCommand({ type: 'attributes', key: levelRect.key, attributes })
   }
 
-  const cancelLevelDemoAnimation = (rectId: LevelRectId) => {
-    const rafId = levelDemoRafRef.current[rectId]
+  const cancelLevelDemoAnimation = (key: string) => {
+    const rafId = levelDemoRafRef.current[key]
     if (typeof rafId === 'number') {
       window.cancelAnimationFrame(rafId)
     }
-    delete levelDemoRafRef.current[rectId]
+    delete levelDemoRafRef.current[key]
   }
 
-  const animateLevelRectHeight = (
-    rectId: LevelRectId,
-    fromHeight: number,
-    toHeight: number,
-    durationSeconds: number
+  // 与导出的 CSS transition 使用相同的时长、延迟与 timing-function
+  const animateLevelRectSize = (
+    levelRect: LevelRect,
+    fromSize: number,
+    toSize: number,
+    transition: LevelTransition
   ) => {
-    cancelLevelDemoAnimation(rectId)
+    const { key } = levelRect
+    cancelLevelDemoAnimation(key)
 
-    const rect = getPreviewLevelRect(rectId)
-    if (!rect) return
+    if (!getPreviewLevelRect(key)) return
 
-    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
-      setLevelRectHeight(rect, toHeight)
+    if (!Number.isFinite(transition.duration) || transition.duration <= 0) {
+      setLevelRectSize(levelRect, toSize)
       return
     }
 
-    const durationMs = durationSeconds * 1000
-    const start = performance.now()
-    const ease = (t: number) => 0.5 - Math.cos(Math.PI * t) / 2
+    const durationMs = transition.duration * 1000
+    const start = performance.now() + transition.delay * 1000
+    const ease = createTimingFunction(transition.timingFunction)
 
     const step = (now: number) => {
-      const progress = Math.min((now - start) / durationMs, 1)
-      const currentHeight =
-        fromHeight + (toHeight - fromHeight) * ease(progress)
-
-      const nextRect = getPreviewLevelRect(rectId)
-      if (!nextRect) {
-        cancelLevelDemoAnimation(rectId)
+      if (now < start) {
+        levelDemoRafRef.current[key] = window.requestAnimationFrame(step)
         return
       }
-
-      setLevelRectHeight(nextRect, currentHeight)
+      const progress = Math.min((now - start) / durationMs, 1)
+      const currentSize = fromSize + (toSize - fromSize) * ease(progress)
+      setLevelRectSize(levelRect, currentSize)
 
       if (progress < 1) {
-        levelDemoRafRef.current[rectId] = window.requestAnimationFrame(step)
+        levelDemoRafRef.current[key] = window.requestAnimationFrame(step)
         return
       }
 
-      cancelLevelDemoAnimation(rectId)
+      cancelLevelDemoAnimation(key)
+    }
+
+    levelDemoRafRef.current[key] = window.requestAnimationFrame(step)
+  }
+
+  // 未标定且缺少尺寸属性的 rect 退回到 viewBox / svg 的尺寸
+  const getLevelBounds = (levelRect: LevelRect) => {
+    if (levelRect.max !== null) {
+      return { min: levelRect.min, max: levelRect.max }
+    }
+    const svg = previewSvg?.root
+    const viewBoxParts = (svg?.getAttribute('viewBox')?.trim() ?? '')
+      .split(/[,\s]+/)
+      .filter(Boolean)
+    const viewBoxSize =
+      viewBoxParts.length === 4
+        ? Number.parseFloat(
+            viewBoxParts[levelRect.dimension === 'width' ? 2 : 3]
+          )
+        : Number.NaN
+    const svgSize = Number.parseFloat(
+      svg?.getAttribute(levelRect.dimension) ?? ''
+    )
+    const max =
+      Number.isFinite(viewBoxSize) && viewBoxSize > 0
+        ? viewBoxSize
+        : Number.isFinite(svgSize) && svgSize > 0
+          ? svgSize
+          : 100
+    return { min: levelRect.min, max }
+  }
+
+  const animateLevelToRatio = (levelRect: LevelRect, ratio: number) => {
+    const { key, dimension } = levelRect
+    const { min, max } = getLevelBounds(levelRect)
+    const target = min + (max - min) * ratio
+    const rect = getPreviewLevelRect(key)
+    if (!rect) {
+      // 非 rect 元素靠内联的 transform 过渡完成动画，原点已按方向设置好
+      if (getPreviewLevelElement(key)) {
+        const scale = dimension === 'width' ? 'scaleX' : 'scaleY'
+        postPreviewCommand({
+          type: 'style',
+          key,
+          property: 'transform',
+          value: `${scale}(${Math.round(target * 1000) / 1000})`,
+        })
+      }
+      return
     }
 
-    levelDemoRafRef.current[rectId] = window.requestAnimationFrame(step)
+    const sizeValue =
+      levelDemoSizesRef.current[key] ??
+      Number.parseFloat(rect.getAttribute(dimension) ?? '')
+    const fromSize = Number.isFinite(sizeValue) ? sizeValue : min
+    animateLevelRectSize(levelRect, fromSize, target, getLevelTransition(key))
+  }
+
+  const handleLevelDemoPercent = (levelRect: LevelRect, percent: number) => {
+    setLevelDemoPercents((prev) => ({ ...prev, [levelRect.key]: percent }))
+    animateLevelToRatio(levelRect, percent / 100)
   }
 
   const handleRandomLevelDemo = () => {
     const result = activeEntry?.result
     if (!activeEntry || !result?.ok) return
-    if (!result.levelRects.length) return
-
-    LEVEL_RECT_IDS.filter((id) => result.levelRects.includes(id)).forEach(
-      (rectId) => {
-        const rect = getPreviewLevelRect(rectId)
-        if (!rect) return
-
-        const heightValue = Number.parseFloat(rect.getAttribute('height') ?? '')
-        const fromHeight = Number.isFinite(heightValue) ? heightValue : 0
-        const maxHeight =
-          levelDemoMaxHeights[rectId] ??
-          (fromHeight > 0 ? fromHeight : 100)
-        const toHeight = maxHeight > 0 ? Math.random() * maxHeight : 0
-        const durationSeconds =
-          activeEntry.levelTransitionSeconds[rectId] ??
-          DEFAULT_LEVEL_TRANSITION_SECONDS
-
-        animateLevelRectHeight(rectId, fromHeight, toHeight, durationSeconds)
-      }
-    )
+
+    result.levelRects.forEach((levelRect) => {
+      handleLevelDemoPercent(levelRect, Math.round(Math.random() * 100))
+    })
   }
 
   useEffect(() => {
@@ -472,60 +1507,63 @@ function App() {
       }
     })
     levelDemoRafRef.current = {}
+    setLevelDemoPercents({})
+  }, [activeEntryId, activeEntry?.result?.processed])
 
-    if (!activeEntry?.result?.ok) {
-      setLevelDemoMaxHeights({})
-      return
-    }
-
-    const svg = getPreviewSvg()
-    if (!svg) return
-
-    const viewBox = svg.getAttribute('viewBox')?.trim() ?? ''
-    const viewBoxParts = viewBox.split(/[,\s]+/).filter(Boolean)
-    const viewBoxHeight =
-      viewBoxParts.length === 4 ? Number.parseFloat(viewBoxParts[3]) : Number.NaN
-    const svgHeightFallback = Number.parseFloat(svg.getAttribute('height') ?? '')
-    const fallbackMaxHeight =
-      Number.isFinite(viewBoxHeight) && viewBoxHeight > 0
-        ? viewBoxHeight
-        : Number.isFinite(svgHeightFallback) && svgHeightFallback > 0
-          ? svgHeightFallback
-          : 100
-
-    const nextMaxHeights: Partial<Record<LevelRectId, number>> = {}
-
-    activeEntry.result.levelRects.forEach((rectId) => {
-      const rect = svg.querySelector(`rect#${rectId}`) as SVGRectElement | null
-      if (!rect) return
-
-      const height = Number.parseFloat(rect.getAttribute('height') ?? '')
-      const currentHeight = Number.isFinite(height) ? height : 0
-      const maxHeight =
-        currentHeight > 0 ? currentHeight : Math.max(1, fallbackMaxHeight)
-
-      nextMaxHeights[rectId] = maxHeight
+  // 处理结果变化后在后台重新比对渲染结果，旧结果的比对完成时直接丢弃
+  useEffect(() => {
+    const pending = visualCheckPendingRef.current
+    entries.forEach((entry) => {
+      const processed = entry.result?.ok ? entry.result.processed : null
+      if (
+        processed === null ||
+        entry.visualCheck?.processed === processed ||
+        pending.get(entry.id) === processed
+      ) {
+        return
+      }
+      pending.set(entry.id, processed)
+      void compareSvgRenderings(entry.rawContent, processed).then((check) => {
+        if (pending.get(entry.id) === processed) pending.delete(entry.id)
+        if (!check) return
+        setEntries((prev) =>
+          prev.map((item) =>
+            item.id === entry.id &&
+            item.result?.ok &&
+            item.result.processed === processed
+              ? { ...item, visualCheck: { ...check, processed } }
+              : item
+          )
+        )
+      })
     })
+  }, [entries])
 
-    setLevelDemoMaxHeights(nextMaxHeights)
-  }, [activeEntryId, activeEntry?.result?.processed])
+  const isVisualCheckExceeded = (entry: SvgEntry) =>
+    entry.visualCheck !== null &&
+    entry.visualCheck.processed === entry.result?.processed &&
+    entry.visualCheck.score > visualThreshold
 
   const statusBadges = useMemo(() => {
     if (!activeEntry?.result) return null
 
     const analysis = activeEntry.result
+    const visualCheck =
+      activeEntry.visualCheck?.processed === analysis.processed
+        ? activeEntry.visualCheck
+        : null
     return (
       <div className="flex flex-wrap items-center gap-2">
         <Badge variant={analysis.scopedBefore ? 'success' : 'warning'}>
           {analysis.scopedBefore ? (
             <span className="flex items-center gap-1">
               <ShieldCheck size={14} />
-              原始样式已作用域
+              {t('status.scopedBefore')}
             </span>
           ) : (
             <span className="flex items-center gap-1">
               <ShieldAlert size={14} />
-              原始样式存在冲突
+              {t('status.conflictBefore')}
             </span>
           )}
         </Badge>
@@ -533,21 +1571,48 @@ function App() {
           {analysis.scopedAfter ? (
             <span className="flex items-center gap-1">
               <Check size={14} />
-              已完成作用域处理
+              {t('status.scopedAfter')}
             </span>
           ) : (
             <span className="flex items-center gap-1">
               <AlertTriangle size={14} />
-              仍有选择器未自动处理
+              {t('status.unscopedAfter')}
             </span>
           )}
         </Badge>
+        {visualCheck ? (
+          <Badge
+            variant={
+              visualCheck.score > visualThreshold ? 'destructive' : 'success'
+            }
+          >
+            <span className="flex items-center gap-1">
+              {visualCheck.score > visualThreshold ? (
+                <ImageOff size={14} />
+              ) : (
+                <Check size={14} />
+              )}
+              {visualCheck.score > visualThreshold
+                ? t('status.visualChanged', {
+                    percent: (visualCheck.score * 100).toFixed(2),
+                  })
+                : t('status.visualSame')}
+            </span>
+          </Badge>
+        ) : (
+          <Badge variant="outline">
+            <span className="flex items-center gap-1">
+              <Loader2 size={14} className="animate-spin" />
+              {t('status.visualPending')}
+            </span>
+          </Badge>
+        )}
         <Badge variant="secondary">
-          {analysis.changed ? '已更新 id / 样式' : '无需修改'}
+          {analysis.changed ? t('status.changed') : t('status.unchanged')}
         </Badge>
       </div>
     )
-  }, [activeEntry])
+  }, [activeEntry, t, visualThreshold])
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -556,16 +1621,35 @@ function App() {
           <div>
             <h1 className="text-2xl font-semibold">SVG Scope Tool</h1>
             <p className="text-sm text-muted-foreground">
-              上传多个 SVG，自动检测并修正样式作用域，适合在 Vercel 等平台部署。
+              {t('app.tagline')}
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <div
+              role="group"
+              aria-label={t('app.language')}
+              className="flex items-center gap-1 rounded-md border p-1"
+            >
+              <Languages className="mx-1 h-4 w-4 text-muted-foreground" />
+              {LOCALES.map((option) => (
+                <Button
+                  key={option.value}
+                  size="sm"
+                  variant={locale === option.value ? 'secondary' : 'ghost'}
+                  className="h-7 px-2"
+                  aria-pressed={locale === option.value}
+                  onClick={() => setLocale(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
             <Button
               variant="outline"
               onClick={() => fileInputRef.current?.click()}
             >
               <Upload className="mr-2 h-4 w-4" />
-              上传 SVG
+              {t('upload.button')}
             </Button>
           </div>
         </div>
@@ -582,28 +1666,202 @@ function App() {
           multiple
         />
 
+        <input
+          ref={workspaceInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(event) => void handleImportWorkspace(event)}
+        />
+
+        <input
+          ref={configInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(event) => void handleLoadConfig(event)}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('workspace.title')}</CardTitle>
+            <CardDescription>{t('workspace.description')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {workspaceMeta && (
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="workspace-select">
+                    {t('workspace.select')}
+                  </Label>
+                  <select
+                    id="workspace-select"
+                    className={SELECT_CLASS_NAME}
+                    value={workspaceMeta.id}
+                    onChange={(event) =>
+                      void handleSwitchWorkspace(event.target.value)
+                    }
+                  >
+                    {(workspaces.some(
+                      (summary) => summary.id === workspaceMeta.id
+                    )
+                      ? workspaces
+                      : [
+                          {
+                            id: workspaceMeta.id,
+                            name: workspaceMeta.name,
+                            entryCount: entries.length,
+                          },
+                          ...workspaces,
+                        ]
+                    ).map((summary) => (
+                      <option key={summary.id} value={summary.id}>
+                        {t('workspace.option', {
+                          name:
+                            summary.id === workspaceMeta.id
+                              ? workspaceMeta.name
+                              : summary.name,
+                          count: summary.entryCount,
+                        })}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="workspace-name">{t('workspace.name')}</Label>
+                  <Input
+                    id="workspace-name"
+                    value={workspaceMeta.name}
+                    onChange={(event) =>
+                      setWorkspaceMeta({
+                        ...workspaceMeta,
+                        name: event.target.value,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+            {workspaceError && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {t(workspaceError)}
+              </p>
+            )}
+            {workspaceImportWarnings.length > 0 && (
+              <p className="flex items-center gap-2 text-sm text-amber-900">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {t('workspace.importWarnings', {
+                  count: workspaceImportWarnings.length,
+                  items: workspaceImportWarnings
+                    .map(({ fileName, field, key }) =>
+                      key
+                        ? `${fileName} ${field}.${key}`
+                        : `${fileName} ${field}`
+                    )
+                    .join(', '),
+                })}
+              </p>
+            )}
+            {workspaceMeta && (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void handleCreateWorkspace()}
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  {t('workspace.new')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleExportWorkspace}
+                >
+                  <Download className="mr-1 h-4 w-4" />
+                  {t('workspace.export')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => workspaceInputRef.current?.click()}
+                >
+                  <FolderOpen className="mr-1 h-4 w-4" />
+                  {t('workspace.import')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-destructive"
+                  onClick={() => void handleDeleteWorkspace()}
+                >
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  {t('workspace.delete')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => configInputRef.current?.click()}
+                >
+                  <FileJson className="mr-1 h-4 w-4" />
+                  {t('config.load')}
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleExportConfig}>
+                  <Download className="mr-1 h-4 w-4" />
+                  {t('config.export')}
+                </Button>
+              </div>
+            )}
+            {scopeConfig && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <span>{t('config.active', { name: scopeConfig.name })}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setScopeConfig(null)}
+                >
+                  {t('config.clear')}
+                </Button>
+              </div>
+            )}
+            {configIssues && (
+              <div className="space-y-1 rounded-md border border-destructive/40 bg-destructive/5 p-3 text-sm text-destructive">
+                <p className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  {t('config.failed', {
+                    name: configIssues.name,
+                    count: configIssues.issues.length,
+                  })}
+                </p>
+                <ul className="list-disc space-y-0.5 pl-6">
+                  {configIssues.issues.map((issue, index) => (
+                    <li key={index}>{issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
-            <CardTitle>上传 SVG 文件</CardTitle>
-            <CardDescription>
-              支持从 UI 工具导出的多个 SVG。本工具会检测 `.cls-*` 等类名是否已作用域，
-              并自动加上对应的 id 选择器。
-            </CardDescription>
+            <CardTitle>{t('upload.title')}</CardTitle>
+            <CardDescription>{t('upload.description')}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <Label htmlFor="svg-upload" className="block">
               <div className="flex flex-col items-center justify-center gap-3 rounded-lg border border-dashed border-muted-foreground/40 bg-muted/40 p-8 text-center transition hover:border-primary hover:bg-primary/5">
                 <Upload className="h-8 w-8 text-muted-foreground" />
                 <div className="space-y-1">
-                  <p className="text-sm font-medium">
-                    点击或拖拽文件到这里上传
-                  </p>
+                  <p className="text-sm font-medium">{t('upload.dropzone')}</p>
                   <p className="text-xs text-muted-foreground">
-                    仅限 .svg 文件，可一次选择多个文件进行批量修复。
+                    {t('upload.hint')}
                   </p>
                 </div>
                 {entries.length > 0 && (
-                  <Badge variant="secondary">已上传 {entries.length} 个文件</Badge>
+                  <Badge variant="secondary">
+                    {t('upload.count', { count: entries.length })}
+                  </Badge>
                 )}
               </div>
             </Label>
@@ -612,12 +1870,12 @@ function App() {
               size="sm"
               onClick={() => fileInputRef.current?.click()}
             >
-              选择文件
+              {t('upload.choose')}
             </Button>
             {entries.some((entry) => entry.isProcessing) && (
               <p className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Loader2 className="h-4 w-4 animate-spin" />
-                正在解析文件…
+                {t('upload.parsing')}
               </p>
             )}
           </CardContent>
@@ -628,10 +1886,9 @@ function App() {
             <CardHeader className="space-y-3">
               <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
                 <div>
-                  <CardTitle>检测结果</CardTitle>
+                  <CardTitle>{t('results.title')}</CardTitle>
                   <CardDescription>
-                    当前共上传 {entries.length} 个 SVG。选择下方文件可查看并调整其 id
-                    与作用域信息。
+                    {t('results.description', { count: entries.length })}
                   </CardDescription>
                 </div>
                 {statusBadges}
@@ -639,9 +1896,116 @@ function App() {
             </CardHeader>
             <CardContent className="space-y-6">
               <section className="space-y-3">
-                <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                  文件列表
-                </h2>
+                <div className="flex items-center justify-between gap-2">
+                  <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                    {t('results.fileList')}
+                  </h2>
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={selectedEntries.length === entries.length}
+                      onChange={(event) =>
+                        setSelectedEntryIds(
+                          event.target.checked
+                            ? entries.map((entry) => entry.id)
+                            : []
+                        )
+                      }
+                    />
+                    {t('bulk.selectAll')}
+                  </label>
+                </div>
+                {selectedEntries.length > 0 && (
+                  <div className="space-y-3 rounded-lg border bg-muted/20 p-3">
+                    <p className="text-xs font-medium">
+                      {t('bulk.selected', { count: selectedEntries.length })}
+                    </p>
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      <div className="flex items-end gap-2">
+                        <div className="flex-1 space-y-1">
+                          <Label htmlFor="bulk-id-pattern" className="text-xs">
+                            {t('bulk.idPattern')}
+                          </Label>
+                          <Input
+                            id="bulk-id-pattern"
+                            value={idPattern}
+                            onChange={(event) =>
+                              setIdPattern(event.target.value)
+                            }
+                            placeholder={DEFAULT_ID_PATTERN}
+                          />
+                        </div>
+                        <Button
+                          variant="outline"
+                          onClick={handleBulkApplyIdPattern}
+                          disabled={!idPattern.trim()}
+                        >
+                          {t('bulk.apply')}
+                        </Button>
+                      </div>
+                      <div className="flex items-end gap-2">
+                        <div className="flex-1 space-y-1">
+                          <Label
+                            htmlFor="bulk-level-seconds"
+                            className="text-xs"
+                          >
+                            {t('bulk.levelSeconds')}
+                          </Label>
+                          <Input
+                            id="bulk-level-seconds"
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={bulkLevelSeconds}
+                            onChange={(event) =>
+                              setBulkLevelSeconds(event.target.value)
+                            }
+                          />
+                        </div>
+                        <Button
+                          variant="outline"
+                          onClick={handleBulkLevelSeconds}
+                        >
+                          {t('bulk.apply')}
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {t('bulk.idPatternHint')}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleBulkReprocess}
+                      >
+                        <RefreshCw className="mr-1 h-4 w-4" />
+                        {t('bulk.reprocess')}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleBulkDownload}
+                        disabled={
+                          !selectedEntries.some((entry) => entry.result?.ok)
+                        }
+                      >
+                        <FileArchive className="mr-1 h-4 w-4" />
+                        {t('bulk.download')}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-destructive"
+                        onClick={handleBulkRemove}
+                      >
+                        <Trash2 className="mr-1 h-4 w-4" />
+                        {t('bulk.remove')}
+                      </Button>
+                    </div>
+                  </div>
+                )}
                 <div className="grid gap-2 sm:grid-cols-2">
                   {entries.map((entry) => {
                     const isActive = activeEntryId === entry.id
@@ -652,50 +2016,229 @@ function App() {
                       : `${baseClass} border-border hover:border-primary/40 hover:bg-muted/60`
 
                     return (
-                      <button
-                        key={entry.id}
-                        type="button"
-                        className={className}
-                        onClick={() => setActiveEntryId(entry.id)}
-                        aria-pressed={isActive}
-                      >
-                        <span className="mr-2 truncate">{entry.fileName}</span>
-                        {entry.isProcessing && (
-                          <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
-                        )}
-                        {!entry.isProcessing && entry.error && (
-                          <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
-                        )}
-                        {!entry.isProcessing && entry.result?.ok && (
-                          <ShieldCheck className="h-4 w-4 shrink-0 text-emerald-500" />
-                        )}
-                      </button>
+                      <div key={entry.id} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 shrink-0 accent-primary"
+                          checked={selectedEntryIds.includes(entry.id)}
+                          onChange={(event) =>
+                            handleToggleSelected(entry.id, event.target.checked)
+                          }
+                          aria-label={t('bulk.select', {
+                            fileName: entry.fileName,
+                          })}
+                        />
+                        <button
+                          type="button"
+                          className={className}
+                          onClick={() => setActiveEntryId(entry.id)}
+                          aria-pressed={isActive}
+                        >
+                          <span className="mr-2 truncate">{entry.fileName}</span>
+                          {entry.isProcessing && (
+                            <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+                          )}
+                          {!entry.isProcessing && entry.error && (
+                            <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+                          )}
+                          {!entry.isProcessing &&
+                            entry.result?.ok &&
+                            (isVisualCheckExceeded(entry) ? (
+                              <ImageOff className="h-4 w-4 shrink-0 text-destructive" />
+                            ) : (
+                              <ShieldCheck className="h-4 w-4 shrink-0 text-emerald-500" />
+                            ))}
+                        </button>
+                      </div>
                     )
                   })}
                 </div>
               </section>
 
+              {collisionReport && (
+                <details className="rounded-lg border bg-muted/20 p-4">
+                  <summary className="cursor-pointer select-none text-sm font-semibold">
+                    {t('collision.title')}
+                    <Badge
+                      variant={collisionCount ? 'warning' : 'success'}
+                      className="ml-2"
+                    >
+                      {collisionCount
+                        ? t('collision.count', { count: collisionCount })
+                        : t('collision.none')}
+                    </Badge>
+                  </summary>
+                  <div className="mt-4 space-y-4 text-sm">
+                    {collisionReport.rootIds.length > 0 && (
+                      <section className="space-y-2">
+                        <h3 className="font-medium">
+                          {t('collision.rootIds')}
+                        </h3>
+                        <ul className="space-y-2">
+                          {collisionReport.rootIds.map((collision) => (
+                            <li
+                              key={collision.id}
+                              className="flex flex-wrap items-center gap-2"
+                            >
+                              <code className="rounded bg-muted px-1 py-0.5 text-xs">
+                                #{collision.id}
+                              </code>
+                              <span className="text-muted-foreground">
+                                {collision.entryIds
+                                  .map(getEntryFileName)
+                                  .join(t('list.separator'))}
+                              </span>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() =>
+                                  handleResolveRootCollision(collision)
+                                }
+                              >
+                                <RefreshCw className="mr-1 h-3 w-3" />
+                                {t('collision.regenerate')}
+                              </Button>
+                            </li>
+                          ))}
+                        </ul>
+                      </section>
+                    )}
+                    {collisionReport.elementIds.length > 0 && (
+                      <section className="space-y-2">
+                        <h3 className="font-medium">
+                          {t('collision.elementIds')}
+                        </h3>
+                        {namespaceIds && (
+                          <p className="text-xs text-muted-foreground">
+                            {t('collision.preservedHint')}
+                          </p>
+                        )}
+                        <ul className="space-y-2">
+                          {collisionReport.elementIds.map((collision) => (
+                            <li
+                              key={collision.id}
+                              className="flex flex-wrap items-center gap-2"
+                            >
+                              <code className="rounded bg-muted px-1 py-0.5 text-xs">
+                                #{collision.id}
+                              </code>
+                              <span className="text-muted-foreground">
+                                {collision.entryIds
+                                  .map(getEntryFileName)
+                                  .join(t('list.separator'))}
+                              </span>
+                              {!namespaceIds && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    handleResolveElementCollision(collision)
+                                  }
+                                >
+                                  <RefreshCw className="mr-1 h-3 w-3" />
+                                  {t('collision.namespace')}
+                                </Button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </section>
+                    )}
+                    {collisionReport.globalRules.length > 0 && (
+                      <section className="space-y-2">
+                        <h3 className="font-medium">
+                          {t('collision.globalRules')}
+                        </h3>
+                        <ul className="space-y-1 text-xs">
+                          {collisionReport.globalRules.map((rule, index) => (
+                            <li key={index} className="flex items-start gap-2">
+                              <span className="shrink-0 text-muted-foreground">
+                                {getEntryFileName(rule.entryId)}
+                              </span>
+                              <code className="break-all font-mono">
+                                {rule.text}
+                              </code>
+                            </li>
+                          ))}
+                        </ul>
+                      </section>
+                    )}
+                    {collisionReport.classConflicts.length > 0 && (
+                      <section className="space-y-2">
+                        <h3 className="font-medium">
+                          {t('collision.classConflicts')}
+                        </h3>
+                        <ul className="space-y-3">
+                          {collisionReport.classConflicts.map((conflict) => (
+                            <li key={conflict.className} className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <code className="rounded bg-muted px-1 py-0.5 text-xs">
+                                  .{conflict.className}
+                                </code>
+                                <Badge
+                                  variant={
+                                    conflict.isolated ? 'outline' : 'destructive'
+                                  }
+                                >
+                                  {conflict.isolated
+                                    ? t('collision.isolated')
+                                    : t('collision.conflicting')}
+                                </Badge>
+                              </div>
+                              <ul className="space-y-1 text-xs">
+                                {conflict.definitions.map(
+                                  (definition, index) => (
+                                    <li
+                                      key={index}
+                                      className="flex items-start gap-2"
+                                    >
+                                      <span className="shrink-0 text-muted-foreground">
+                                        {getEntryFileName(definition.entryId)}
+                                      </span>
+                                      <code className="break-all font-mono">
+                                        {definition.selector}
+                                        {definition.declarations}
+                                      </code>
+                                    </li>
+                                  )
+                                )}
+                              </ul>
+                            </li>
+                          ))}
+                        </ul>
+                      </section>
+                    )}
+                    {collisionCount === 0 &&
+                      collisionReport.classConflicts.length === 0 && (
+                        <p className="text-muted-foreground">
+                          {t('collision.noneHint')}
+                        </p>
+                      )}
+                  </div>
+                </details>
+              )}
+
               {activeEntry ? (
                 activeEntry.isProcessing ? (
                   <p className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    {activeEntry.fileName} 正在处理，请稍候…
+                    {t('results.processing', { fileName: activeEntry.fileName })}
                   </p>
                 ) : activeEntry.result?.ok ? (
                   <>
                     <section className="space-y-2">
                       <p className="text-sm text-muted-foreground">
-                        当前 SVG 使用的 id 为{' '}
+                        {t('id.currentBefore')}
                         <code className="rounded bg-muted px-1 py-0.5 text-xs">
                           {activeEntry.result.svgId}
                         </code>
-                        。可以手动输入新的 id 或点击重新生成以确保全局唯一。
+                        {t('id.currentAfter')}
                       </p>
                     </section>
 
                     <section className="flex flex-col gap-3 sm:flex-row sm:items-end">
                       <div className="flex-1 space-y-2">
-                        <Label htmlFor="svg-id">自定义 SVG id</Label>
+                        <Label htmlFor="svg-id">{t('id.label')}</Label>
                         <Input
                           id="svg-id"
                           value={activeEntry.desiredId}
@@ -708,7 +2251,7 @@ function App() {
                               )
                             )
                           }
-                          placeholder="例如：unique-icon-id"
+                          placeholder={t('id.placeholder')}
                         />
                       </div>
                       <Button
@@ -722,62 +2265,691 @@ function App() {
                         variant="secondary"
                       >
                         <RefreshCw className="mr-2 h-4 w-4" />
-                        重新生成
+                        {t('id.regenerate')}
+                      </Button>
+                      <select
+                        aria-label={t('id.strategy')}
+                        className={`${SELECT_CLASS_NAME} sm:w-auto`}
+                        value={idStrategy}
+                        onChange={(event) =>
+                          setIdStrategy(event.target.value as IdStrategy)
+                        }
+                      >
+                        {ID_STRATEGIES.map((strategy) => (
+                          <option key={strategy} value={strategy}>
+                            {t(`id.strategy.${strategy}`)}
+                          </option>
+                        ))}
+                      </select>
+                    </section>
+
+                    <section className="space-y-3">
+                      <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                        {t('strategy.title')}
+                      </h2>
+                      <div className="flex flex-wrap gap-2">
+                        {SCOPE_STRATEGIES.map((strategy) => (
+                          <Button
+                            key={strategy}
+                            size="sm"
+                            variant={
+                              activeEntry.scopeStrategy === strategy
+                                ? 'default'
+                                : 'outline'
+                            }
+                            aria-pressed={activeEntry.scopeStrategy === strategy}
+                            onClick={() => {
+                              setEntries((prev) =>
+                                prev.map((item) =>
+                                  item.id === activeEntry.id
+                                    ? { ...item, scopeStrategy: strategy }
+                                    : item
+                                )
+                              )
+                              handleReprocess(activeEntry.id, {
+                                scopeStrategy: strategy,
+                              })
+                            }}
+                          >
+                            {t(`strategy.${strategy}`)}
+                          </Button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {t(`strategy.${activeEntry.scopeStrategy}.hint`, {
+                          id: activeEntry.result.svgId,
+                        })}
+                      </p>
+                    </section>
+
+                    <section className="space-y-3 rounded-lg border bg-muted/20 p-4">
+                      <label className="flex items-center gap-2 text-sm font-medium">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-primary"
+                          checked={namespaceIds}
+                          onChange={(event) => {
+                            setNamespaceIds(event.target.checked)
+                            handleReprocess(activeEntry.id, {
+                              namespaceIds: event.target.checked,
+                            })
+                          }}
+                        />
+                        {t('namespaceIds.label')}
+                      </label>
+                      <p className="text-xs text-muted-foreground">
+                        {t('namespaceIds.hint', { id: activeEntry.result.svgId })}
+                      </p>
+                      {namespaceIds && (
+                        <div className="space-y-2">
+                          <Label htmlFor="preserved-ids">
+                            {t('namespaceIds.preservedLabel')}
+                          </Label>
+                          <Input
+                            id="preserved-ids"
+                            value={preservedIdsText}
+                            onChange={(event) =>
+                              setPreservedIdsText(event.target.value)
+                            }
+                            onBlur={() => handleReprocess(activeEntry.id)}
+                            placeholder={t('namespaceIds.preservedPlaceholder')}
+                          />
+                        </div>
+                      )}
+                      {activeEntry.result.idRenames.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {activeEntry.result.idRenames.map((rename) => (
+                            <Badge key={rename.id} variant="outline">
+                              #{rename.id} → #{rename.scopedId}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </section>
+
+                    <section className="space-y-3 rounded-lg border bg-muted/20 p-4">
+                      <h2 className="text-sm font-semibold">
+                        {t('levelRules.title')}
+                      </h2>
+                      <p className="text-xs text-muted-foreground">
+                        {t('levelRules.hint')}
+                      </p>
+                      <div className="space-y-2">
+                        {levelRules.map((rule, index) => (
+                          <div
+                            key={index}
+                            className="grid gap-2 sm:grid-cols-[8rem_1fr_1fr_auto]"
+                          >
+                            <select
+                              aria-label={t('levelRules.kindLabel')}
+                              className={SELECT_CLASS_NAME}
+                              value={rule.kind}
+                              onChange={(event) =>
+                                handleUpdateLevelRule(index, {
+                                  kind: event.target.value as LevelRuleKind,
+                                })
+                              }
+                            >
+                              {LEVEL_RULE_KINDS.map((kind) => (
+                                <option key={kind} value={kind}>
+                                  {t(`levelRules.kind.${kind}`)}
+                                </option>
+                              ))}
+                            </select>
+                            <Input
+                              aria-label={t('levelRules.value')}
+                              placeholder={t('levelRules.value')}
+                              value={rule.value}
+                              onChange={(event) =>
+                                handleUpdateLevelRule(index, {
+                                  value: event.target.value,
+                                })
+                              }
+                            />
+                            <Input
+                              aria-label={t('levelRules.elements')}
+                              placeholder={t('levelRules.elementsPlaceholder')}
+                              value={rule.elements?.join(',') ?? ''}
+                              onChange={(event) =>
+                                handleUpdateLevelRule(index, {
+                                  elements: event.target.value.split(','),
+                                })
+                              }
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              title={t('levelRules.remove')}
+                              onClick={() => handleRemoveLevelRule(index)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={handleAddLevelRule}
+                        >
+                          <Plus className="mr-2 h-4 w-4" />
+                          {t('levelRules.add')}
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="secondary"
+                          onClick={handleApplyLevelRules}
+                        >
+                          {t('levelRules.apply')}
+                        </Button>
+                      </div>
+                    </section>
+
+                    <section className="space-y-3 rounded-lg border bg-muted/20 p-4">
+                      <h2 className="text-sm font-semibold">
+                        {t('removal.title')}
+                      </h2>
+                      <p className="text-xs text-muted-foreground">
+                        {t('removal.hint')}
+                      </p>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-primary"
+                          checked={activeEntry.removalPolicy !== null}
+                          onChange={(event) =>
+                            handleToggleRemovalOverride(
+                              activeEntry.id,
+                              event.target.checked
+                            )
+                          }
+                        />
+                        {t('removal.override')}
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {REMOVAL_POLICY_PRESETS.map(([name, preset]) => (
+                          <Button
+                            key={name}
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              handleUpdateRemovalPolicy(activeEntry, preset)
+                            }
+                          >
+                            {t(`removal.preset.${name}`)}
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        {REMOVAL_POLICY_FIELDS.map((field) => (
+                          <div key={field} className="space-y-1">
+                            <Label
+                              htmlFor={`removal-${field}`}
+                              className="text-xs"
+                            >
+                              {t(`removal.${field}`)}
+                            </Label>
+                            <Input
+                              id={`removal-${field}`}
+                              placeholder={t('removal.listPlaceholder')}
+                              value={(
+                                activeEntry.removalPolicy ?? removalPolicy
+                              )[field].join(',')}
+                              onChange={(event) =>
+                                handleUpdateRemovalPolicy(activeEntry, {
+                                  [field]: event.target.value.split(','),
+                                })
+                              }
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="secondary"
+                        onClick={handleApplyRemovalPolicy}
+                      >
+                        {t('removal.apply')}
                       </Button>
+                      {activeEntry.result.removals.length > 0 && (
+                        <details>
+                          <summary className="cursor-pointer select-none text-sm font-medium">
+                            {t('removal.report', {
+                              count: activeEntry.result.removals.length,
+                            })}
+                          </summary>
+                          <ul className="mt-2 space-y-1 text-xs">
+                            {activeEntry.result.removals.map(
+                              (removal, index) => (
+                                <li
+                                  key={index}
+                                  className="flex items-start gap-2"
+                                >
+                                  <Badge variant="outline">
+                                    {t(`removal.source.${removal.source}`)}
+                                  </Badge>
+                                  <code className="break-all">
+                                    {formatRemovalRecord(removal)}
+                                  </code>
+                                </li>
+                              )
+                            )}
+                          </ul>
+                        </details>
+                      )}
+                    </section>
+
+                    <section className="space-y-3 rounded-lg border bg-muted/20 p-4">
+                      <label className="flex items-center gap-2 text-sm font-medium">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-primary"
+                          checked={sanitizePolicy !== null}
+                          onChange={(event) =>
+                            handleToggleSanitize(event.target.checked)
+                          }
+                        />
+                        {t('sanitize.label')}
+                      </label>
+                      <p className="text-xs text-muted-foreground">
+                        {t('sanitize.hint')}
+                      </p>
+                      {sanitizePolicy && (
+                        <div className="grid gap-2 sm:grid-cols-3">
+                          {SANITIZE_POLICY_FIELDS.map((field) => (
+                            <div key={field} className="space-y-1">
+                              <Label
+                                htmlFor={`sanitize-${field}`}
+                                className="text-xs"
+                              >
+                                {t(`sanitize.${field}`)}
+                              </Label>
+                              <Input
+                                id={`sanitize-${field}`}
+                                placeholder={t(
+                                  `sanitize.${field}Placeholder`
+                                )}
+                                value={sanitizePolicy[field].join(',')}
+                                onChange={(event) =>
+                                  handleUpdateSanitizePolicy({
+                                    [field]: event.target.value.split(','),
+                                  })
+                                }
+                                onBlur={handleApplyRemovalPolicy}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {activeEntry.result.sanitized.length > 0 && (
+                        <details>
+                          <summary className="cursor-pointer select-none text-sm font-medium">
+                            {t('sanitize.report', {
+                              count: activeEntry.result.sanitized.length,
+                            })}
+                          </summary>
+                          <ul className="mt-2 space-y-1 text-xs">
+                            {activeEntry.result.sanitized.map(
+                              (record, index) => (
+                                <li
+                                  key={index}
+                                  className="flex items-start gap-2"
+                                >
+                                  <Badge variant="warning">
+                                    {t(`sanitize.reason.${record.reason}`)}
+                                  </Badge>
+                                  <code className="break-all">
+                                    {formatSanitizeRecord(record)}
+                                  </code>
+                                </li>
+                              )
+                            )}
+                          </ul>
+                        </details>
+                      )}
+                    </section>
+
+                    <section className="space-y-3 rounded-lg border bg-muted/20 p-4">
+                      <label className="flex items-center gap-2 text-sm font-medium">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-primary"
+                          checked={optimizeOptions !== null}
+                          onChange={(event) =>
+                            handleToggleOptimize(event.target.checked)
+                          }
+                        />
+                        {t('optimize.label')}
+                      </label>
+                      <p className="text-xs text-muted-foreground">
+                        {t('optimize.hint')}
+                      </p>
+                      {optimizeOptions && (
+                        <div className="flex flex-wrap items-end gap-4">
+                          {OPTIMIZE_STEP_FIELDS.map((field) => (
+                            <label
+                              key={field}
+                              className="flex items-center gap-2 text-sm"
+                            >
+                              <input
+                                type="checkbox"
+                                className="h-4 w-4 accent-primary"
+                                checked={optimizeOptions[field]}
+                                onChange={(event) =>
+                                  handleUpdateOptimizeOptions({
+                                    [field]: event.target.checked,
+                                  })
+                                }
+                              />
+                              {t(`optimize.${field}`)}
+                            </label>
+                          ))}
+                          <div className="space-y-1">
+                            <Label
+                              htmlFor="optimize-precision"
+                              className="text-xs"
+                            >
+                              {t('optimize.precision')}
+                            </Label>
+                            <Input
+                              id="optimize-precision"
+                              type="number"
+                              min={0}
+                              max={MAX_OPTIMIZE_PRECISION}
+                              step={1}
+                              className="w-24"
+                              value={optimizeOptions.precision ?? ''}
+                              onChange={(event) => {
+                                const value = event.target.value
+                                const precision =
+                                  value === '' ? null : Number(value)
+                                if (
+                                  precision === null ||
+                                  (Number.isInteger(precision) &&
+                                    precision >= 0 &&
+                                    precision <= MAX_OPTIMIZE_PRECISION)
+                                ) {
+                                  handleUpdateOptimizeOptions({ precision })
+                                }
+                              }}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      <p className="text-sm">
+                        {t('optimize.size', {
+                          before: formatByteSize(
+                            getByteSize(activeEntry.rawContent)
+                          ),
+                          after: formatByteSize(
+                            getByteSize(activeEntry.result.processed)
+                          ),
+                          change: formatSizeChange(
+                            getByteSize(activeEntry.rawContent),
+                            getByteSize(activeEntry.result.processed)
+                          ),
+                        })}
+                      </p>
+                      {activeEntry.result.optimized && (
+                        <p className="text-xs text-muted-foreground">
+                          {t('optimize.stats', {
+                            ...activeEntry.result.optimized,
+                          })}
+                        </p>
+                      )}
                     </section>
 
                     <section className="space-y-3">
                       <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                        样式类名
+                        {t('classes.title')}
                       </h2>
                       {activeEntry.result.classes.length ? (
                         <div className="flex flex-wrap gap-2">
                           {activeEntry.result.classes.map((cls) => (
-                            <Badge key={cls} variant="outline">
-                              .{cls}
+                            <Badge key={cls.name} variant="outline">
+                              .{cls.name}
+                              {cls.scopedName !== cls.name &&
+                                ` → .${cls.scopedName}`}
                             </Badge>
                           ))}
                         </div>
                       ) : (
                         <p className="text-sm text-muted-foreground">
-                          未检测到 `.cls-*` 类名。
+                          {t('classes.empty')}
                         </p>
                       )}
                     </section>
 
+                    {activeEntry.result.keyframes.length > 0 && (
+                      <section className="space-y-3">
+                        <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                          {t('keyframes.title')}
+                        </h2>
+                        <div className="flex flex-wrap gap-2">
+                          {activeEntry.result.keyframes.map((rename) => (
+                            <Badge key={rename.name} variant="outline">
+                              @keyframes {rename.name} → {rename.scopedName}
+                            </Badge>
+                          ))}
+                        </div>
+                      </section>
+                    )}
+
                     {activeEntry.result.warnings.length > 0 && (
                       <section className="space-y-2 rounded-lg border border-amber-200 bg-amber-50 p-4 text-amber-950">
                         <div className="flex items-center gap-2 text-sm font-semibold">
                           <AlertTriangle size={16} />
-                          无法自动处理的样式
+                          {t('warnings.title')}
                         </div>
-                        <ul className="list-disc space-y-1 pl-5 text-sm">
-                          {activeEntry.result.warnings.map((info, index) => (
-                            <li key={index}>{info}</li>
-                          ))}
-                        </ul>
+                        {groupWarningsByCode(activeEntry.result.warnings).map(
+                          ([code, warnings]) => (
+                            <div key={code} className="space-y-1">
+                              <div className="flex items-center gap-2 text-sm font-medium">
+                                {t(`warnings.group.${code}`)}
+                                <Badge variant="outline">{code}</Badge>
+                                <span className="text-xs text-amber-900/70">
+                                  {t('warnings.count', { count: warnings.length })}
+                                </span>
+                              </div>
+                              <ul className="list-disc space-y-1 pl-5 text-sm">
+                                {warnings.map((warning, index) => (
+                                  <li key={index}>
+                                    {t(`warning.${warning.code}`, warning.params)}
+                                    {warning.line !== null && (
+                                      <Button
+                                        type="button"
+                                        variant="link"
+                                        className="ml-1 h-auto p-0 text-xs text-amber-900"
+                                        onClick={() =>
+                                          handleRevealSourceLine(warning.line ?? 1)
+                                        }
+                                      >
+                                        {t('warnings.line', { line: warning.line })}
+                                      </Button>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )
+                        )}
                       </section>
                     )}
 
+                    <details
+                      ref={sourceDetailsRef}
+                      className="rounded-lg border bg-muted/20 p-4"
+                    >
+                      <summary className="cursor-pointer select-none text-sm font-semibold">
+                        {t('source.title')}
+                      </summary>
+                      <Textarea
+                        ref={sourceTextareaRef}
+                        value={activeEntry.rawContent}
+                        readOnly
+                        className="mt-3 h-64 font-mono text-xs"
+                      />
+                    </details>
+
+                    <details
+                      className="rounded-lg border bg-muted/20 p-4"
+                      onToggle={(event) =>
+                        setIsDiffOpen(event.currentTarget.open)
+                      }
+                    >
+                      <summary className="cursor-pointer select-none text-sm font-semibold">
+                        {t('diff.title')}
+                        {diffBlocks && (
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">
+                            {t('diff.stats', diffStats)}
+                          </span>
+                        )}
+                      </summary>
+                      {diffPreviewUrls && (
+                        <div className="mt-3 space-y-2">
+                          <p className="text-xs text-muted-foreground">
+                            {t('diff.previewHint')}
+                          </p>
+                          <div className="grid gap-3 sm:grid-cols-3">
+                            {(['before', 'after'] as const).map((side) => (
+                              <figure
+                                key={side}
+                                className="space-y-1 rounded-lg border bg-white p-3"
+                              >
+                                <figcaption className="text-xs font-medium text-muted-foreground">
+                                  {t(`diff.${side}`)}
+                                </figcaption>
+                                <img
+                                  src={diffPreviewUrls[side]}
+                                  alt={t(`diff.${side}`)}
+                                  className="mx-auto max-h-64"
+                                />
+                              </figure>
+                            ))}
+                            {activeEntry.visualCheck?.processed ===
+                              activeProcessed && (
+                              <figure className="space-y-1 rounded-lg border bg-white p-3">
+                                <figcaption className="text-xs font-medium text-muted-foreground">
+                                  {t('diff.heatmap', {
+                                    percent: (
+                                      activeEntry.visualCheck.score * 100
+                                    ).toFixed(2),
+                                  })}
+                                </figcaption>
+                                <img
+                                  src={activeEntry.visualCheck.heatmapUrl}
+                                  alt={t('diff.heatmap', {
+                                    percent: (
+                                      activeEntry.visualCheck.score * 100
+                                    ).toFixed(2),
+                                  })}
+                                  className="mx-auto max-h-64 w-full object-contain [image-rendering:pixelated]"
+                                />
+                              </figure>
+                            )}
+                          </div>
+                          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                            {t('diff.threshold')}
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              step={0.1}
+                              className="h-8 w-24"
+                              value={+(visualThreshold * 100).toFixed(2)}
+                              onChange={(event) => {
+                                const percent = Number.parseFloat(
+                                  event.target.value
+                                )
+                                if (Number.isFinite(percent) && percent >= 0) {
+                                  setVisualThreshold(percent / 100)
+                                }
+                              }}
+                            />
+                            %
+                          </label>
+                        </div>
+                      )}
+                      {diffBlocks &&
+                        (diffStats.added + diffStats.removed === 0 ? (
+                          <p className="mt-3 text-sm text-muted-foreground">
+                            {t('diff.noChanges')}
+                          </p>
+                        ) : (
+                          <div className="mt-3 max-h-[32rem] overflow-auto rounded-lg border bg-white font-mono text-xs">
+                            {diffBlocks.map((block, blockIndex) =>
+                              block.kind === 'fold' &&
+                              !expandedDiffFolds.includes(blockIndex) ? (
+                                <button
+                                  key={blockIndex}
+                                  type="button"
+                                  className="w-full bg-muted/40 px-3 py-1 text-left text-muted-foreground hover:bg-muted"
+                                  onClick={() =>
+                                    setExpandedDiffFolds((prev) => [
+                                      ...prev,
+                                      blockIndex,
+                                    ])
+                                  }
+                                >
+                                  {t('diff.expand', {
+                                    count: block.rows.length,
+                                  })}
+                                </button>
+                              ) : (
+                                block.rows.map((row, rowIndex) => (
+                                  <div
+                                    key={`${blockIndex}-${rowIndex}`}
+                                    className="grid grid-cols-2 divide-x"
+                                  >
+                                    <DiffCell
+                                      line={row.before}
+                                      className={
+                                        DIFF_CELL_CLASS_NAMES[row.kind].before
+                                      }
+                                      highlightClassName="bg-red-200"
+                                    />
+                                    <DiffCell
+                                      line={row.after}
+                                      className={
+                                        DIFF_CELL_CLASS_NAMES[row.kind].after
+                                      }
+                                      highlightClassName="bg-emerald-200"
+                                    />
+                                  </div>
+                                ))
+                              )
+                            )}
+                          </div>
+                        ))}
+                    </details>
+
                     <section className="space-y-3">
                       <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                        预览
+                        {t('preview.title')}
                       </h2>
                         <div className="flex flex-col gap-4 lg:flex-row">
                           <div className="flex-1 rounded-lg border bg-white p-4 shadow-sm">
-                            <div
-                              ref={previewRef}
-                              className="flex justify-center"
-                              dangerouslySetInnerHTML={{
-                                __html: activeEntry.result.processed,
-                              }}
+                            {/* 沙箱 iframe 渲染，SVG 内的脚本不会执行，未作用域的样式也影响不到工具页面 */}
+                            <iframe
+                              title={t('preview.title')}
+                              sandbox="allow-scripts"
+                              srcDoc={previewDocument}
+                              onLoad={handlePreviewFrameLoad}
+                              className="block w-full border-0"
+                              style={{ height: previewHeight ?? 150 }}
                             />
                         </div>
                           <div className="flex-1 space-y-3">
-                            <div className="flex items-center gap-2">
+                            <div className="flex flex-wrap items-center gap-2">
                               <Button onClick={() => handleDownload(activeEntry)}>
                                 <Download className="mr-2 h-4 w-4" />
-                                下载修正后的 SVG
+                                {t('actions.download')}
                               </Button>
                               <Button
                                 variant="outline"
@@ -785,72 +2957,269 @@ function App() {
                               >
                                 <Copy className="mr-2 h-4 w-4" />
                                 {copiedEntryId === activeEntry.id
-                                  ? '已复制'
-                                  : '复制代码'}
+                                  ? t('actions.copied')
+                                  : t('actions.copy')}
                               </Button>
+                              {activeEntry.result.levelRects.length > 0 &&
+                                LEVEL_BINDING_LANGUAGES.map((language) => (
+                                  <Button
+                                    key={language}
+                                    variant="outline"
+                                    title={t('actions.downloadBindingHint')}
+                                    onClick={() =>
+                                      handleDownloadBinding(
+                                        activeEntry,
+                                        language
+                                      )
+                                    }
+                                  >
+                                    <FileCode className="mr-2 h-4 w-4" />
+                                    {t('actions.downloadBinding', {
+                                      extension: language,
+                                    })}
+                                  </Button>
+                                ))}
                             </div>
                             {activeEntry.result.levelRects.length > 0 && (
                               <details className="rounded-lg border bg-muted/20 p-4">
                                 <summary className="cursor-pointer select-none text-sm font-semibold">
-                                  高级设置：液位动画 / 演示（
-                                  {activeEntry.result.levelRects
-                                    .map((id) => `#${id}`)
-                                    .join('、')}
-                                  ）
+                                  {t('level.summary', {
+                                    ids: activeEntry.result.levelRects
+                                      .map(formatLevelRectName)
+                                      .join(t('list.separator')),
+                                  })}
                                 </summary>
                                 <div className="mt-4 space-y-4">
                                   <div className="space-y-1">
                                     <p className="text-sm text-muted-foreground">
-                                      可分别设置每个液位 rect 的 <code>height</code> 过渡时间（单位：秒；填{' '}
-                                      <code>0</code> 表示不做动画）。
+                                      {t('level.hint')}
                                     </p>
                                   </div>
+                                  <datalist id="level-timing-functions">
+                                    {LEVEL_TIMING_FUNCTION_PRESETS.map(
+                                      (preset) => (
+                                        <option key={preset} value={preset} />
+                                      )
+                                    )}
+                                  </datalist>
                                   <div className="grid gap-3 sm:grid-cols-3">
-                                    {LEVEL_RECT_IDS.filter((id) =>
-                                      activeEntry.result?.levelRects.includes(id)
-                                    ).map((rectId) => (
-                                      <div key={rectId} className="space-y-2">
+                                    {activeEntry.result.levelRects.map(
+                                      (levelRect) => (
+                                      <div
+                                        key={levelRect.key}
+                                        className="space-y-2"
+                                      >
                                         <Label
-                                          htmlFor={`level-transition-${rectId}`}
+                                          htmlFor={`level-transition-${levelRect.key}`}
                                         >
-                                          {`#${rectId}`} 过渡时间（s）
+                                          {t('level.secondsLabel', {
+                                            name: formatLevelRectName(levelRect),
+                                          })}
                                         </Label>
                                         <Input
-                                          id={`level-transition-${rectId}`}
+                                          id={`level-transition-${levelRect.key}`}
                                           type="number"
                                           min={0}
                                           step={0.1}
                                           value={
-                                            activeEntry.levelTransitionSeconds[
-                                              rectId
-                                            ] ?? DEFAULT_LEVEL_TRANSITION_SECONDS
+                                            getLevelTransition(levelRect.key)
+                                              .duration
                                           }
                                           onChange={(event) => {
-                                            const next =
-                                              event.target.value === ''
-                                                ? 0
-                                                : Number.parseFloat(
-                                                    event.target.value
-                                                  )
-                                            setEntries((prev) =>
-                                              prev.map((item) =>
-                                                item.id === activeEntry.id
-                                                  ? {
-                                                      ...item,
-                                                      levelTransitionSeconds: {
-                                                        ...item.levelTransitionSeconds,
-                                                        [rectId]: Number.isFinite(next)
-                                                          ? next
-                                                          : 0,
-                                                      },
-                                                    }
-                                                  : item
-                                              )
+                                            const next = Number.parseFloat(
+                                              event.target.value
+                                            )
+                                            handleUpdateLevelTransition(
+                                              activeEntry.id,
+                                              levelRect.key,
+                                              {
+                                                duration: Number.isFinite(next)
+                                                  ? next
+                                                  : 0,
+                                              }
                                             )
                                           }}
                                         />
+                                        <select
+                                          aria-label={t('level.directionLabel', {
+                                            name: formatLevelRectName(levelRect),
+                                          })}
+                                          className={SELECT_CLASS_NAME}
+                                          value={levelRect.direction}
+                                          onChange={(event) =>
+                                            handleChangeLevelDirection(
+                                              activeEntry.id,
+                                              levelRect.key,
+                                              event.target
+                                                .value as LevelFillDirection
+                                            )
+                                          }
+                                        >
+                                          {LEVEL_FILL_DIRECTIONS.map(
+                                            (direction) => (
+                                              <option
+                                                key={direction}
+                                                value={direction}
+                                              >
+                                                {t(`level.direction.${direction}`)}
+                                              </option>
+                                            )
+                                          )}
+                                        </select>
+                                        <div className="grid grid-cols-2 gap-2">
+                                          {(['min', 'max'] as const).map(
+                                            (bound) => (
+                                              <div
+                                                key={bound}
+                                                className="space-y-1"
+                                              >
+                                                <Label
+                                                  htmlFor={`level-${bound}-${levelRect.key}`}
+                                                  className="text-xs"
+                                                >
+                                                  {t(`level.calibration.${bound}`)}
+                                                </Label>
+                                                <Input
+                                                  id={`level-${bound}-${levelRect.key}`}
+                                                  type="number"
+                                                  step="any"
+                                                  placeholder={t(
+                                                    `level.calibration.${bound}Placeholder`
+                                                  )}
+                                                  value={
+                                                    activeEntry
+                                                      .levelCalibrations[
+                                                      levelRect.key
+                                                    ]?.[bound] ?? ''
+                                                  }
+                                                  onChange={(event) => {
+                                                    const next =
+                                                      Number.parseFloat(
+                                                        event.target.value
+                                                      )
+                                                    handleUpdateLevelCalibration(
+                                                      activeEntry.id,
+                                                      levelRect.key,
+                                                      {
+                                                        [bound]:
+                                                          Number.isFinite(next)
+                                                            ? next
+                                                            : null,
+                                                      }
+                                                    )
+                                                  }}
+                                                />
+                                              </div>
+                                            )
+                                          )}
+                                        </div>
+                                        <details className="space-y-2">
+                                          <summary className="cursor-pointer select-none text-xs text-muted-foreground">
+                                            {t('level.transitionAdvanced')}
+                                          </summary>
+                                          <div className="mt-2 space-y-2">
+                                            <Label
+                                              htmlFor={`level-property-${levelRect.key}`}
+                                            >
+                                              {t('level.property')}
+                                            </Label>
+                                            <Input
+                                              id={`level-property-${levelRect.key}`}
+                                              value={
+                                                getLevelTransition(
+                                                  levelRect.key
+                                                ).property
+                                              }
+                                              placeholder={t(
+                                                'level.propertyPlaceholder'
+                                              )}
+                                              onChange={(event) =>
+                                                handleUpdateLevelTransition(
+                                                  activeEntry.id,
+                                                  levelRect.key,
+                                                  {
+                                                    property:
+                                                      event.target.value,
+                                                  }
+                                                )
+                                              }
+                                            />
+                                            <Label
+                                              htmlFor={`level-easing-${levelRect.key}`}
+                                            >
+                                              {t('level.timingFunction')}
+                                            </Label>
+                                            <Input
+                                              id={`level-easing-${levelRect.key}`}
+                                              list="level-timing-functions"
+                                              value={
+                                                getLevelTransition(
+                                                  levelRect.key
+                                                ).timingFunction
+                                              }
+                                              aria-invalid={
+                                                !isValidTimingFunction(
+                                                  getLevelTransition(
+                                                    levelRect.key
+                                                  ).timingFunction
+                                                )
+                                              }
+                                              className="aria-[invalid=true]:border-destructive"
+                                              onChange={(event) =>
+                                                handleUpdateLevelTransition(
+                                                  activeEntry.id,
+                                                  levelRect.key,
+                                                  {
+                                                    timingFunction:
+                                                      event.target.value,
+                                                  }
+                                                )
+                                              }
+                                            />
+                                            {!isValidTimingFunction(
+                                              getLevelTransition(levelRect.key)
+                                                .timingFunction
+                                            ) && (
+                                              <p className="text-xs text-destructive">
+                                                {t(
+                                                  'level.timingFunctionInvalid'
+                                                )}
+                                              </p>
+                                            )}
+                                            <Label
+                                              htmlFor={`level-delay-${levelRect.key}`}
+                                            >
+                                              {t('level.delay')}
+                                            </Label>
+                                            <Input
+                                              id={`level-delay-${levelRect.key}`}
+                                              type="number"
+                                              step={0.1}
+                                              value={
+                                                getLevelTransition(
+                                                  levelRect.key
+                                                ).delay
+                                              }
+                                              onChange={(event) => {
+                                                const next = Number.parseFloat(
+                                                  event.target.value
+                                                )
+                                                handleUpdateLevelTransition(
+                                                  activeEntry.id,
+                                                  levelRect.key,
+                                                  {
+                                                    delay: Number.isFinite(next)
+                                                      ? next
+                                                      : 0,
+                                                  }
+                                                )
+                                              }}
+                                            />
+                                          </div>
+                                        </details>
                                       </div>
-                                    ))}
+                                      )
+                                    )}
                                   </div>
                                   <div className="flex items-center gap-2">
                                     <Button
@@ -858,33 +3227,69 @@ function App() {
                                       size="sm"
                                       variant="secondary"
                                       onClick={() =>
-                                        handleApplyLevelTransitions(activeEntry.id)
+                                        handleReprocess(activeEntry.id)
                                       }
                                     >
-                                      应用液位动画
+                                      {t('level.apply')}
                                     </Button>
                                     <p className="text-xs text-muted-foreground">
-                                      更新导出 SVG 内液位 rect 的内联{' '}
-                                      <code>transition</code> 与 <code>transform</code>。
+                                      {t('level.applyHint')}
                                     </p>
                                   </div>
 
                                   <div className="space-y-3 rounded-lg border bg-background/60 p-4">
                                     <div className="space-y-1">
                                       <h3 className="text-sm font-semibold">
-                                        高度演示
+                                        {t('level.demoTitle')}
                                       </h3>
                                       <p className="text-xs text-muted-foreground">
-                                        点击“随机演示”会在预览中随机修改液位高度，并按上方设置的秒数播放动画（仅影响预览，不会写入导出代码）。
+                                        {t('level.demoHint')}
                                       </p>
                                     </div>
+                                    <div className="space-y-2">
+                                      {activeEntry.result.levelRects.map(
+                                        (levelRect) => (
+                                          <label
+                                            key={levelRect.key}
+                                            className="flex items-center gap-3 text-xs"
+                                          >
+                                            <span className="w-24 truncate font-medium">
+                                              {formatLevelRectName(levelRect)}
+                                            </span>
+                                            <input
+                                              type="range"
+                                              min={0}
+                                              max={100}
+                                              className="flex-1 accent-primary"
+                                              value={
+                                                levelDemoPercents[
+                                                  levelRect.key
+                                                ] ?? 100
+                                              }
+                                              onChange={(event) =>
+                                                handleLevelDemoPercent(
+                                                  levelRect,
+                                                  Number(event.target.value)
+                                                )
+                                              }
+                                            />
+                                            <span className="w-10 text-right tabular-nums">
+                                              {levelDemoPercents[
+                                                levelRect.key
+                                              ] ?? 100}
+                                              %
+                                            </span>
+                                          </label>
+                                        )
+                                      )}
+                                    </div>
                                     <Button
                                       type="button"
                                       size="sm"
                                       variant="outline"
                                       onClick={handleRandomLevelDemo}
                                     >
-                                      随机演示
+                                      {t('level.demo')}
                                     </Button>
                                   </div>
                                 </div>
@@ -903,16 +3308,16 @@ function App() {
                   <section className="rounded-lg border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
                     <div className="flex items-center gap-2 font-semibold">
                       <AlertTriangle size={16} />
-                      {activeEntry.error ?? '无法处理该 SVG 文件。'}
+                      {t(`error.${activeEntry.error ?? 'process-failed'}`)}
                     </div>
                     <p className="mt-2 text-xs text-muted-foreground">
-                      请检查文件内容或换用其它 SVG 文件。
+                      {t('results.errorHint')}
                     </p>
                   </section>
                 )
               ) : (
                 <p className="text-sm text-muted-foreground">
-                  请选择一个文件以查看详细信息。
+                  {t('results.selectHint')}
                 </p>
               )}
             </CardContent>
@@ -920,30 +3325,13 @@ function App() {
         ) : (
           <Card>
             <CardHeader>
-              <CardTitle>如何使用</CardTitle>
-              <CardDescription>
-                还没有上传文件，点击上方上传区域即可开始。
-              </CardDescription>
+              <CardTitle>{t('help.title')}</CardTitle>
+              <CardDescription>{t('help.description')}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-2 text-sm text-muted-foreground">
-              <p>
-                1. 上传需要检测的 SVG 文件，本工具会分析
-                <code className="mx-1 rounded bg-muted px-1 py-0.5 text-xs">
-                  &lt;style&gt;
-                </code>
-                中的类名。
-              </p>
-              <p>
-                2. 若发现样式未作用域，会自动为每个选择器添加
-                <code className="mx-1 rounded bg-muted px-1 py-0.5 text-xs">
-                  #id
-                </code>
-                前缀。
-              </p>
-              <p>
-                3. 下载修正后的 SVG 或复制源码，把它部署到 Vercel
-                等静态站点上即可避免样式冲突。
-              </p>
+              <p>{t('help.step1')}</p>
+              <p>{t('help.step2')}</p>
+              <p>{t('help.step3')}</p>
             </CardContent>
           </Card>
         )}
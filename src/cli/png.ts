@@ -0,0 +1,40 @@
+import { deflateSync } from 'node:zlib'
+
+import { crc32 } from '@/lib/crc32'
+import type { RasterImage } from '@/lib/visual-diff'
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10])
+
+function createChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+/** 编码为 8 位 RGBA、无滤波的 PNG */
+export function encodePng(image: RasterImage) {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(image.width, 0)
+  header.writeUInt32BE(image.height, 4)
+  header[8] = 8
+  header[9] = 6
+
+  const rowLength = image.width * 4
+  const scanlines = Buffer.alloc((rowLength + 1) * image.height)
+  for (let y = 0; y < image.height; y += 1) {
+    scanlines.set(
+      image.data.subarray(y * rowLength, (y + 1) * rowLength),
+      y * (rowLength + 1) + 1
+    )
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    createChunk('IDAT', deflateSync(scanlines)),
+    createChunk('IEND', Buffer.alloc(0)),
+  ])
+}
@@ -0,0 +1,740 @@
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises'
+import { dirname, join, relative, resolve } from 'node:path'
+import { parseArgs } from 'node:util'
+
+import { encodePng } from '@/cli/png'
+
+import { applyIdPattern } from '@/lib/batch'
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALES,
+  matchLocale,
+  translate,
+  type Locale,
+} from '@/lib/i18n'
+import {
+  generateLevelBindingModule,
+  getLevelBindingFileName,
+  LEVEL_BINDING_LANGUAGES,
+  type LevelBindingLanguage,
+} from '@/lib/level-binding'
+import { parseLevelRule, type LevelDetectionRule } from '@/lib/level-detection'
+import {
+  DEFAULT_LEVEL_FILL_DIRECTION,
+  DEFAULT_LEVEL_TRANSITION_SECONDS,
+  extractLevelTransitions,
+  isLevelFillDirection,
+  isValidTimingFunction,
+  LEVEL_FILL_DIRECTIONS,
+  type LevelFillDirections,
+  type LevelTransition,
+  type LevelTransitions,
+} from '@/lib/level-transition'
+import {
+  ANIMATION_REMOVAL_POLICY,
+  DEFAULT_REMOVAL_POLICY,
+  formatRemovalRecord,
+  type RemovalPolicy,
+} from '@/lib/removal-policy'
+import {
+  parseScopeConfig,
+  resolveScopeConfig,
+  SCOPE_CONFIG_FILE_NAME,
+  type LevelDirectionOptions,
+  type ResolvedScopeConfig,
+} from '@/lib/scope-config'
+import {
+  ID_STRATEGIES,
+  isIdStrategy,
+  isScopeStrategy,
+  SCOPE_STRATEGIES,
+  scopeSvgContent,
+  type IdStrategy,
+  type ScopeStrategy,
+} from '@/lib/svg-scope'
+import {
+  DEFAULT_OPTIMIZE_OPTIONS,
+  formatByteSize,
+  getByteSize,
+  MAX_OPTIMIZE_PRECISION,
+  type OptimizeOptions,
+} from '@/lib/svg-optimize'
+import { rasterizeSvg } from '@/lib/svg-raster'
+import {
+  DEFAULT_SANITIZE_POLICY,
+  formatSanitizeRecord,
+  type SanitizePolicy,
+} from '@/lib/svg-sanitize'
+import {
+  compareRasters,
+  DEFAULT_VISUAL_DIFF_THRESHOLD,
+} from '@/lib/visual-diff'
+import { parseXml } from '@/lib/xml-dom'
+
+function getUsage(locale: Locale) {
+  return translate(locale, 'cli.usage', {
+    configFile: SCOPE_CONFIG_FILE_NAME,
+    seconds: DEFAULT_LEVEL_TRANSITION_SECONDS,
+    precisionMax: MAX_OPTIMIZE_PRECISION,
+    precision: DEFAULT_OPTIMIZE_OPTIONS.precision ?? '',
+    threshold: DEFAULT_VISUAL_DIFF_THRESHOLD,
+  })
+}
+
+// --locale 优先，其次与网页按浏览器语言选择相同，按环境变量里的语言标记选择
+function getEnvLocale(): Locale {
+  const { SVG_SCOPE_LOCALE, LC_ALL, LC_MESSAGES, LANG } = process.env
+  for (const tag of [SVG_SCOPE_LOCALE, LC_ALL, LC_MESSAGES, LANG]) {
+    const locale = matchLocale(tag)
+    if (locale) return locale
+  }
+  return DEFAULT_LOCALE
+}
+
+const OPTIMIZE_STEPS: Record<string, keyof OptimizeOptions> = {
+  'editor-data': 'removeEditorData',
+  comments: 'removeComments',
+  'empty-groups': 'removeEmptyGroups',
+  precision: 'precision',
+  css: 'minifyCss',
+}
+
+interface FileOutcome {
+  file: string
+  ok: boolean
+  scopedAfter: boolean
+  visualChanged: boolean
+}
+
+// 输出目录位于输入目录内时跳过它，避免把上次的输出再处理一遍
+async function collectSvgFiles(
+  dir: string,
+  excludedDir: string
+): Promise<string[]> {
+  const dirents = await readdir(dir, { withFileTypes: true })
+  const files: string[] = []
+
+  for (const dirent of dirents) {
+    const fullPath = join(dir, dirent.name)
+    if (dirent.isDirectory()) {
+      if (fullPath !== excludedDir) {
+        files.push(...(await collectSvgFiles(fullPath, excludedDir)))
+      }
+      continue
+    }
+    if (dirent.isFile() && /\.svg$/i.test(dirent.name)) {
+      files.push(fullPath)
+    }
+  }
+
+  return files.sort()
+}
+
+function parseLevelDirections(specs: string[], base: LevelDirectionOptions) {
+  const options: LevelDirectionOptions = {
+    fallback: base.fallback,
+    byKey: { ...base.byKey },
+  }
+  for (const spec of specs) {
+    const separator = spec.lastIndexOf('=')
+    const key = separator === -1 ? null : spec.slice(0, separator).trim()
+    const direction = spec.slice(separator + 1).trim()
+    if (!isLevelFillDirection(direction) || key === '') return spec
+    if (key === null) {
+      options.fallback = direction
+    } else {
+      options.byKey[key] = direction
+    }
+  }
+  return options
+}
+
+async function processFile(
+  file: string,
+  inDir: string,
+  outDir: string,
+  index: number,
+  options: {
+    levelTransition: Partial<LevelTransition>
+    idTemplate: string | null
+    forceNewId: boolean
+    idStrategy: IdStrategy
+    scopeStrategy: ScopeStrategy
+    namespaceIds: boolean
+    preservedIds?: readonly string[]
+    levelRules?: readonly LevelDetectionRule[]
+    levelDirections: LevelDirectionOptions
+    binding: LevelBindingLanguage | null
+    removalPolicy: RemovalPolicy
+    sanitizePolicy: SanitizePolicy | null
+    optimize: OptimizeOptions | null
+    removalReport: boolean
+    visualThreshold: number | null
+    visualHeatmap: boolean
+    quiet: boolean
+    locale: Locale
+  }
+): Promise<FileOutcome> {
+  const { locale } = options
+  const relativePath = relative(inDir, file)
+  const content = await readFile(file, 'utf-8')
+  // 命令行参数只覆盖传入的字段，其余沿用文件里已有的 transition
+  const existingTransitions = extractLevelTransitions(
+    content,
+    undefined,
+    options.levelRules
+  )
+  const levelTransitions: LevelTransitions = Object.fromEntries(
+    Object.entries(existingTransitions).map(([key, transition]) => [
+      key,
+      { ...transition, ...options.levelTransition },
+    ])
+  )
+
+  const { fallback, byKey } = options.levelDirections
+  const levelFillDirections: LevelFillDirections = Object.fromEntries(
+    Object.keys(existingTransitions).map((key) => [
+      key,
+      byKey[key] ?? fallback,
+    ])
+  )
+
+  const fileName = relativePath.split('\\').join('/')
+  const desiredId = options.idTemplate
+    ? applyIdPattern(options.idTemplate, {
+        fileName,
+        index,
+        id: parseXml(content)?.getAttribute('id') ?? '',
+      })
+    : undefined
+  const result = scopeSvgContent(content, {
+    desiredId,
+    fileName,
+    forceNewId: options.forceNewId,
+    idStrategy: options.idStrategy,
+    scopeStrategy: options.scopeStrategy,
+    namespaceIds: options.namespaceIds,
+    preservedIds: options.preservedIds,
+    levelRules: options.levelRules,
+    levelTransitions,
+    levelFillDirections,
+    removalPolicy: options.removalPolicy,
+    sanitizePolicy: options.sanitizePolicy,
+    optimize: options.optimize,
+    locale,
+  })
+
+  if (!result.ok) {
+    console.error(
+      `✖ ${relativePath}: ${result.error ?? translate(locale, 'error.process-failed')}`
+    )
+    return {
+      file: relativePath,
+      ok: false,
+      scopedAfter: false,
+      visualChanged: false,
+    }
+  }
+
+  const target = join(outDir, relativePath)
+  await mkdir(dirname(target), { recursive: true })
+  await writeFile(target, result.processed, 'utf-8')
+  if (options.binding && result.levelRects.length) {
+    await writeFile(
+      getLevelBindingFileName(target, options.binding),
+      generateLevelBindingModule(result, {
+        language: options.binding,
+        fileName,
+        locale,
+      }),
+      'utf-8'
+    )
+  }
+
+  if (!result.scopedAfter) {
+    console.error(
+      `✖ ${relativePath}: ${translate(locale, 'cli.unscoped', { id: result.svgId })}`
+    )
+  } else if (!options.quiet) {
+    const size = options.optimize
+      ? translate(locale, 'cli.size', {
+          before: formatByteSize(getByteSize(content)),
+          after: formatByteSize(getByteSize(result.processed)),
+        })
+      : ''
+    console.log(`✔ ${relativePath} → #${result.svgId}${size}`)
+  }
+  if (options.removalReport) {
+    result.removals.forEach((removal) => {
+      console.log(`  − ${formatRemovalRecord(removal)}`)
+    })
+    result.sanitized.forEach((record) => {
+      console.log(`  ⊘ [${record.reason}] ${formatSanitizeRecord(record)}`)
+    })
+  }
+  let visualChanged = false
+  if (options.visualThreshold !== null) {
+    const before = rasterizeSvg(content)
+    const after = rasterizeSvg(result.processed)
+    const diff =
+      before && after
+        ? compareRasters(before, after, options.visualThreshold)
+        : null
+    if (diff?.exceeded) {
+      visualChanged = true
+      console.error(
+        `✖ ${relativePath}: ${translate(locale, 'cli.visualChanged', {
+          percent: (diff.score * 100).toFixed(2),
+        })}`
+      )
+      if (options.visualHeatmap) {
+        await writeFile(`${target}.diff.png`, encodePng(diff.heatmap))
+      }
+    }
+  }
+  result.warnings.forEach((warning) => {
+    const location =
+      warning.line === null
+        ? ''
+        : ` ${relativePath}:${warning.line}:${warning.column}`
+    console.warn(`  ⚠ [${warning.code}]${location} ${warning.message}`)
+  })
+
+  return {
+    file: relativePath,
+    ok: true,
+    scopedAfter: result.scopedAfter,
+    visualChanged,
+  }
+}
+
+// 配置有误时逐条输出并返回 undefined
+async function loadConfig(
+  file: string,
+  locale: Locale
+): Promise<ResolvedScopeConfig | undefined> {
+  const text = await readFile(resolve(file), 'utf-8').catch(() => null)
+  if (text === null) {
+    console.error(translate(locale, 'cli.configReadFailed', { file }))
+    return undefined
+  }
+  const { config, issues } = parseScopeConfig(text, locale)
+  if (!config) {
+    issues.forEach((issue) => console.error(`✖ ${file}: ${issue.message}`))
+    return undefined
+  }
+  return resolveScopeConfig(config)
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      config: { type: 'string', short: 'c' },
+      'id-template': { type: 'string' },
+      'level-seconds': { type: 'string' },
+      'level-easing': { type: 'string' },
+      'level-delay': { type: 'string' },
+      binding: { type: 'string' },
+      'level-rule': { type: 'string', multiple: true },
+      'level-direction': { type: 'string', multiple: true },
+      'force-new-id': { type: 'boolean' },
+      'id-strategy': { type: 'string' },
+      'scope-strategy': { type: 'string' },
+      'namespace-ids': { type: 'boolean' },
+      'preserve-id': { type: 'string', multiple: true },
+      'strip-animations': { type: 'boolean' },
+      strip: { type: 'string', multiple: true },
+      keep: { type: 'string', multiple: true },
+      'strip-element': { type: 'string', multiple: true },
+      'keep-element': { type: 'string', multiple: true },
+      sanitize: { type: 'boolean' },
+      'sanitize-allow-element': { type: 'string', multiple: true },
+      'sanitize-allow-attribute': { type: 'string', multiple: true },
+      'sanitize-allow-url': { type: 'string', multiple: true },
+      optimize: { type: 'boolean' },
+      'optimize-skip': { type: 'string', multiple: true },
+      precision: { type: 'string' },
+      'removal-report': { type: 'boolean' },
+      'visual-check': { type: 'boolean' },
+      'visual-threshold': { type: 'string' },
+      'visual-heatmap': { type: 'boolean' },
+      locale: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+}
+
+async function main(argv: string[]) {
+  let locale = getEnvLocale()
+  let parsed: ReturnType<typeof parseCliArgs>
+  try {
+    parsed = parseCliArgs(argv)
+  } catch (error) {
+    console.error((error as Error).message)
+    console.error(getUsage(locale))
+    return 2
+  }
+
+  const { values, positionals } = parsed
+  if (values.locale !== undefined) {
+    if (!isLocale(values.locale)) {
+      console.error(
+        translate(locale, 'cli.choice', {
+          option: '--locale',
+          allowed: LOCALES.map(({ value }) => value).join(' / '),
+          value: values.locale,
+        })
+      )
+      return 2
+    }
+    locale = values.locale
+  }
+  const usage = getUsage(locale)
+  if (values.help) {
+    console.log(usage)
+    return 0
+  }
+
+  const [input] = positionals
+  if (!input || !values.out || positionals.length > 1) {
+    console.error(usage)
+    return 2
+  }
+
+  const config = values.config ? await loadConfig(values.config, locale) : null
+  if (config === undefined) return 2
+  const { scopeOptions: configOptions } = config ?? {}
+
+  const levelSeconds =
+    values['level-seconds'] === undefined
+      ? null
+      : Number.parseFloat(values['level-seconds'])
+  if (
+    levelSeconds !== null &&
+    !(Number.isFinite(levelSeconds) && levelSeconds >= 0)
+  ) {
+    console.error(
+      translate(locale, 'cli.nonNegative', {
+        option: '--level-seconds',
+        value: values['level-seconds']!,
+      })
+    )
+    return 2
+  }
+
+  const levelEasing = values['level-easing']?.trim()
+  if (levelEasing !== undefined && !isValidTimingFunction(levelEasing)) {
+    console.error(
+      translate(locale, 'cli.unknownValue', {
+        option: '--level-easing',
+        value: values['level-easing']!,
+      })
+    )
+    return 2
+  }
+
+  const levelDelay =
+    values['level-delay'] === undefined
+      ? null
+      : Number.parseFloat(values['level-delay'])
+  if (levelDelay !== null && !Number.isFinite(levelDelay)) {
+    console.error(
+      translate(locale, 'cli.number', {
+        option: '--level-delay',
+        value: values['level-delay']!,
+      })
+    )
+    return 2
+  }
+
+  const levelTransition: Partial<LevelTransition> = {
+    ...config?.levelTransition,
+    ...(levelSeconds === null ? {} : { duration: levelSeconds }),
+    ...(levelEasing === undefined ? {} : { timingFunction: levelEasing }),
+    ...(levelDelay === null ? {} : { delay: levelDelay }),
+  }
+
+  const idStrategy =
+    values['id-strategy'] ?? configOptions?.idStrategy ?? 'random'
+  if (!isIdStrategy(idStrategy)) {
+    console.error(
+      translate(locale, 'cli.choice', {
+        option: '--id-strategy',
+        allowed: ID_STRATEGIES.join(' / '),
+        value: idStrategy,
+      })
+    )
+    return 2
+  }
+
+  const scopeStrategy =
+    values['scope-strategy'] ?? configOptions?.scopeStrategy ?? 'id-prefix'
+  if (!isScopeStrategy(scopeStrategy)) {
+    console.error(
+      translate(locale, 'cli.choice', {
+        option: '--scope-strategy',
+        allowed: SCOPE_STRATEGIES.join(' / '),
+        value: scopeStrategy,
+      })
+    )
+    return 2
+  }
+
+  const levelRuleSpecs = values['level-rule'] ?? []
+  const levelRules = levelRuleSpecs.map(parseLevelRule)
+  const invalidRule = levelRuleSpecs.find((_, index) => !levelRules[index])
+  if (invalidRule !== undefined) {
+    console.error(
+      translate(locale, 'cli.unknownValue', {
+        option: '--level-rule',
+        value: invalidRule,
+      })
+    )
+    return 2
+  }
+
+  const levelDirections = parseLevelDirections(
+    values['level-direction'] ?? [],
+    config?.levelDirections ?? {
+      fallback: DEFAULT_LEVEL_FILL_DIRECTION,
+      byKey: {},
+    }
+  )
+  if (typeof levelDirections === 'string') {
+    console.error(
+      translate(locale, 'cli.directionChoice', {
+        option: '--level-direction',
+        allowed: LEVEL_FILL_DIRECTIONS.join(' / '),
+        value: levelDirections,
+      })
+    )
+    return 2
+  }
+
+  const binding = (values.binding ??
+    config?.binding ??
+    null) as LevelBindingLanguage | null
+  if (binding !== null && !LEVEL_BINDING_LANGUAGES.includes(binding)) {
+    console.error(
+      translate(locale, 'cli.choice', {
+        option: '--binding',
+        allowed: LEVEL_BINDING_LANGUAGES.join(' / '),
+        value: binding,
+      })
+    )
+    return 2
+  }
+
+  // 配置文件的移除策略作为基础，--strip-animations 等参数在其上追加
+  const basePolicy = configOptions?.removalPolicy ?? DEFAULT_REMOVAL_POLICY
+  const animationPolicy = values['strip-animations']
+    ? ANIMATION_REMOVAL_POLICY
+    : null
+  const removalPolicy: RemovalPolicy = {
+    stripProperties: [
+      ...basePolicy.stripProperties,
+      ...(animationPolicy?.stripProperties ?? []),
+      ...(values.strip ?? []),
+    ],
+    keepProperties: [...basePolicy.keepProperties, ...(values.keep ?? [])],
+    stripElements: [
+      ...basePolicy.stripElements,
+      ...(animationPolicy?.stripElements ?? []),
+      ...(values['strip-element'] ?? []),
+    ],
+    keepElements: [
+      ...basePolicy.keepElements,
+      ...(values['keep-element'] ?? []),
+    ],
+  }
+
+  // 放行列表在配置文件的基础上追加；只写了放行参数时同样开启清理
+  const sanitizeAllowed = {
+    allowElements: values['sanitize-allow-element'] ?? [],
+    allowAttributes: values['sanitize-allow-attribute'] ?? [],
+    allowUrls: values['sanitize-allow-url'] ?? [],
+  }
+  const baseSanitizePolicy =
+    configOptions?.sanitizePolicy ??
+    (values.sanitize ||
+    Object.values(sanitizeAllowed).some((list) => list.length)
+      ? DEFAULT_SANITIZE_POLICY
+      : null)
+  const sanitizePolicy: SanitizePolicy | null = baseSanitizePolicy && {
+    allowElements: [
+      ...baseSanitizePolicy.allowElements,
+      ...sanitizeAllowed.allowElements,
+    ],
+    allowAttributes: [
+      ...baseSanitizePolicy.allowAttributes,
+      ...sanitizeAllowed.allowAttributes,
+    ],
+    allowUrls: [...baseSanitizePolicy.allowUrls, ...sanitizeAllowed.allowUrls],
+  }
+
+  const optimizeSkip = values['optimize-skip'] ?? []
+  const invalidStep = optimizeSkip.find((step) => !(step in OPTIMIZE_STEPS))
+  if (invalidStep !== undefined) {
+    console.error(
+      translate(locale, 'cli.choice', {
+        option: '--optimize-skip',
+        allowed: Object.keys(OPTIMIZE_STEPS).join(' / '),
+        value: invalidStep,
+      })
+    )
+    return 2
+  }
+  const precision =
+    values.precision === undefined ? null : Number(values.precision)
+  if (
+    precision !== null &&
+    !(
+      Number.isInteger(precision) &&
+      precision >= 0 &&
+      precision <= MAX_OPTIMIZE_PRECISION
+    )
+  ) {
+    console.error(
+      translate(locale, 'cli.integerRange', {
+        option: '--precision',
+        min: 0,
+        max: MAX_OPTIMIZE_PRECISION,
+        value: values.precision!,
+      })
+    )
+    return 2
+  }
+  // 与清理相同：配置文件为基础，--precision / --optimize-skip 单独出现时也开启优化
+  const baseOptimize =
+    configOptions?.optimize ??
+    (values.optimize || optimizeSkip.length || precision !== null
+      ? DEFAULT_OPTIMIZE_OPTIONS
+      : null)
+  const optimize: OptimizeOptions | null = baseOptimize && {
+    ...baseOptimize,
+    ...(precision === null ? {} : { precision }),
+    ...Object.fromEntries(
+      optimizeSkip.map((step) => [
+        OPTIMIZE_STEPS[step],
+        OPTIMIZE_STEPS[step] === 'precision' ? null : false,
+      ])
+    ),
+  }
+
+  const visualThreshold =
+    values['visual-threshold'] === undefined
+      ? (config?.visualThreshold ?? DEFAULT_VISUAL_DIFF_THRESHOLD)
+      : Number.parseFloat(values['visual-threshold'])
+  if (!(
+    Number.isFinite(visualThreshold) &&
+    visualThreshold >= 0 &&
+    visualThreshold <= 1
+  )) {
+    console.error(
+      translate(locale, 'cli.range', {
+        option: '--visual-threshold',
+        min: 0,
+        max: 1,
+        value: values['visual-threshold'] ?? String(visualThreshold),
+      })
+    )
+    return 2
+  }
+  // 指定阈值或热力图时同样启用外观比较
+  const visualCheck =
+    values['visual-check'] ||
+    values['visual-threshold'] !== undefined ||
+    values['visual-heatmap']
+
+  const inDir = resolve(input)
+  const outDir = resolve(values.out)
+  const inputStat = await stat(inDir).catch(() => null)
+  if (!inputStat?.isDirectory()) {
+    console.error(translate(locale, 'cli.inputMissing', { dir: input }))
+    return 2
+  }
+
+  const files = await collectSvgFiles(inDir, outDir)
+  if (!files.length) {
+    console.error(translate(locale, 'cli.noSvgFiles', { dir: input }))
+    return 1
+  }
+
+  const idTemplate =
+    values['id-template']?.trim() || config?.idTemplate || null
+  const outcomes: FileOutcome[] = []
+  for (const [index, file] of files.entries()) {
+    try {
+      outcomes.push(
+        await processFile(file, inDir, outDir, index + 1, {
+          levelTransition,
+          idTemplate,
+          forceNewId:
+            values['force-new-id'] ?? configOptions?.forceNewId ?? false,
+          idStrategy,
+          scopeStrategy,
+          namespaceIds:
+            values['namespace-ids'] ?? configOptions?.namespaceIds ?? false,
+          preservedIds: values['preserve-id'] ?? configOptions?.preservedIds,
+          levelRules: levelRules.length
+            ? (levelRules as LevelDetectionRule[])
+            : configOptions?.levelRules,
+          levelDirections,
+          binding,
+          removalPolicy,
+          sanitizePolicy,
+          optimize,
+          removalReport: values['removal-report'] ?? false,
+          visualThreshold: visualCheck ? visualThreshold : null,
+          visualHeatmap: values['visual-heatmap'] ?? false,
+          quiet: values.quiet ?? false,
+          locale,
+        })
+      )
+    } catch (error) {
+      const relativePath = relative(inDir, file)
+      console.error(`✖ ${relativePath}: ${(error as Error).message}`)
+      outcomes.push({
+        file: relativePath,
+        ok: false,
+        scopedAfter: false,
+        visualChanged: false,
+      })
+    }
+  }
+
+  const failed = outcomes.filter((outcome) => !outcome.ok)
+  const unscoped = outcomes.filter(
+    (outcome) => outcome.ok && !outcome.scopedAfter
+  )
+  const visualChanged = outcomes.filter((outcome) => outcome.visualChanged)
+  console.log(
+    translate(locale, 'cli.summary', {
+      total: outcomes.length,
+      failed: failed.length,
+      unscoped: unscoped.length,
+      visual: visualCheck
+        ? translate(locale, 'cli.summaryVisual', {
+            count: visualChanged.length,
+          })
+        : '',
+    })
+  )
+
+  return failed.length || unscoped.length || visualChanged.length ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error) => {
+    console.error(error)
+    process.exitCode = 1
+  }
+)
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  applyIdPattern,
+  createBatchArchive,
+  MANIFEST_FILE_NAME,
+  type BatchManifest,
+} from '@/lib/batch'
+import { crc32 } from '@/lib/crc32'
+import { createSeededRandom } from '@/lib/hash'
+import { scopeSvgContent } from '@/lib/svg-scope'
+import type { SvgEntry } from '@/lib/types'
+import { createZip } from '@/lib/zip'
+
+function createEntry(fileName: string, rawContent: string): SvgEntry {
+  const result = scopeSvgContent(rawContent, {
+    fileName,
+    random: createSeededRandom(1),
+  })
+  return {
+    id: fileName,
+    fileName,
+    rawContent,
+    desiredId: result.svgId,
+    levelTransitions: {},
+    levelFillDirections: {},
+    levelCalibrations: {},
+    scopeStrategy: 'id-prefix',
+    removalPolicy: null,
+    result: result.ok ? result : null,
+    visualCheck: null,
+    error: result.ok ? null : (result.errorCode ?? 'process-failed'),
+    isProcessing: false,
+  }
+}
+
+// 按中央目录读出 store 方式的压缩包
+function readZip(archive: Uint8Array) {
+  const view = new DataView(archive.buffer)
+  const decoder = new TextDecoder()
+  const end = archive.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  let cursor = view.getUint32(end + 16, true)
+  const files: Record<string, string> = {}
+  for (let index = 0; index < count; index += 1) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50)
+    const crc = view.getUint32(cursor + 16, true)
+    const size = view.getUint32(cursor + 20, true)
+    const nameLength = view.getUint16(cursor + 28, true)
+    const offset = view.getUint32(cursor + 42, true)
+    const name = decoder.decode(
+      archive.subarray(cursor + 46, cursor + 46 + nameLength)
+    )
+    const localNameLength = view.getUint16(offset + 26, true)
+    const data = archive.subarray(
+      offset + 30 + localNameLength,
+      offset + 30 + localNameLength + size
+    )
+    expect(crc32(data)).toBe(crc)
+    files[name] = decoder.decode(data)
+    cursor += 46 + nameLength
+  }
+  return files
+}
+
+describe('applyIdPattern', () => {
+  it('expands basename, padded index and current id', () => {
+    const values = { fileName: 'icons/Pump.svg', index: 7, id: 'svg-1' }
+    expect(applyIdPattern('{basename}-{index}', values)).toBe('Pump-7')
+    expect(applyIdPattern('{id}_{index:3}', values)).toBe('svg-1_007')
+    expect(applyIdPattern('{unknown}', values)).toBe('{unknown}')
+  })
+})
+
+describe('createBatchArchive', () => {
+  it('zips processed files with a manifest of ids, warnings and failures', () => {
+    const entries = [
+      createEntry('pump.svg', '<svg id="pump"><style>html .a{}</style></svg>'),
+      createEntry('nested/pump.svg', '<svg id="fan"></svg>'),
+      createEntry('broken.svg', '<html></html>'),
+    ]
+    const files = readZip(
+      createZip(createBatchArchive(entries, new Date(Date.UTC(2026, 0, 2))))
+    )
+
+    expect(Object.keys(files)).toEqual([
+      'pump-scoped.svg',
+      'pump-scoped (2).svg',
+      MANIFEST_FILE_NAME,
+    ])
+    expect(files['pump-scoped (2).svg']).toBe(entries[1].result?.processed)
+
+    const manifest = JSON.parse(files[MANIFEST_FILE_NAME]) as BatchManifest
+    expect(manifest.generatedAt).toBe('2026-01-02T00:00:00.000Z')
+    expect(
+      manifest.files.map(({ output, svgId, error }) => ({
+        output,
+        svgId,
+        error,
+      }))
+    ).toEqual([
+      { output: 'pump-scoped.svg', svgId: 'pump', error: null },
+      { output: 'pump-scoped (2).svg', svgId: 'fan', error: null },
+      { output: null, svgId: null, error: 'missing-svg-root' },
+    ])
+    expect(manifest.files[0].warnings[0].code).toBe('html-body-selector')
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+
+import { analyzeCollisions, createUniqueSvgId } from '@/lib/collision-analysis'
+import { createSeededRandom } from '@/lib/hash'
+import { scopeSvgContent } from '@/lib/svg-scope'
+
+function scopeEntry(entryId: string, content: string, namespaceIds = false) {
+  const result = scopeSvgContent(content, {
+    random: createSeededRandom(entryId.length),
+    namespaceIds,
+  })
+  return { entryId, svgId: result.svgId, processed: result.processed }
+}
+
+const pump =
+  '<svg id="pump"><style>.blade{fill:red} html .frame{stroke:blue}</style><g id="rotor" class="blade"/></svg>'
+const fan =
+  '<svg id="pump"><style>@import url(theme.css); .blade{fill:green}</style><g id="rotor" class="blade"/></svg>'
+
+describe('analyzeCollisions', () => {
+  it('reports duplicate root and element ids, global rules and class conflicts', () => {
+    const report = analyzeCollisions([
+      scopeEntry('a', pump),
+      scopeEntry('b', fan),
+    ])
+
+    expect(report.rootIds).toEqual([{ id: 'pump', entryIds: ['a', 'b'] }])
+    expect(report.elementIds).toEqual([{ id: 'rotor', entryIds: ['a', 'b'] }])
+    expect(report.globalRules).toEqual([
+      { entryId: 'a', kind: 'selector', text: 'html .frame' },
+      { entryId: 'b', kind: 'at-rule', text: '@import url(theme.css)' },
+    ])
+    expect(report.classConflicts).toHaveLength(1)
+    expect(report.classConflicts[0]).toMatchObject({
+      className: 'blade',
+      isolated: true,
+    })
+  })
+
+  it('finds no id collisions once root ids differ and internal ids are namespaced', () => {
+    const report = analyzeCollisions([
+      scopeEntry('a', pump, true),
+      scopeEntry('b', fan.replace('id="pump"', 'id="fan"'), true),
+    ])
+
+    expect(report.rootIds).toEqual([])
+    expect(report.elementIds).toEqual([])
+  })
+})
+
+describe('createUniqueSvgId', () => {
+  it('appends the first free numeric suffix', () => {
+    expect(createUniqueSvgId('pump', new Set(['fan']))).toBe('pump')
+    expect(createUniqueSvgId('pump', new Set(['pump', 'pump-2']))).toBe(
+      'pump-3'
+    )
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  LOCALES,
+  matchLocale,
+  messages,
+  translate,
+  type MessageKey,
+} from '@/lib/i18n'
+
+const placeholders = (message: string) =>
+  (message.match(/\{\w+\}/g) ?? []).sort()
+
+describe('i18n', () => {
+  it('interpolates params and leaves unknown placeholders alone', () => {
+    expect(translate('en', 'upload.count', { count: 3 })).toBe(
+      '3 file(s) uploaded'
+    )
+    expect(translate('zh-CN', 'warnings.line')).toBe('第 {line} 行')
+  })
+
+  it('uses the same placeholders in every locale', () => {
+    const keys = Object.keys(messages['zh-CN']) as MessageKey[]
+    LOCALES.forEach(({ value }) => {
+      keys.forEach((key) => {
+        expect(messages[value][key], `${value} ${key}`).toBeTruthy()
+        expect(placeholders(messages[value][key]), `${value} ${key}`).toEqual(
+          placeholders(messages['zh-CN'][key])
+        )
+      })
+    })
+  })
+
+  it('matches locales from language tags and environment values', () => {
+    expect(matchLocale('zh-TW')).toBe('zh-CN')
+    expect(matchLocale('zh_CN.UTF-8')).toBe('zh-CN')
+    expect(matchLocale('en-US')).toBe('en')
+    expect(matchLocale('de_DE.UTF-8')).toBe('en')
+    expect(matchLocale('C.UTF-8')).toBeNull()
+    expect(matchLocale('POSIX')).toBeNull()
+    expect(matchLocale('')).toBeNull()
+    expect(matchLocale(undefined)).toBeNull()
+  })
+})
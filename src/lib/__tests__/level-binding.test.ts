@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSeededRandom } from '@/lib/hash'
+import {
+  generateLevelBindingModule,
+  getLevelBindingFileName,
+  getLevelBindingSelector,
+} from '@/lib/level-binding'
+import {
+  scopeSvgContent,
+  type LevelRect,
+  type ScopeOptions,
+} from '@/lib/svg-scope'
+
+const source = `<svg id="tank" viewBox="0 0 100 100">
+  <rect id="level" x="0" y="0" width="10" height="80"/>
+  <rect id="level1" x="20" y="0" width="40" height="10"/>
+  <path data-level="" d="M0 90h100v10h-100z"/>
+</svg>`
+
+function scope(options: ScopeOptions = {}) {
+  return scopeSvgContent(source, {
+    levelRules: [
+      { kind: 'id-regex', value: '^level\\d*$' },
+      { kind: 'attribute', value: 'data-level', elements: ['path'] },
+    ],
+    levelFillDirections: { level1: 'rtl', 'path-1': 'ltr' },
+    random: createSeededRandom(42),
+    ...options,
+  })
+}
+
+interface FakeElement {
+  attributes: Record<string, string>
+  style: { transform?: string }
+  setAttribute: (name: string, value: string) => void
+}
+
+// 去掉 export 后直接执行生成的 JS 模块，用假的元素验证 setLevel 的行为
+function loadJsBinding(code: string, elements: Record<string, FakeElement>) {
+  const body = `${code.replace(/^export /gm, '')}\nreturn setLevel`
+  const setLevel = new Function(body)() as (
+    svgEl: unknown,
+    key: string,
+    ratio: number
+  ) => boolean
+  const svgEl = {
+    querySelector: (selector: string) => elements[selector] ?? null,
+  }
+  return (key: string, ratio: number) => setLevel(svgEl, key, ratio)
+}
+
+function createFakeElement(): FakeElement {
+  const element: FakeElement = {
+    attributes: {},
+    style: {},
+    setAttribute: (name, value) => {
+      element.attributes[name] = value
+    },
+  }
+  return element
+}
+
+describe('generateLevelBindingModule', () => {
+  it('emits a typed module with the captured level geometry', async () => {
+    const result = scope()
+    expect(result.processed).toContain('data-level-key="path-1"')
+    await expect(
+      generateLevelBindingModule(result, { fileName: 'tank.svg' })
+    ).toMatchFileSnapshot('./fixtures/tank.level.ts.snap')
+  })
+
+  it('sets sizes, anchors and scales at runtime', () => {
+    const elements = {
+      '#level': createFakeElement(),
+      '#level1': createFakeElement(),
+      '[data-level-key="path-1"]': createFakeElement(),
+    }
+    const setLevel = loadJsBinding(
+      generateLevelBindingModule(scope(), { language: 'js' }),
+      elements
+    )
+
+    expect(setLevel('level', 0.25)).toBe(true)
+    expect(elements['#level'].attributes).toEqual({ height: '20', y: '60' })
+    expect(setLevel('level1', 2)).toBe(true)
+    expect(elements['#level1'].attributes).toEqual({ width: '40', x: '20' })
+    setLevel('level1', 0.5)
+    expect(elements['#level1'].attributes).toEqual({ width: '20', x: '40' })
+    expect(setLevel('path-1', 0.5)).toBe(true)
+    expect(elements['[data-level-key="path-1"]'].style.transform).toBe(
+      'scaleX(0.5)'
+    )
+    expect(setLevel('missing', 0.5)).toBe(false)
+  })
+
+  it('writes its comments in the requested locale', () => {
+    const code = generateLevelBindingModule(scope(), {
+      language: 'js',
+      fileName: 'tank.svg',
+      locale: 'en',
+    })
+    expect(code).toMatch(
+      /^\/\/ Generated by svg-scope from tank\.svg \(#tank\)/
+    )
+    expect(code).toContain(
+      '@returns {boolean} whether the level element was found'
+    )
+    expect(code).not.toMatch(/[\u4e00-\u9fff]/)
+  })
+
+  it('escapes quotes and backslashes in attribute selectors', () => {
+    const levelRect: LevelRect = {
+      key: 'a"b\\c',
+      id: null,
+      tagName: 'path',
+      direction: 'btt',
+      dimension: 'height',
+      anchor: null,
+      min: 0,
+      max: 1,
+    }
+    expect(getLevelBindingSelector(levelRect)).toBe(
+      '[data-level-key="a\\"b\\\\c"]'
+    )
+    expect(getLevelBindingSelector({ ...levelRect, id: 'tank 1\n"' })).toBe(
+      '[id="tank 1\\a \\""]'
+    )
+    expect(getLevelBindingSelector({ ...levelRect, id: 'level1' })).toBe(
+      '#level1'
+    )
+  })
+
+  it('names the module after the exported svg', () => {
+    expect(getLevelBindingFileName('tank-scoped.svg')).toBe(
+      'tank-scoped.level.ts'
+    )
+    expect(getLevelBindingFileName('tank.SVG', 'js')).toBe('tank.level.js')
+  })
+})
@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSeededRandom } from '@/lib/hash'
+import { extractLevelCalibrations } from '@/lib/level-calibration'
+import {
+  detectLevelElements,
+  parseLevelRule,
+  type LevelDetectionRule,
+} from '@/lib/level-detection'
+import {
+  DEFAULT_LEVEL_TRANSITION,
+  extractLevelTransitions,
+} from '@/lib/level-transition'
+import { scopeSvgContent } from '@/lib/svg-scope'
+import { parseXml } from '@/lib/xml-dom'
+
+function detectKeys(source: string, rules?: LevelDetectionRule[]) {
+  const root = parseXml(source)
+  if (!root) throw new Error('parse failed')
+  return detectLevelElements(root, rules).map((match) => match.key)
+}
+
+describe('detectLevelElements', () => {
+  it('matches level, level_N and levelN rects by default', () => {
+    const source = `<svg>
+      <rect id="level"/><rect id="level3"/><rect id="level_12"/>
+      <rect id="levels"/><rect id="level_"/><path id="level4"/><rect id="level3"/>
+    </svg>`
+    expect(detectKeys(source)).toEqual(['level', 'level3', 'level_12'])
+  })
+
+  it('supports id wildcards, attributes and classes with element filters', () => {
+    const source = `<svg>
+      <rect id="tank-a-level"/><rect id="tank-b-level"/><rect id="tank-level-x"/>
+      <path data-level="" d="M0 0h10v10z"/><polygon data-level="" points="0,0 1,1"/>
+      <rect class="fill svg-1__liquid"/>
+    </svg>`
+    expect(
+      detectKeys(source, [
+        { kind: 'id', value: 'tank-*-level' },
+        { kind: 'attribute', value: 'data-level', elements: ['path'] },
+        { kind: 'class', value: 'liquid' },
+      ])
+    ).toEqual(['tank-a-level', 'tank-b-level', 'path-1', 'rect-1'])
+  })
+
+  it('ignores empty values and invalid regular expressions', () => {
+    expect(
+      detectKeys('<svg><rect id="level"/></svg>', [
+        { kind: 'id-regex', value: '(' },
+        { kind: 'id', value: ' ' },
+      ])
+    ).toEqual([])
+  })
+})
+
+describe('parseLevelRule', () => {
+  it('parses the shorthand with an optional element list', () => {
+    expect(parseLevelRule('id:tank-*-level')).toEqual({
+      kind: 'id',
+      value: 'tank-*-level',
+    })
+    expect(parseLevelRule('attr:data-level@rect,path')).toEqual({
+      kind: 'attribute',
+      value: 'data-level',
+      elements: ['rect', 'path'],
+    })
+    expect(parseLevelRule('regex:^lvl\\d+$')?.kind).toBe('id-regex')
+    expect(parseLevelRule('level')).toBeNull()
+  })
+})
+
+describe('level enhancements with custom rules', () => {
+  const source = `<svg id="tank" viewBox="0 0 100 100">
+  <rect id="level3" x="0" y="0" width="10" height="50"/>
+  <path data-level="" d="M20 0h10v50h-10z" style="transition: transform 2s"/>
+</svg>`
+  const levelRules: LevelDetectionRule[] = [
+    { kind: 'id-regex', value: '^level(?:_?\\d+)?$' },
+    { kind: 'attribute', value: 'data-level', elements: ['path'] },
+  ]
+
+  it('anchors rects and animates other shapes around their bottom edge', () => {
+    const result = scopeSvgContent(source, {
+      levelRules,
+      levelTransitions: {
+        'path-1': { ...DEFAULT_LEVEL_TRANSITION, duration: 2 },
+      },
+      random: createSeededRandom(42),
+    })
+    expect(
+      result.levelRects.map(({ key, id, tagName }) => ({ key, id, tagName }))
+    ).toEqual([
+      { key: 'level3', id: 'level3', tagName: 'rect' },
+      { key: 'path-1', id: null, tagName: 'path' },
+    ])
+    expect(result.processed).toContain(
+      '<rect id="level3" x="0" y="0" width="10" height="50" style="transition: height 5s, y 5s;"/>'
+    )
+    expect(result.processed).toContain(
+      'style="transform-box: fill-box; transform-origin: 50% 100%; transition: transform 2s;"'
+    )
+  })
+
+  it('extracts transitions keyed by detection key', () => {
+    expect(extractLevelTransitions(source, undefined, levelRules)).toEqual({
+      level3: DEFAULT_LEVEL_TRANSITION,
+      'path-1': { ...DEFAULT_LEVEL_TRANSITION, duration: 2 },
+    })
+  })
+
+  it('keeps detected level ids when namespacing internal ids', () => {
+    const result = scopeSvgContent(source, {
+      levelRules,
+      namespaceIds: true,
+      random: createSeededRandom(42),
+    })
+    expect(result.processed).toContain('id="level3"')
+  })
+})
+
+describe('level fill directions', () => {
+  const source = `<svg id="tank" viewBox="0 0 100 100">
+  <rect id="level" x="0" y="0" width="10" height="50"/>
+  <rect id="level1" x="20" y="0" width="10" height="50"/>
+  <rect id="level2" x="40" y="0" width="30" height="10"/>
+  <rect id="level3" x="40" y="20" width="30" height="10"/>
+  <path data-level="" d="M0 60h100v10h-100z"/>
+</svg>`
+
+  function scopeWithDirections() {
+    return scopeSvgContent(source, {
+      levelRules: [
+        { kind: 'id-regex', value: '^level\\d*$' },
+        { kind: 'attribute', value: 'data-level', elements: ['path'] },
+      ],
+      levelFillDirections: {
+        level1: 'ttb',
+        level2: 'ltr',
+        level3: 'rtl',
+        'path-1': 'rtl',
+      },
+      random: createSeededRandom(42),
+    })
+  }
+
+  it('anchors bottom-to-top rects on y and right-to-left rects on x', () => {
+    const { processed } = scopeWithDirections()
+    expect(processed).toContain(
+      '<rect id="level" x="0" y="0" width="10" height="50" style="transition: height 5s, y 5s;"/>'
+    )
+    expect(processed).toContain(
+      '<rect id="level1" x="20" y="0" width="10" height="50" style="transition: height 5s;"/>'
+    )
+    expect(processed).toContain(
+      '<rect id="level2" x="40" y="0" width="30" height="10" style="transition: width 5s;"/>'
+    )
+    expect(processed).toContain(
+      '<rect id="level3" x="40" y="20" width="30" height="10" style="transition: width 5s, x 5s;"/>'
+    )
+    expect(processed).toContain(
+      'style="transform-box: fill-box; transform-origin: 100% 50%; transition: transform 5s;"'
+    )
+  })
+
+  it('reports direction metadata in levelRects', () => {
+    expect(
+      scopeWithDirections().levelRects.map(
+        ({ key, direction, dimension, anchor }) => ({
+          key,
+          direction,
+          dimension,
+          anchor,
+        })
+      )
+    ).toEqual([
+      { key: 'level', direction: 'btt', dimension: 'height', anchor: 50 },
+      { key: 'level1', direction: 'ttb', dimension: 'height', anchor: null },
+      { key: 'level2', direction: 'ltr', dimension: 'width', anchor: null },
+      { key: 'level3', direction: 'rtl', dimension: 'width', anchor: 70 },
+      { key: 'path-1', direction: 'rtl', dimension: 'width', anchor: null },
+    ])
+  })
+
+  it('drops the rotate added by earlier bottom-to-top output on a direction change', () => {
+    const processed = `<svg id="tank">
+  <rect id="level" x="0" y="0" width="10" height="50" transform="translate(1 0) rotate(180 5 25)" style="transition: height 5s;"/>
+  <rect id="level1" x="20" y="0" width="10" height="50" transform="rotate(180 25 25)" style="transition: height 5s;"/>
+</svg>`
+    const result = scopeSvgContent(processed, {
+      levelFillDirections: { level: 'ttb', level1: 'rtl' },
+    })
+    expect(result.processed).toContain(
+      '<rect id="level" x="0" y="0" width="10" height="50" transform="translate(1 0)" style="transition: height 5s;"/>'
+    )
+    expect(result.processed).toContain(
+      '<rect id="level1" x="20" y="0" width="10" height="50" style="transition: width 5s, x 5s;"/>'
+    )
+    expect(
+      result.warnings.map(({ code, severity, params }) => ({
+        code,
+        severity,
+        params,
+      }))
+    ).toEqual([
+      {
+        code: 'level-rotate-removed',
+        severity: 'warning',
+        params: { key: 'level', direction: 'ttb' },
+      },
+      {
+        code: 'level-rotate-removed',
+        severity: 'warning',
+        params: { key: 'level1', direction: 'rtl' },
+      },
+    ])
+  })
+
+  it('keeps the rotate when re-processing earlier bottom-to-top output', () => {
+    const processed =
+      '<svg id="tank"><rect id="level" x="0" y="0" width="10" height="50" transform="rotate(180 5 25)" style="transition: height 5s;"/></svg>'
+    const result = scopeSvgContent(processed)
+    expect(result.processed).toBe(processed)
+    expect(result.warnings).toEqual([])
+    expect(result.levelRects).toMatchObject([
+      { key: 'level', direction: 'btt', dimension: 'height', anchor: null },
+    ])
+  })
+})
+
+describe('level calibration', () => {
+  const source = `<svg id="tank" viewBox="0 0 100 100">
+  <rect id="level" x="0" y="0" width="10" height="80" data-level-min="5" data-level-max="70"/>
+  <rect id="level1" x="20" y="0" width="10" height="50"/>
+</svg>`
+
+  it('reads existing data-level-min / data-level-max attributes', () => {
+    expect(extractLevelCalibrations(source)).toEqual({
+      level: { min: 5, max: 70 },
+      level1: { min: null, max: null },
+    })
+  })
+
+  it('writes, overrides and removes calibration attributes', () => {
+    const result = scopeSvgContent(source, {
+      levelCalibrations: {
+        level: { min: null, max: 75.5 },
+        level1: { min: 10, max: 40 },
+      },
+      random: createSeededRandom(42),
+    })
+    expect(result.processed).toContain(
+      '<rect id="level" x="0" y="0" width="10" height="80" data-level-max="75.5"'
+    )
+    expect(result.processed).toContain(
+      '<rect id="level1" x="20" y="0" width="10" height="50" data-level-min="10" data-level-max="40"'
+    )
+    expect(
+      result.levelRects.map(({ key, min, max }) => ({ key, min, max }))
+    ).toEqual([
+      { key: 'level', min: 0, max: 75.5 },
+      { key: 'level1', min: 10, max: 40 },
+    ])
+  })
+
+  it('keeps calibration from the SVG when no override is given', () => {
+    const result = scopeSvgContent(source, {
+      random: createSeededRandom(42),
+    })
+    expect(
+      result.levelRects.map(({ key, min, max }) => ({ key, min, max }))
+    ).toEqual([
+      { key: 'level', min: 5, max: 70 },
+      { key: 'level1', min: 0, max: 50 },
+    ])
+  })
+})
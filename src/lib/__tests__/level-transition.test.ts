@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createTimingFunction,
+  DEFAULT_LEVEL_TRANSITION,
+  formatLevelTransition,
+  isValidTimingFunction,
+  parseLevelTransitionFromStyle,
+} from '@/lib/level-transition'
+
+describe('parseLevelTransitionFromStyle', () => {
+  it('reads property, duration, timing-function and delay from the shorthand', () => {
+    expect(
+      parseLevelTransitionFromStyle(
+        'fill: red; transition: opacity 1s, all 500ms cubic-bezier(0.4, 0, 0.2, 1) 0.2s'
+      )
+    ).toEqual({
+      property: 'all',
+      duration: 0.5,
+      timingFunction: 'cubic-bezier(0.4, 0, 0.2, 1)',
+      delay: 0.2,
+    })
+  })
+
+  it('leaves direction-driven properties empty so they follow the direction', () => {
+    expect(
+      parseLevelTransitionFromStyle('transition: width 2s steps(4, jump-none)')
+    ).toEqual({
+      property: '',
+      duration: 2,
+      timingFunction: 'steps(4, jump-none)',
+      delay: 0,
+    })
+  })
+
+  it('applies longhands on top of the shorthand', () => {
+    expect(
+      parseLevelTransitionFromStyle(
+        'transition: height 2s; transition-timing-function: ease-out; transition-delay: -1s'
+      )
+    ).toEqual({
+      property: '',
+      duration: 2,
+      timingFunction: 'ease-out',
+      delay: -1,
+    })
+    expect(
+      parseLevelTransitionFromStyle(
+        'transition-property: opacity, height; transition-duration: 1s, 3s'
+      )?.duration
+    ).toBe(3)
+  })
+
+  it('returns null without a duration', () => {
+    expect(parseLevelTransitionFromStyle('fill: red')).toBeNull()
+    expect(parseLevelTransitionFromStyle('transition: height')).toBeNull()
+  })
+})
+
+describe('formatLevelTransition', () => {
+  it('omits the default easing and a zero delay', () => {
+    expect(formatLevelTransition(['height'], DEFAULT_LEVEL_TRANSITION)).toBe(
+      'height 5s'
+    )
+  })
+
+  it('round-trips the parsed transition', () => {
+    const style =
+      'transition: width 1.5s steps(3, start) 0.25s, x 1.5s steps(3, start) 0.25s'
+    const transition = parseLevelTransitionFromStyle(style)
+    expect(transition).not.toBeNull()
+    expect(
+      `transition: ${formatLevelTransition(['width', 'x'], transition!)}`
+    ).toBe(style)
+  })
+
+  it('uses an explicit property instead of the direction properties', () => {
+    expect(
+      formatLevelTransition(['width', 'x'], {
+        ...DEFAULT_LEVEL_TRANSITION,
+        property: 'all',
+        timingFunction: 'not-an-easing',
+      })
+    ).toBe('all 5s')
+  })
+})
+
+describe('timing functions', () => {
+  it('validates keywords, cubic-bezier and steps', () => {
+    expect(isValidTimingFunction('ease-in-out')).toBe(true)
+    expect(isValidTimingFunction('cubic-bezier(.4, 0, .2, 1)')).toBe(true)
+    expect(isValidTimingFunction('cubic-bezier(1.5, 0, .2, 1)')).toBe(false)
+    expect(isValidTimingFunction('steps(2, jump-both)')).toBe(true)
+    expect(isValidTimingFunction('steps(1, jump-none)')).toBe(false)
+    expect(isValidTimingFunction('bounce')).toBe(false)
+  })
+
+  it('evaluates cubic-bezier curves', () => {
+    const linear = createTimingFunction('linear')
+    expect(linear(0.3)).toBeCloseTo(0.3, 5)
+    const ease = createTimingFunction('ease')
+    expect(ease(0)).toBe(0)
+    expect(ease(0.5)).toBeCloseTo(0.8024, 3)
+    expect(ease(1)).toBe(1)
+  })
+
+  it('evaluates step positions', () => {
+    const end = createTimingFunction('steps(4)')
+    expect([0.1, 0.3, 0.6, 0.99].map(end)).toEqual([0, 0.25, 0.5, 0.75])
+    const start = createTimingFunction('step-start')
+    expect(start(0.01)).toBe(1)
+    const none = createTimingFunction('steps(3, jump-none)')
+    expect([0.1, 0.5, 0.9].map(none)).toEqual([0, 0.5, 1])
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createPreviewDocument,
+  PREVIEW_LEVEL_ATTRIBUTE,
+  preparePreviewSvg,
+} from '@/lib/preview-frame'
+
+describe('createPreviewDocument', () => {
+  it('only allows the nonce-tagged bridge script', () => {
+    const html = createPreviewDocument('abc123')
+    const csp = /http-equiv="Content-Security-Policy" content="([^"]*)"/.exec(
+      html
+    )?.[1]
+    expect(csp).toContain("default-src 'none'")
+    expect(csp?.split('; ').find((part) => part.startsWith('script-src'))).toBe(
+      "script-src 'nonce-abc123'"
+    )
+
+    const scripts = Array.from(
+      html.matchAll(/<script nonce="abc123">([\s\S]*?)<\/script>/g)
+    )
+    expect(scripts).toHaveLength(1)
+    expect(() => new Function(scripts[0][1])).not.toThrow()
+  })
+
+  it('uses a fresh nonce by default', () => {
+    expect(createPreviewDocument()).not.toBe(createPreviewDocument())
+  })
+})
+
+describe('preparePreviewSvg', () => {
+  it('marks level elements with their keys', () => {
+    const preview = preparePreviewSvg(
+      '<svg id="a"><rect id="level1" height="10"/><rect height="5"/></svg>',
+      [{ kind: 'id', value: 'level1' }]
+    )
+    expect(preview?.svg).toBe(
+      `<svg id="a"><rect id="level1" height="10" ${PREVIEW_LEVEL_ATTRIBUTE}="level1"/><rect height="5"/></svg>`
+    )
+    expect(Array.from(preview!.levelElements.keys())).toEqual(['level1'])
+    expect(preview?.root.getAttribute('id')).toBe('a')
+  })
+
+  it('rejects content that is not an svg document', () => {
+    expect(preparePreviewSvg('<html/>')).toBeNull()
+    expect(preparePreviewSvg('<svg')).toBeNull()
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSeededRandom } from '@/lib/hash'
+import {
+  ANIMATION_REMOVAL_POLICY,
+  createRemovalMatcher,
+} from '@/lib/removal-policy'
+import { scopeSvgContent } from '@/lib/svg-scope'
+
+const fixtures = import.meta.glob<string>('./fixtures/*.svg', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+})
+
+describe('createRemovalMatcher', () => {
+  it('matches wildcards and vendor prefixes, with keep taking priority', () => {
+    const matcher = createRemovalMatcher({
+      stripProperties: ['transition*', 'animation-*'],
+      keepProperties: ['animation-play-state'],
+      stripElements: ['animate*'],
+      keepElements: ['animateMotion'],
+    })
+    expect(matcher.property('-webkit-transition-duration')).toBe(true)
+    expect(matcher.property('Transition')).toBe(true)
+    expect(matcher.property('animation-name')).toBe(true)
+    expect(matcher.property('animation-play-state')).toBe(false)
+    expect(matcher.property('animation')).toBe(false)
+    expect(matcher.element('animateTransform')).toBe(true)
+    expect(matcher.element('animateMotion')).toBe(false)
+  })
+})
+
+describe('removal report', () => {
+  it('records transition declarations removed by the default policy', () => {
+    const result = scopeSvgContent(fixtures['./fixtures/transitions.svg'], {
+      random: createSeededRandom(42),
+    })
+    expect(result.removals).toEqual([
+      {
+        source: 'style-block',
+        name: 'transition',
+        value: 'transform 0.3s ease',
+        selector: '.blade',
+        styleIndex: 0,
+        element: null,
+      },
+      {
+        source: 'style-block',
+        name: '-webkit-transition-duration',
+        value: '1s',
+        selector: '.blade',
+        styleIndex: 0,
+        element: null,
+      },
+      {
+        source: 'style-block',
+        name: 'transition-property',
+        value: 'fill',
+        selector: '.hub',
+        styleIndex: 0,
+        element: null,
+      },
+      {
+        source: 'inline-style',
+        name: 'transition',
+        value: 'opacity 1s',
+        selector: null,
+        styleIndex: null,
+        element: 'g',
+      },
+      {
+        source: 'inline-style',
+        name: '-moz-transition',
+        value: 'all 2s',
+        selector: null,
+        styleIndex: null,
+        element: 'circle',
+      },
+    ])
+  })
+
+  it('strips animations, SMIL elements and presentation attributes', () => {
+    const source = `<svg id="pump" viewBox="0 0 10 10">
+  <style>.spin { animation: spin 1s infinite; will-change: transform; fill: red }</style>
+  <g id="rotor" class="spin" transition="opacity 1s">
+    <animateTransform attributeName="transform" type="rotate" to="360"/>
+    <animate id="blink" attributeName="opacity" values="1;0;1"><set to="1"/></animate>
+    <animateMotion path="M0 0h10"/>
+  </g>
+</svg>`
+    const result = scopeSvgContent(source, {
+      removalPolicy: {
+        ...ANIMATION_REMOVAL_POLICY,
+        keepElements: ['animateMotion'],
+      },
+      random: createSeededRandom(42),
+    })
+    expect(result.processed).not.toMatch(/<animate[\s>]|<animateTransform|<set/)
+    expect(result.processed).toContain('<animateMotion')
+    expect(result.processed).not.toContain('transition=')
+    expect(result.processed).toContain('<style>#pump .spin{fill:red}</style>')
+    expect(
+      result.removals.map(({ source, name, element }) => [
+        source,
+        name,
+        element,
+      ])
+    ).toEqual([
+      ['element', 'animateTransform', 'animateTransform'],
+      ['element', 'animate', 'animate#blink'],
+      ['attribute', 'transition', 'g#rotor'],
+      ['style-block', 'animation', null],
+      ['style-block', 'will-change', null],
+    ])
+  })
+})
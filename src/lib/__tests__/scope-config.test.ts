@@ -0,0 +1,273 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  ANIMATION_REMOVAL_POLICY,
+  DEFAULT_REMOVAL_POLICY,
+} from '@/lib/removal-policy'
+import {
+  createScopeConfig,
+  getConfigDesiredId,
+  parseScopeConfig,
+  resolveScopeConfig,
+  validateScopeConfig,
+} from '@/lib/scope-config'
+
+const schemaText = Object.values(
+  import.meta.glob<string>('/svg-scope.config.schema.json', {
+    query: '?raw',
+    import: 'default',
+    eager: true,
+  })
+)[0]
+
+interface SchemaNode {
+  properties?: Record<string, SchemaNode>
+}
+
+describe('parseScopeConfig', () => {
+  it('accepts a complete config and resolves it into scope options', () => {
+    const { config, issues } = parseScopeConfig(
+      JSON.stringify({
+        idStrategy: 'content-hash',
+        scopeStrategy: 'class-namespace',
+        forceNewId: true,
+        idTemplate: '{basename}-{index:2}',
+        namespaceIds: true,
+        preservedIds: ['logo'],
+        levelRules: ['id:tank-*@rect,path', { kind: 'class', value: 'level' }],
+        level: {
+          seconds: 2,
+          easing: 'steps(4)',
+          delay: -0.5,
+          direction: 'ltr',
+          directions: { 'tank-2': 'ttb' },
+        },
+        removal: { preset: 'animation', keepElements: ['set'] },
+        sanitize: { allowUrls: ['https://cdn.example.com/'] },
+        optimize: { removeComments: false, precision: 2 },
+        binding: 'ts',
+        visualThreshold: 0.05,
+      })
+    )
+    expect(issues).toEqual([])
+
+    const resolved = resolveScopeConfig(config!)
+    expect(resolved.scopeOptions).toEqual({
+      idStrategy: 'content-hash',
+      scopeStrategy: 'class-namespace',
+      forceNewId: true,
+      namespaceIds: true,
+      preservedIds: ['logo'],
+      levelRules: [
+        { kind: 'id', value: 'tank-*', elements: ['rect', 'path'] },
+        { kind: 'class', value: 'level' },
+      ],
+      removalPolicy: {
+        ...ANIMATION_REMOVAL_POLICY,
+        keepElements: ['set'],
+      },
+      sanitizePolicy: {
+        allowElements: [],
+        allowAttributes: [],
+        allowUrls: ['https://cdn.example.com/'],
+      },
+      optimize: {
+        removeEditorData: true,
+        removeComments: false,
+        removeEmptyGroups: true,
+        precision: 2,
+        minifyCss: true,
+      },
+    })
+    expect(resolved.levelTransition).toEqual({
+      duration: 2,
+      timingFunction: 'steps(4)',
+      delay: -0.5,
+    })
+    expect(resolved.levelDirections).toEqual({
+      fallback: 'ltr',
+      byKey: { 'tank-2': 'ttb' },
+    })
+    expect(resolved.binding).toBe('ts')
+    expect(resolved.visualThreshold).toBe(0.05)
+    expect(
+      getConfigDesiredId(resolved, { fileName: 'a/pump.svg', index: 3, id: '' })
+    ).toBe('pump-03')
+  })
+
+  it('leaves unset fields out so callers keep their own defaults', () => {
+    const resolved = resolveScopeConfig(parseScopeConfig('{}').config!)
+    expect(resolved.scopeOptions).toEqual({})
+    expect(resolved.levelTransition).toEqual({})
+    expect(resolved.idTemplate).toBeNull()
+    expect(
+      getConfigDesiredId(resolved, { fileName: 'a.svg', index: 1, id: 'a' })
+    ).toBeUndefined()
+  })
+
+  it('reports invalid JSON', () => {
+    const { config, issues } = parseScopeConfig('{"idStrategy": }')
+    expect(config).toBeNull()
+    expect(issues).toHaveLength(1)
+    expect(issues[0].code).toBe('invalid-json')
+  })
+
+  it('reports every problem with its path', () => {
+    const { config, issues } = parseScopeConfig(
+      JSON.stringify({
+        idStrategi: 'random',
+        scopeStrategy: 'shadow',
+        namespaceIds: 'yes',
+        levelRules: ['tank-*', { kind: 'id' }],
+        level: { seconds: -1, easing: 'bouncy' },
+        removal: { stripProperties: 'animation' },
+        sanitize: { allowUrl: [] },
+        optimize: { precision: 1.5, minifyCss: 'yes' },
+        visualThreshold: 2,
+        extra: true,
+      }),
+      'en'
+    )
+    expect(config).toBeNull()
+    expect(issues.map(({ code, path }) => `${code} ${path}`)).toEqual([
+      'unknown-key-suggestion idStrategi',
+      'unknown-key extra',
+      'invalid-value scopeStrategy',
+      'invalid-type namespaceIds',
+      'invalid-value visualThreshold',
+      'invalid-value levelRules[0]',
+      'invalid-type levelRules[1].value',
+      'invalid-value level.seconds',
+      'invalid-value level.easing',
+      'invalid-type removal.stripProperties',
+      'unknown-key-suggestion sanitize.allowUrl',
+      'invalid-type optimize.minifyCss',
+      'invalid-value optimize.precision',
+    ])
+    expect(issues[0].message).toBe(
+      'Unknown field idStrategi; did you mean idStrategy?'
+    )
+    expect(issues[3].message).toBe('namespaceIds must be boolean, got string.')
+  })
+
+  it('reports level rules with an invalid regular expression', () => {
+    const { config, issues } = validateScopeConfig(
+      {
+        levelRules: [
+          'regex:^level(\\d+$',
+          { kind: 'id-regex', value: '[a-' },
+          'regex:^level_\\d+$',
+        ],
+      },
+      'en'
+    )
+    expect(config).toBeNull()
+    expect(issues.map(({ code, path }) => `${code} ${path}`)).toEqual([
+      'invalid-regex levelRules[0]',
+      'invalid-regex levelRules[1].value',
+    ])
+    expect(issues[0].message).toMatch(
+      /^levelRules\[0\] has an invalid regular expression "\^level\(\\d\+\$": /
+    )
+  })
+
+  it('rejects a non-object root', () => {
+    expect(validateScopeConfig([]).issues.map(({ code }) => code)).toEqual([
+      'invalid-type',
+    ])
+  })
+})
+
+describe('createScopeConfig', () => {
+  it('round-trips the web settings through the config format', () => {
+    const settings = {
+      idStrategy: 'path-hash' as const,
+      namespaceIds: true,
+      preservedIds: ['logo'],
+      levelRules: [{ kind: 'attribute' as const, value: 'data-level' }],
+      removalPolicy: {
+        ...DEFAULT_REMOVAL_POLICY,
+        stripProperties: [...DEFAULT_REMOVAL_POLICY.stripProperties, 'filter'],
+      },
+      sanitizePolicy: {
+        allowElements: [],
+        allowAttributes: ['onclick'],
+        allowUrls: [],
+      },
+      optimizeOptions: null,
+      visualThreshold: 0.2,
+      idTemplate: '{basename}',
+    }
+    const config = createScopeConfig(settings, {
+      scopeStrategy: 'class-namespace',
+    })
+    expect(config.removal).toEqual({
+      preset: 'none',
+      stripProperties: ['transition', 'transition-*', 'filter'],
+      keepProperties: [],
+      stripElements: [],
+      keepElements: [],
+    })
+
+    const parsed = parseScopeConfig(JSON.stringify(config))
+    expect(parsed.issues).toEqual([])
+    expect(resolveScopeConfig(parsed.config!).scopeOptions).toEqual({
+      idStrategy: 'path-hash',
+      scopeStrategy: 'class-namespace',
+      namespaceIds: true,
+      preservedIds: ['logo'],
+      levelRules: settings.levelRules,
+      removalPolicy: settings.removalPolicy,
+      sanitizePolicy: settings.sanitizePolicy,
+      optimize: null,
+    })
+  })
+
+  it('keeps a removed default strip property removed after reloading', () => {
+    const removalPolicy = {
+      ...DEFAULT_REMOVAL_POLICY,
+      stripProperties: ['transition-*'],
+    }
+    const config = createScopeConfig({
+      idStrategy: 'random',
+      namespaceIds: false,
+      preservedIds: [],
+      levelRules: [],
+      removalPolicy,
+      sanitizePolicy: null,
+      optimizeOptions: null,
+      visualThreshold: 0.2,
+      idTemplate: '{basename}',
+    })
+    const parsed = parseScopeConfig(JSON.stringify(config))
+    expect(
+      resolveScopeConfig(parsed.config!).scopeOptions.removalPolicy
+    ).toEqual(removalPolicy)
+  })
+})
+
+describe('svg-scope.config.schema.json', () => {
+  it('declares the same fields the validator accepts', () => {
+    const schema = JSON.parse(schemaText) as SchemaNode
+    const properties = schema.properties!
+    const unknown = validateScopeConfig(
+      Object.fromEntries(Object.keys(properties).map((key) => [key, undefined]))
+    )
+    expect(unknown.issues).toEqual([])
+    expect(Object.keys(properties.level.properties!)).toEqual([
+      'property',
+      'seconds',
+      'easing',
+      'delay',
+      'direction',
+      'directions',
+    ])
+    expect(Object.keys(properties.removal.properties!)).toEqual([
+      'preset',
+      'stripProperties',
+      'keepProperties',
+      'stripElements',
+      'keepElements',
+    ])
+  })
+})
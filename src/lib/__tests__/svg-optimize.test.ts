@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_OPTIMIZE_OPTIONS,
+  formatByteSize,
+  getByteSize,
+  roundNumbers,
+  roundPathData,
+} from '@/lib/svg-optimize'
+import { scopeSvgContent } from '@/lib/svg-scope'
+
+const INKSCAPE_SVG = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd" xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" id="hmi" viewBox="0 0 100.00001 50.5" sodipodi:docname="tank.svg" inkscape:version="1.3">
+<!-- Created with Inkscape -->
+<metadata><rdf:RDF/></metadata>
+<sodipodi:namedview pagecolor="#ffffff" inkscape:zoom="2"/>
+<style>
+  /* 管道 */
+  .pipe {
+    fill: #ff0000;
+  }
+</style>
+<g inkscape:groupmode="layer" inkscape:label="Layer 1"><g><g> </g></g></g>
+<g id="anchor"/>
+<path class="pipe" d="M10.123456,20.987654 L30.5.5" style="stroke: red ;  stroke-width: 2px"/>
+<rect id="level" x="1.23456" height="40.123456" width="8"/>
+</svg>`
+
+function optimize(options = DEFAULT_OPTIMIZE_OPTIONS) {
+  return scopeSvgContent(INKSCAPE_SVG, { optimize: options })
+}
+
+describe('optimize', () => {
+  it('is off by default', () => {
+    const result = scopeSvgContent(INKSCAPE_SVG)
+    expect(result.optimized).toBeNull()
+    expect(result.processed).toContain('sodipodi:namedview')
+  })
+
+  it('drops editor data, comments and empty groups and rounds numbers', () => {
+    const result = optimize()
+    expect(result.ok).toBe(true)
+    expect(result.changed).toBe(true)
+    expect(result.processed).not.toMatch(
+      /inkscape|sodipodi|rdf|metadata|<!--|\/\*/
+    )
+    expect(result.processed).toContain('viewBox="0 0 100 50.5"')
+    expect(result.processed).toContain('d="M10.123,20.988 L30.5.5"')
+    expect(result.processed).toContain('<g id="anchor"/>')
+    expect(result.processed).toContain('#hmi .pipe{fill:#ff0000}')
+    expect(result.processed).toContain('style="stroke:red;stroke-width:2px"')
+    // 液位元素保持原值，levelRects 与输出一致
+    expect(result.processed).toContain(
+      '<rect id="level" x="1.23456" height="40.123456"'
+    )
+    expect(result.levelRects[0].max).toBe(40.123456)
+    expect(result.optimized).toEqual({
+      editorData: 10,
+      comments: 1,
+      emptyGroups: 3,
+      numbers: 2,
+      styles: 2,
+    })
+    expect(getByteSize(result.processed)).toBeLessThan(
+      getByteSize(INKSCAPE_SVG)
+    )
+  })
+
+  it('runs only the enabled steps', () => {
+    const result = optimize({
+      removeEditorData: false,
+      removeComments: true,
+      removeEmptyGroups: false,
+      precision: null,
+      minifyCss: false,
+    })
+    expect(result.processed).toContain('sodipodi:namedview')
+    expect(result.processed).toContain('d="M10.123456,20.987654 L30.5.5"')
+    expect(result.processed).not.toContain('<!--')
+    expect(result.optimized).toEqual({
+      editorData: 0,
+      comments: 1,
+      emptyGroups: 0,
+      numbers: 0,
+      styles: 0,
+    })
+  })
+})
+
+describe('roundNumbers', () => {
+  it('keeps adjacent numbers apart after rounding', () => {
+    expect(roundNumbers('M1.5.5 L-0.0001,2.25', 1)).toBe('M1.5.5 L0,2.3')
+    expect(roundNumbers('M1.5.5', 0)).toBe('M2 1')
+    expect(roundNumbers('translate(0.25 1e-7)', 1)).toBe('translate(.3 1e-7)')
+    expect(roundNumbers('1.04.25', 1)).toBe('1 .3')
+  })
+
+  it('rounds points and transform lists', () => {
+    expect(roundNumbers('0.1234,5 10.98765,-2.5', 2)).toBe('.12,5 10.99,-2.5')
+    expect(roundNumbers('matrix(1 0 0 1 12.3456 -7.891)', 1)).toBe(
+      'matrix(1 0 0 1 12.3 -7.9)'
+    )
+    expect(roundNumbers('rotate(180 50 50)', 2)).toBe('rotate(180 50 50)')
+  })
+})
+
+describe('roundPathData', () => {
+  it('reads compact arc flags as single digits', () => {
+    expect(roundPathData('M10 10a1.5 1.5 0 01.5.5', 3)).toBe(
+      'M10 10a1.5 1.5 0 01.5.5'
+    )
+    expect(roundPathData('M0 0A1.2345 1.2345 0 1110.5555 2.5', 2)).toBe(
+      'M0 0A1.23 1.23 0 11 10.56 2.5'
+    )
+    expect(roundPathData('M0 0a1 1 0 01.555.5 1 1 0 10-.5.5', 1)).toBe(
+      'M0 0a1 1 0 01 .6.5 1 1 0 10-.5.5'
+    )
+  })
+
+  it('leaves unparsable path data untouched', () => {
+    expect(roundPathData('M0 0 L1.23 x', 1)).toBe('M0 0 L1.23 x')
+  })
+})
+
+describe('formatByteSize', () => {
+  it('picks a readable unit', () => {
+    expect(formatByteSize(812)).toBe('812 B')
+    expect(formatByteSize(12698)).toBe('12.4 KB')
+    expect(formatByteSize(getByteSize('液位'))).toBe('6 B')
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSeededRandom } from '@/lib/hash'
+import { scopeSvgContent } from '@/lib/svg-scope'
+import {
+  DEFAULT_SANITIZE_POLICY,
+  formatSanitizeRecord,
+} from '@/lib/svg-sanitize'
+
+const UNTRUSTED_SVG = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" id="hmi" onload="alert(1)">
+<style>@import url(https://evil.example/a.css);
+.pipe { fill: url(#grad); background: url("https://evil.example/track.png") }
+@font-face { font-family: Vendor; src: url(https://cdn.example.com/v.woff) }</style>
+<script>alert(2)</script>
+<defs><linearGradient id="grad"/></defs>
+<a href="java&#9;script:alert(3)"><rect class="pipe" width="10" height="10" onclick="alert(4)"/></a>
+<image xlink:href="https://evil.example/logo.png" href="data:image/png;base64,AAAA"/>
+<use href="#grad" fill="url(https://evil.example/p.svg#x)"/>
+<set attributeName="href" to="javascript:alert(5)"/>
+<foreignObject><div xmlns="http://www.w3.org/1999/xhtml">x</div></foreignObject>
+<rect id="panel" style="fill: red; filter: url(https://evil.example/f.svg#f)" height="5"/>
+</svg>`
+
+function sanitize(policy = DEFAULT_SANITIZE_POLICY) {
+  return scopeSvgContent(UNTRUSTED_SVG, {
+    random: createSeededRandom(1),
+    sanitizePolicy: policy,
+  })
+}
+
+describe('sanitizePolicy', () => {
+  it('is off by default', () => {
+    const result = scopeSvgContent(UNTRUSTED_SVG)
+    expect(result.sanitized).toEqual([])
+    expect(result.processed).toContain('<script>')
+  })
+
+  it('removes scripts, handlers, external references and foreignObject', () => {
+    const result = sanitize()
+    expect(result.ok).toBe(true)
+    expect(result.processed).not.toMatch(
+      /<script|onload|onclick|javascript|evil\.example|foreignObject|@import|<set/
+    )
+    expect(result.processed).toContain('fill:url(#grad)')
+    expect(result.processed).toContain('href="data:image/png;base64,AAAA"')
+    expect(result.processed).toContain('<use href="#grad"')
+    expect(result.processed).toContain('style="fill:red"')
+
+    expect(
+      result.sanitized.map(({ reason, name }) => `${reason} ${name}`)
+    ).toEqual([
+      'script script',
+      'external-href set',
+      'foreign-object foreignObject',
+      'event-handler onload',
+      'external-href href',
+      'event-handler onclick',
+      'external-href xlink:href',
+      'remote-url fill',
+      'css-import @import',
+      'remote-url background',
+      'remote-url src',
+      'remote-url filter',
+    ])
+    expect(result.sanitized.map(formatSanitizeRecord).slice(-4)).toEqual([
+      '<style>[0] @import url(https://evil.example/a.css)',
+      '<style>[0] background: url(https://evil.example/track.png)',
+      '<style>[0] src: url(https://cdn.example.com/v.woff)',
+      'rect#panel style="filter: url(https://evil.example/f.svg#f)"',
+    ])
+  })
+
+  it('keeps allow-listed elements, handlers and url prefixes', () => {
+    const result = sanitize({
+      allowElements: ['foreign*'],
+      allowAttributes: ['onclick'],
+      allowUrls: ['https://cdn.example.com/'],
+    })
+    expect(result.processed).toContain('<foreignObject>')
+    expect(result.processed).toContain('onclick="alert(4)"')
+    expect(result.processed).toContain('url(https://cdn.example.com/v.woff)')
+    expect(result.processed).not.toContain('onload')
+    expect(result.processed).not.toContain('<script')
+  })
+
+  it('checks src and data attributes against the url allow-list', () => {
+    const result = scopeSvgContent(
+      `<svg id="a"><img src="https://evil.example/x.png"/><embed src="javascript:alert(1)"/><object data="https://cdn.example.com/ok.svg"/><img src="data:image/png;base64,AAAA"/><set attributeName="src" to="javascript:alert(2)"/></svg>`,
+      {
+        sanitizePolicy: {
+          ...DEFAULT_SANITIZE_POLICY,
+          allowUrls: ['https://cdn.example.com/'],
+        },
+      }
+    )
+    expect(result.processed).toBe(
+      '<svg id="a"><img/><embed/><object data="https://cdn.example.com/ok.svg"/><img src="data:image/png;base64,AAAA"/></svg>'
+    )
+    expect(
+      result.sanitized.map(({ reason, name }) => `${reason} ${name}`)
+    ).toEqual(['external-href set', 'external-href src', 'external-href src'])
+  })
+
+  it('matches element names regardless of case', () => {
+    const result = scopeSvgContent(
+      `<svg id="a"><SCRIPT>alert(1)</SCRIPT><foreignobject><iframe srcdoc="&lt;script&gt;alert(2)&lt;/script&gt;"/></foreignobject><SET attributename="href" to="javascript:alert(3)"/><STYLE>@import url(https://evil.example/a.css);</STYLE><rect/></svg>`,
+      { sanitizePolicy: DEFAULT_SANITIZE_POLICY }
+    )
+    expect(result.processed).not.toMatch(/script|iframe|foreignobject|evil/i)
+    expect(
+      result.sanitized.map(({ reason, name }) => `${reason} ${name}`)
+    ).toEqual([
+      'script SCRIPT',
+      'foreign-object foreignobject',
+      'external-href SET',
+      'css-import @import',
+    ])
+  })
+
+  it('matches allow-listed elements regardless of case', () => {
+    const result = scopeSvgContent(
+      '<svg id="a"><foreignobject><div/></foreignobject></svg>',
+      {
+        sanitizePolicy: {
+          ...DEFAULT_SANITIZE_POLICY,
+          allowElements: ['foreignObject'],
+        },
+      }
+    )
+    expect(result.processed).toContain('<foreignobject>')
+    expect(result.sanitized).toEqual([])
+  })
+
+  it('never allows javascript: urls', () => {
+    const result = scopeSvgContent(
+      '<svg id="a"><a href="javascript:alert(1)"><rect/></a></svg>',
+      { sanitizePolicy: { ...DEFAULT_SANITIZE_POLICY, allowUrls: ['java'] } }
+    )
+    expect(result.processed).toBe('<svg id="a"><a><rect/></a></svg>')
+  })
+})
@@ -0,0 +1,542 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSeededRandom } from '@/lib/hash'
+import { DEFAULT_LEVEL_TRANSITION } from '@/lib/level-transition'
+import { scopeSvgContent, type ScopeOptions } from '@/lib/svg-scope'
+import { DEFAULT_SANITIZE_POLICY } from '@/lib/svg-sanitize'
+
+const fixtures = import.meta.glob<string>('./fixtures/*.svg', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+})
+
+function readFixture(name: string) {
+  const content = fixtures[`./fixtures/${name}.svg`]
+  if (content === undefined) throw new Error(`Missing fixture ${name}.svg`)
+  return content
+}
+
+function scope(svgContent: string, options: ScopeOptions = {}) {
+  return scopeSvgContent(svgContent, {
+    random: createSeededRandom(42),
+    ...options,
+  })
+}
+
+interface GoldenCase {
+  fixture: string
+  options?: ScopeOptions
+  expected: {
+    svgId: string
+    generatedId: boolean
+    scopedBefore: boolean
+    scopedAfter: boolean
+    changed: boolean
+    warnings: number
+    levelRects: string[]
+  }
+}
+
+const GOLDEN_CASES: GoldenCase[] = [
+  {
+    fixture: 'unscoped-classes',
+    options: { fileName: 'unscoped-classes.svg' },
+    expected: {
+      svgId: 'unscoped-classes-6409',
+      generatedId: true,
+      scopedBefore: false,
+      scopedAfter: true,
+      changed: true,
+      warnings: 0,
+      levelRects: [],
+    },
+  },
+  {
+    fixture: 'already-scoped',
+    expected: {
+      svgId: 'pump-icon',
+      generatedId: false,
+      scopedBefore: true,
+      scopedAfter: true,
+      changed: false,
+      warnings: 0,
+      levelRects: [],
+    },
+  },
+  {
+    fixture: 'alias-id',
+    options: { desiredId: 'valve-left' },
+    expected: {
+      svgId: 'valve-left',
+      generatedId: false,
+      scopedBefore: false,
+      scopedAfter: true,
+      changed: true,
+      warnings: 0,
+      levelRects: [],
+    },
+  },
+  {
+    fixture: 'other-id',
+    expected: {
+      svgId: 'tank',
+      generatedId: false,
+      scopedBefore: false,
+      scopedAfter: false,
+      changed: true,
+      warnings: 1,
+      levelRects: [],
+    },
+  },
+  {
+    fixture: 'transitions',
+    expected: {
+      svgId: 'fan',
+      generatedId: false,
+      scopedBefore: false,
+      scopedAfter: true,
+      changed: true,
+      warnings: 0,
+      levelRects: [],
+    },
+  },
+  {
+    fixture: 'level-rects',
+    options: {
+      levelTransitions: {
+        level: { ...DEFAULT_LEVEL_TRANSITION, duration: 3 },
+        level1: { ...DEFAULT_LEVEL_TRANSITION, duration: 0.25 },
+        level2: { ...DEFAULT_LEVEL_TRANSITION, duration: 5 },
+      },
+    },
+    expected: {
+      svgId: 'tank-a',
+      generatedId: false,
+      scopedBefore: true,
+      scopedAfter: true,
+      changed: true,
+      warnings: 0,
+      levelRects: ['level', 'level1', 'level2', 'level_1'],
+    },
+  },
+  {
+    fixture: 'keyframes',
+    expected: {
+      svgId: 'alarm',
+      generatedId: false,
+      scopedBefore: false,
+      scopedAfter: true,
+      changed: true,
+      warnings: 0,
+      levelRects: [],
+    },
+  },
+  {
+    fixture: 'at-rules',
+    expected: {
+      svgId: 'gauge',
+      generatedId: false,
+      scopedBefore: false,
+      scopedAfter: false,
+      changed: true,
+      warnings: 4,
+      levelRects: [],
+    },
+  },
+  {
+    fixture: 'no-style',
+    expected: {
+      svgId: 'svg-ln13h9a6',
+      generatedId: true,
+      scopedBefore: true,
+      scopedAfter: true,
+      changed: true,
+      warnings: 0,
+      levelRects: [],
+    },
+  },
+]
+
+describe('scopeSvgContent golden files', () => {
+  it.each(GOLDEN_CASES)('$fixture', async ({ fixture, options, expected }) => {
+    const result = scope(readFixture(fixture), options)
+
+    expect(result.ok).toBe(true)
+    expect({
+      svgId: result.svgId,
+      generatedId: result.generatedId,
+      scopedBefore: result.scopedBefore,
+      scopedAfter: result.scopedAfter,
+      changed: result.changed,
+      warnings: result.warnings.length,
+      levelRects: result.levelRects.map((levelRect) => levelRect.key),
+    }).toEqual(expected)
+    await expect(result.processed).toMatchFileSnapshot(
+      `./fixtures/${fixture}.scoped.svg`
+    )
+  })
+
+  it('is idempotent on its own output', () => {
+    GOLDEN_CASES.forEach(({ fixture, options }) => {
+      const first = scope(readFixture(fixture), options)
+      const second = scope(first.processed, {
+        ...options,
+        desiredId: first.svgId,
+      })
+      expect(second.processed).toBe(first.processed)
+      expect(second.scopedBefore).toBe(first.scopedAfter)
+    })
+  })
+})
+
+describe('scopeSvgContent ids', () => {
+  it('prefers a sanitized desired id', () => {
+    const result = scope('<svg><style>.a{}</style></svg>', {
+      desiredId: '  2 号 罐/主 ',
+    })
+    expect(result.svgId).toBe('svg-2-号-罐-主')
+    expect(result.processed).toContain('#svg-2-号-罐-主 .a')
+  })
+
+  it('keeps the current id unless a new one is forced', () => {
+    const svg = '<svg id="keep-me"><style>.a{}</style></svg>'
+    expect(scope(svg).svgId).toBe('keep-me')
+
+    const forced = scope(svg, { forceNewId: true, fileName: 'pump.svg' })
+    expect(forced.generatedId).toBe(true)
+    expect(forced.svgId).toMatch(/^pump-\d{4}$/)
+    expect(forced.processed).toContain(`#${forced.svgId} .a`)
+  })
+
+  it('rewrites selectors that used the previous id as an alias', () => {
+    const result = scope(
+      '<svg id="old"><style>#old .a{} #other .b{}</style></svg>',
+      { forceNewId: true, fileName: 'new.svg' }
+    )
+    expect(result.processed).toContain(`#${result.svgId} .a`)
+    expect(result.warnings).toHaveLength(1)
+    expect(result.scopedAfter).toBe(false)
+  })
+
+  it('derives ids from file names and falls back to a random id', () => {
+    expect(scope('<svg/>', { fileName: '..svg' }).svgId).toMatch(/^svg-/)
+    expect(scope('<svg/>', { fileName: '1-a.svg' }).svgId).toMatch(
+      /^svg-1-a-\d{4}$/
+    )
+  })
+
+  it('is deterministic for the same random source', () => {
+    const svg = readFixture('unscoped-classes')
+    expect(scope(svg).processed).toBe(scope(svg).processed)
+  })
+
+  it('derives the id suffix from the content hash', () => {
+    const svg = readFixture('unscoped-classes')
+    const options: ScopeOptions = {
+      fileName: 'unscoped-classes.svg',
+      idStrategy: 'content-hash',
+      random: () => {
+        throw new Error('random source should not be used')
+      },
+    }
+    const first = scopeSvgContent(svg, options)
+    expect(first.svgId).toMatch(/^unscoped-classes-\d{4}$/)
+    expect(scopeSvgContent(svg, options).processed).toBe(first.processed)
+    expect(
+      scopeSvgContent(svg.replace('#1f77b4', '#ff7f0e'), options).svgId
+    ).not.toBe(first.svgId)
+  })
+
+  it('derives the id suffix from the file path', () => {
+    const svg = '<svg><style>.a{}</style></svg>'
+    const idFor = (fileName: string) =>
+      scopeSvgContent(svg, { fileName, idStrategy: 'path-hash' }).svgId
+    expect(idFor('icons/pump.svg')).toBe(idFor('icons/pump.svg'))
+    expect(idFor('icons/pump.svg')).toMatch(/^pump-\d{4}$/)
+    expect(idFor('legacy/pump.svg')).not.toBe(idFor('icons/pump.svg'))
+  })
+})
+
+describe('scopeSvgContent keyframes', () => {
+  it('reports renamed keyframes and leaves unknown animation names alone', () => {
+    const result = scope(readFixture('keyframes'))
+    expect(result.keyframes).toEqual([
+      { name: 'blink', scopedName: 'alarm--blink' },
+      { name: 'spin', scopedName: 'alarm--spin' },
+    ])
+    expect(result.processed).toContain('alarm--blink 1s infinite,host-pulse 2s')
+    expect(result.processed).toContain('animation-name:alarm--blink')
+    expect(result.processed).not.toContain('#alarm from')
+  })
+
+  it('moves keyframes scoped with a previous id onto the new id', () => {
+    const result = scope(
+      '<svg id="old"><style>@keyframes old--spin{}.a{animation:old--spin 1s}</style></svg>',
+      { desiredId: 'new' }
+    )
+    expect(result.keyframes).toEqual([
+      { name: 'old--spin', scopedName: 'new--spin' },
+    ])
+    expect(result.processed).toContain('@keyframes new--spin')
+    expect(result.processed).toContain('animation:new--spin 1s')
+  })
+})
+
+describe('scopeSvgContent at-rules and special selectors', () => {
+  it('reports each unscopable construct with its own code', () => {
+    const result = scope(readFixture('at-rules'))
+    expect(result.warnings.map((warning) => warning.code)).toEqual([
+      'unscopable-atrule',
+      'unscopable-atrule',
+      'html-body-selector',
+      'unsupported-atrule',
+    ])
+  })
+
+  it('locates warnings in the original source', () => {
+    const result = scope(readFixture('at-rules'))
+    expect(result.warnings[2]).toEqual({
+      code: 'html-body-selector',
+      severity: 'warning',
+      message: expect.stringContaining('html.dark .face'),
+      params: { selector: 'html.dark .face', element: 'html' },
+      styleIndex: 0,
+      line: 8,
+      column: 5,
+      selector: 'html.dark .face',
+    })
+    expect(
+      result.warnings.map(({ severity, line }) => [severity, line])
+    ).toEqual([
+      ['info', 3],
+      ['info', 4],
+      ['warning', 8],
+      ['warning', 17],
+    ])
+  })
+
+  it('counts columns from the style tag on its first line', () => {
+    const result = scope('<svg id="s">\n<style/><style>#a .b{}</style></svg>')
+    expect(result.warnings[0]).toMatchObject({
+      code: 'foreign-id-selector',
+      styleIndex: 1,
+      line: 2,
+      column: 16,
+    })
+  })
+
+  it('locates styles after commented-out and removed style blocks', () => {
+    const source = [
+      '<svg id="s">',
+      '<!-- <style>#old .x{}</style> -->',
+      '<foreignObject><style>.y{}</style></foreignObject>',
+      '<style>',
+      '#a .b{}</style></svg>',
+    ].join('\n')
+    const result = scope(source, { sanitizePolicy: DEFAULT_SANITIZE_POLICY })
+    expect(result.processed).not.toContain('foreignObject')
+    expect(result.warnings).toHaveLength(1)
+    expect(result.warnings[0]).toMatchObject({
+      code: 'foreign-id-selector',
+      styleIndex: 1,
+      line: 5,
+      column: 1,
+    })
+  })
+
+  it('maps svg and :root selectors onto the svg id', () => {
+    const result = scope(
+      '<svg id="s"><style>svg.on:hover .a{} :root{} svg#s .b{}</style></svg>'
+    )
+    expect(result.processed).toContain('#s.on:hover .a{}#s{}svg#s .b{}')
+  })
+
+  it('does not flag page selectors that are scoped by class names', () => {
+    const result = scope('<svg id="s"><style>body .a{}</style></svg>', {
+      scopeStrategy: 'class-namespace',
+    })
+    expect(result.processed).toContain('body .s__a{}')
+    expect(result.warnings).toEqual([])
+  })
+})
+
+describe('scopeSvgContent id namespacing', () => {
+  it('namespaces descendant ids and rewrites every reference', async () => {
+    const result = scope(readFixture('internal-ids'), { namespaceIds: true })
+    expect(result.idRenames).toEqual([
+      { id: 'title', scopedId: 'dial--title' },
+      { id: 'linearGradient-1', scopedId: 'dial--linearGradient-1' },
+      { id: 'clip', scopedId: 'dial--clip' },
+      { id: 'tick', scopedId: 'dial--tick' },
+      { id: 'anim1', scopedId: 'dial--anim1' },
+    ])
+    expect(result.scopedAfter).toBe(true)
+    expect(result.warnings).toEqual([])
+    expect(result.levelRects.map((levelRect) => levelRect.key)).toEqual(['level'])
+    await expect(result.processed).toMatchFileSnapshot(
+      './fixtures/internal-ids.scoped.svg'
+    )
+  })
+
+  it('is opt-in and keeps warning about foreign ids by default', () => {
+    const result = scope(readFixture('internal-ids'))
+    expect(result.idRenames).toEqual([])
+    expect(result.processed).toContain('id="linearGradient-1"')
+    expect(result.scopedAfter).toBe(false)
+  })
+
+  it('honours a custom allow-list and is idempotent', () => {
+    const options: ScopeOptions = {
+      namespaceIds: true,
+      preservedIds: ['tick', 'level'],
+    }
+    const first = scope(readFixture('internal-ids'), options)
+    expect(first.processed).toContain('href="#tick"')
+    expect(first.processed).toContain('id="level"')
+    expect(first.processed).toContain('id="dial--clip"')
+
+    const second = scope(first.processed, options)
+    expect(second.idRenames).toEqual([])
+    expect(second.processed).toBe(first.processed)
+  })
+
+  it('moves ids namespaced with a previous svg id onto the new one', () => {
+    const result = scope(
+      '<svg id="old"><g id="old--a" fill="url(#old--a)"/></svg>',
+      { namespaceIds: true, desiredId: 'new' }
+    )
+    expect(result.processed).toBe(
+      '<svg id="new"><g id="new--a" fill="url(#new--a)"/></svg>'
+    )
+  })
+})
+
+describe('scopeSvgContent class namespacing', () => {
+  const options: ScopeOptions = {
+    desiredId: 'icon',
+    scopeStrategy: 'class-namespace',
+  }
+
+  it('renames classes in styles and class attributes without an id prefix', () => {
+    const result = scope(readFixture('unscoped-classes'), options)
+    expect(result.classes).toEqual([
+      { name: 'cls-1', scopedName: 'icon__cls-1' },
+      { name: 'cls-2', scopedName: 'icon__cls-2' },
+      { name: 'cls-3', scopedName: 'icon__cls-3' },
+    ])
+    expect(result.processed).toContain('.icon__cls-1{fill:#1f77b4}')
+    expect(result.processed).toContain('.icon__cls-2,.icon__cls-3&gt;path{')
+    expect(result.processed).toContain('class="icon__cls-3 icon__cls-2"')
+    expect(result.processed).not.toContain('#icon .icon__')
+    expect(result.scopedBefore).toBe(false)
+    expect(result.scopedAfter).toBe(true)
+  })
+
+  it('falls back to the id prefix for selectors without classes', () => {
+    const result = scope(readFixture('unscoped-classes'), options)
+    expect(result.processed).toContain('#icon rect:hover{')
+  })
+
+  it('treats classes as scoping even next to foreign ids', () => {
+    const result = scope(
+      '<svg><style>#host .a:not(.b){}</style><g class="a"/></svg>',
+      options
+    )
+    expect(result.processed).toContain('#host .icon__a:not(.icon__b){}')
+    expect(result.warnings).toEqual([])
+    expect(result.scopedAfter).toBe(true)
+  })
+
+  it('is idempotent and moves classes onto a new id', () => {
+    const first = scope(readFixture('unscoped-classes'), options)
+    const second = scope(first.processed, options)
+    expect(second.processed).toBe(first.processed)
+    expect(second.scopedBefore).toBe(true)
+
+    const moved = scope(first.processed, { ...options, desiredId: 'pump' })
+    expect(moved.processed).toContain('class="pump__cls-1"')
+    expect(moved.processed).toContain('.pump__cls-1{')
+    expect(moved.processed).not.toContain('icon__')
+  })
+
+  it('reports unchanged class names for the id-prefix strategy', () => {
+    const result = scope(readFixture('unscoped-classes'))
+    expect(result.classes.map((cls) => cls.scopedName)).toEqual([
+      'cls-1',
+      'cls-2',
+      'cls-3',
+    ])
+  })
+})
+
+describe('scopeSvgContent inline styles', () => {
+  it('removes the style attribute when only transitions remain', () => {
+    const result = scope(
+      '<svg id="s"><g style="transition: all 1s; -webkit-transition-delay: 2s"/></svg>'
+    )
+    expect(result.processed).toBe('<svg id="s"><g/></svg>')
+    expect(result.changed).toBe(true)
+  })
+
+  it('leaves unrelated inline declarations untouched', () => {
+    const svg = '<svg id="s"><g style="opacity:.5"/></svg>'
+    const result = scope(svg)
+    expect(result.processed).toBe(svg)
+    expect(result.changed).toBe(false)
+  })
+
+  it('writes the full level transition spec back onto level rects', () => {
+    const result = scope(
+      '<svg id="s"><rect id="level" x="0" y="0" width="2" height="4" style="transition: height 2s ease-in 1s"/></svg>',
+      {
+        levelTransitions: {
+          level: {
+            property: '',
+            duration: 2,
+            timingFunction: 'steps(4, jump-end)',
+            delay: 0.5,
+          },
+        },
+      }
+    )
+    expect(result.processed).toContain(
+      'style="transition: height 2s steps(4, jump-end) 0.5s, y 2s steps(4, jump-end) 0.5s;"'
+    )
+  })
+})
+
+describe('scopeSvgContent errors', () => {
+  it('reports malformed XML', () => {
+    const svg = '<svg><g></svg>'
+    const result = scope(svg)
+    expect(result.ok).toBe(false)
+    expect(result.errorCode).toBe('xml-parse-error')
+    expect(result.error).toBeTruthy()
+    expect(result.processed).toBe(svg)
+  })
+
+  it('reports a non-svg root element', () => {
+    const result = scope('<html><body/></html>')
+    expect(result.ok).toBe(false)
+    expect(result.errorCode).toBe('missing-svg-root')
+    expect(result.error).toContain('<svg>')
+  })
+
+  it('localizes messages but keeps codes and params stable', () => {
+    const svg = '<svg id="s"><style>#a .b{}</style></svg>'
+    const zh = scope(svg)
+    const en = scope(svg, { locale: 'en' })
+    expect(en.warnings[0].message).toBe(
+      'Selector "#a .b" already contains another #id and was left unscoped.'
+    )
+    expect(en.warnings[0].message).not.toBe(zh.warnings[0].message)
+    expect({ ...en.warnings[0], message: '' }).toEqual({
+      ...zh.warnings[0],
+      message: '',
+    })
+    expect(scope('<g/>', { locale: 'en' }).error).toBe(
+      'No <svg> root element was found in the file.'
+    )
+  })
+})
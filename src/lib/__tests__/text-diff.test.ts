@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+
+import { diffLines, diffSequences, foldDiffRows } from '@/lib/text-diff'
+
+function applyEdits(before: string[], after: string[]) {
+  return diffSequences(before, after)
+    .filter((edit) => edit.kind !== 'delete')
+    .map((edit) =>
+      edit.kind === 'equal' ? before[edit.beforeIndex] : after[edit.afterIndex]
+    )
+}
+
+describe('diffSequences', () => {
+  it('produces a minimal edit script that rebuilds the target', () => {
+    const before = 'ABCABBA'.split('')
+    const after = 'CBABAC'.split('')
+    const edits = diffSequences(before, after)
+    expect(applyEdits(before, after)).toEqual(after)
+    expect(edits.filter((edit) => edit.kind !== 'equal')).toHaveLength(5)
+  })
+
+  it('handles empty sides', () => {
+    expect(diffSequences([], ['a']).map((edit) => edit.kind)).toEqual([
+      'insert',
+    ])
+    expect(diffSequences(['a'], []).map((edit) => edit.kind)).toEqual([
+      'delete',
+    ])
+  })
+})
+
+describe('diffLines', () => {
+  it('pairs changed lines and highlights the changed tokens', () => {
+    const rows = diffLines(
+      '<svg>\n  .a { fill: red }\n  <g/>\n</svg>',
+      '<svg id="x">\n  #x .a { fill: red }\n</svg>'
+    )
+    expect(rows.map((row) => row.kind)).toEqual([
+      'change',
+      'change',
+      'delete',
+      'equal',
+    ])
+    expect(rows[1].after?.segments).toEqual([
+      { text: '  ', changed: false },
+      { text: '#x ', changed: true },
+      { text: '.a { fill: red }', changed: false },
+    ])
+    expect(rows[2].before?.number).toBe(3)
+  })
+})
+
+describe('foldDiffRows', () => {
+  it('keeps context around changes and folds the rest', () => {
+    const before = Array.from({ length: 20 }, (_, index) => `line ${index}`)
+    const after = [...before]
+    after[10] = 'changed'
+    const blocks = foldDiffRows(diffLines(before.join('\n'), after.join('\n')))
+    expect(blocks.map((block) => [block.kind, block.rows.length])).toEqual([
+      ['fold', 7],
+      ['rows', 7],
+      ['fold', 6],
+    ])
+  })
+})
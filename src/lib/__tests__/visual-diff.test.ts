@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSeededRandom } from '@/lib/hash'
+import { rasterizeSvg } from '@/lib/svg-raster'
+import { scopeSvgContent } from '@/lib/svg-scope'
+import { compareRasters, createRasterImage } from '@/lib/visual-diff'
+
+const fixtures = import.meta.glob<string>('./fixtures/*.svg', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+})
+
+function readPixel(
+  image: NonNullable<ReturnType<typeof rasterizeSvg>>,
+  x: number,
+  y: number
+) {
+  const offset = (y * image.width + x) * 4
+  return Array.from(image.data.slice(offset, offset + 4))
+}
+
+describe('compareRasters', () => {
+  it('scores the share of differing pixels and marks them red', () => {
+    const before = createRasterImage(2, 2)
+    const after = createRasterImage(2, 2)
+    after.data.set([0, 0, 0, 255], 0)
+    // 半透明的细微差别在容差内
+    after.data.set([0, 0, 0, 10], 4)
+
+    const result = compareRasters(before, after, 0.2)
+    expect(result.diffPixels).toBe(1)
+    expect(result.score).toBe(0.25)
+    expect(result.exceeded).toBe(true)
+    expect(Array.from(result.heatmap.data.slice(0, 4))).toEqual([
+      255, 0, 0, 255,
+    ])
+    expect(result.heatmap.data[4]).toBe(result.heatmap.data[5])
+  })
+})
+
+describe('rasterizeSvg', () => {
+  it('fills shapes with colors from the style cascade', () => {
+    const image = rasterizeSvg(
+      '<svg viewBox="0 0 20 10"><style>.a{fill:red} #b{fill:#00f}</style>' +
+        '<circle class="a" cx="5" cy="5" r="4"/><rect id="b" class="a" x="12" y="2" width="6" height="6"/></svg>',
+      20
+    )!
+    expect(image.width).toBe(20)
+    expect(image.height).toBe(10)
+    expect(readPixel(image, 5, 5)).toEqual([255, 0, 0, 255])
+    expect(readPixel(image, 15, 5)).toEqual([0, 0, 255, 255])
+    expect(readPixel(image, 10, 5)[3]).toBe(0)
+  })
+
+  it('returns null for content that is not an svg', () => {
+    expect(rasterizeSvg('<html></html>')).toBeNull()
+  })
+})
+
+describe('visual check of scoped output', () => {
+  it.each(
+    Object.entries(fixtures).filter(([name]) => !name.endsWith('at-rules.svg'))
+  )('%s renders the same after scoping', (_, source) => {
+    const result = scopeSvgContent(source, {
+      random: createSeededRandom(7),
+      namespaceIds: true,
+    })
+    const before = rasterizeSvg(source)
+    const after = rasterizeSvg(result.processed)
+    expect(before).not.toBeNull()
+    expect(compareRasters(before!, after!).score).toBe(0)
+  })
+
+  it('detects styles that no longer apply after scoping', () => {
+    const source =
+      '<svg id="icon" viewBox="0 0 10 10"><style>.dot{fill:red}</style><circle class="dot" cx="5" cy="5" r="5"/></svg>'
+    const broken = source.replace('.dot{', '.missing .dot{')
+    const result = compareRasters(rasterizeSvg(source)!, rasterizeSvg(broken)!)
+    expect(result.exceeded).toBe(true)
+    expect(result.score).toBeGreaterThan(0.5)
+  })
+})
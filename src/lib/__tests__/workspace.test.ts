@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSeededRandom } from '@/lib/hash'
+import { DEFAULT_OPTIMIZE_OPTIONS } from '@/lib/svg-optimize'
+import { scopeSvgContent } from '@/lib/svg-scope'
+import type { SvgEntry } from '@/lib/types'
+import {
+  createWorkspace,
+  createWorkspaceBundle,
+  createWorkspaceSnapshot,
+  DEFAULT_WORKSPACE_SETTINGS,
+  parseWorkspaceBundle,
+  type WorkspaceSettings,
+} from '@/lib/workspace'
+
+function createEntry(id: string, patch: Partial<SvgEntry> = {}): SvgEntry {
+  const rawContent = '<svg id="tank"><rect id="level" height="10"/></svg>'
+  return {
+    id,
+    fileName: `${id}.svg`,
+    rawContent,
+    desiredId: 'tank',
+    levelTransitions: {
+      level: { property: '', duration: 2, timingFunction: 'ease', delay: 0 },
+    },
+    levelFillDirections: {},
+    levelCalibrations: {},
+    scopeStrategy: 'id-prefix',
+    removalPolicy: null,
+    result: scopeSvgContent(rawContent, { random: createSeededRandom(1) }),
+    visualCheck: { processed: '', score: 0, heatmapUrl: 'data:' },
+    error: null,
+    isProcessing: false,
+    ...patch,
+  }
+}
+
+describe('createWorkspaceSnapshot', () => {
+  it('skips entries still processing and drops visual check results', () => {
+    const workspace = createWorkspace('Plant')
+    const snapshot = createWorkspaceSnapshot(
+      workspace,
+      [createEntry('a'), createEntry('b', { isProcessing: true })],
+      'b',
+      DEFAULT_WORKSPACE_SETTINGS
+    )
+
+    expect(snapshot.entries.map((entry) => entry.id)).toEqual(['a'])
+    expect(snapshot.entries[0].visualCheck).toBeNull()
+    expect(snapshot.activeEntryId).toBe('a')
+  })
+})
+
+describe('parseWorkspaceBundle', () => {
+  it('round-trips a bundle under a new project id', () => {
+    const workspace = createWorkspaceSnapshot(
+      createWorkspace('Plant'),
+      [createEntry('a')],
+      'a',
+      { ...DEFAULT_WORKSPACE_SETTINGS, namespaceIds: true }
+    )
+    const text = JSON.stringify(createWorkspaceBundle(workspace))
+    const imported = parseWorkspaceBundle(text)
+
+    expect(imported).not.toBeNull()
+    expect(imported!.warnings).toEqual([])
+    const restored = imported!.workspace
+    expect(restored.id).not.toBe(workspace.id)
+    expect(restored.name).toBe('Plant')
+    expect(restored.entries).toEqual(workspace.entries)
+    expect(restored.settings.namespaceIds).toBe(true)
+  })
+
+  it('rejects other files and flags entries whose result is missing', () => {
+    expect(parseWorkspaceBundle('not json')).toBeNull()
+    expect(parseWorkspaceBundle('{"format":"other"}')).toBeNull()
+
+    const workspace = createWorkspace('Plant')
+    const bundle = createWorkspaceBundle({
+      ...workspace,
+      entries: [createEntry('a', { result: null })],
+    })
+    const restored = parseWorkspaceBundle(JSON.stringify(bundle))!.workspace
+    expect(restored.entries[0]).toMatchObject({
+      result: null,
+      error: 'process-failed',
+    })
+    expect(restored.settings).toEqual(DEFAULT_WORKSPACE_SETTINGS)
+  })
+
+  it('falls back to defaults for malformed nested settings', () => {
+    const workspace = createWorkspace('Plant')
+    const bundle = createWorkspaceBundle({
+      ...workspace,
+      entries: [createEntry('a')],
+      settings: {
+        ...DEFAULT_WORKSPACE_SETTINGS,
+        removalPolicy: {},
+        sanitizePolicy: { allowElements: 'image' },
+        optimizeOptions: { precision: 3 },
+        levelRules: [1],
+        visualThreshold: 5,
+      } as unknown as WorkspaceSettings,
+    })
+    const text = JSON.stringify(bundle).replace(
+      '"removalPolicy":null',
+      '"removalPolicy":{"stripProperties":"fill"}'
+    )
+    const restored = parseWorkspaceBundle(text)!.workspace
+
+    expect(restored.settings).toEqual(DEFAULT_WORKSPACE_SETTINGS)
+    expect(restored.entries[0].removalPolicy).toBeNull()
+    const { rawContent } = restored.entries[0]
+    expect(() =>
+      scopeSvgContent(rawContent, {
+        levelRules: restored.settings.levelRules,
+        removalPolicy: restored.settings.removalPolicy,
+      })
+    ).not.toThrow()
+  })
+
+  it('keeps complete nested settings and expands shorthand level rules', () => {
+    const workspace = createWorkspace('Plant')
+    const settings = {
+      ...DEFAULT_WORKSPACE_SETTINGS,
+      levelRules: ['id:tank-*'],
+      sanitizePolicy: {
+        allowElements: ['image'],
+        allowAttributes: [],
+        allowUrls: [],
+      },
+      optimizeOptions: { ...DEFAULT_OPTIMIZE_OPTIONS, precision: null },
+    } as unknown as WorkspaceSettings
+    const restored = parseWorkspaceBundle(
+      JSON.stringify(createWorkspaceBundle({ ...workspace, settings }))
+    )!.workspace
+
+    expect(restored.settings.levelRules).toEqual([
+      { kind: 'id', value: 'tank-*' },
+    ])
+    expect(restored.settings.sanitizePolicy).toEqual(settings.sanitizePolicy)
+    expect(restored.settings.optimizeOptions).toEqual(settings.optimizeOptions)
+  })
+
+  it('drops malformed level settings from entries with a warning', () => {
+    const bundle = createWorkspaceBundle({
+      ...createWorkspace('Plant'),
+      entries: [
+        createEntry('a', {
+          levelTransitions: {
+            level: { duration: 2 },
+            ok: {
+              property: '',
+              duration: 1,
+              timingFunction: 'linear',
+              delay: 0,
+            },
+          },
+          levelFillDirections: { level: 'up', ok: 'ltr' },
+          levelCalibrations: {
+            level: { min: '0', max: 10 },
+            ok: { min: 0, max: null },
+          },
+        } as unknown as Partial<SvgEntry>),
+      ],
+    })
+    const imported = parseWorkspaceBundle(JSON.stringify(bundle))!
+    const [entry] = imported.workspace.entries
+
+    expect(Object.keys(entry.levelTransitions)).toEqual(['ok'])
+    expect(entry.levelFillDirections).toEqual({ ok: 'ltr' })
+    expect(entry.levelCalibrations).toEqual({ ok: { min: 0, max: null } })
+    expect(imported.warnings).toEqual([
+      { fileName: 'a.svg', field: 'levelTransitions', key: 'level' },
+      { fileName: 'a.svg', field: 'levelFillDirections', key: 'level' },
+      { fileName: 'a.svg', field: 'levelCalibrations', key: 'level' },
+    ])
+    expect(() =>
+      scopeSvgContent(entry.rawContent, {
+        levelTransitions: entry.levelTransitions,
+        levelFillDirections: entry.levelFillDirections,
+      })
+    ).not.toThrow()
+  })
+})
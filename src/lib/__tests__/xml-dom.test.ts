@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatXml, parseXml, serializeXml } from '@/lib/xml-dom'
+
+function roundTrip(source: string) {
+  const root = parseXml(source)
+  if (!root) throw new Error('parse failed')
+  return serializeXml(root)
+}
+
+describe('xml-dom', () => {
+  it('serializes the root element only, keeping comments, CDATA and PIs', () => {
+    const source = `<?xml version="1.0"?>
+<!-- editor -->
+<svg a="1"><style><![CDATA[.a > b{}]]></style><!-- c --><?pi data?><g/></svg>`
+    expect(roundTrip(source)).toBe(
+      '<svg a="1"><style><![CDATA[.a > b{}]]></style><!-- c --><?pi data?><g/></svg>'
+    )
+  })
+
+  it('decodes references and re-escapes on output', () => {
+    const root = parseXml(
+      '<svg t="a &amp; &quot;b&quot;&#10;c"><text>&lt;1&gt; &#x4e2d;</text></svg>'
+    )
+    expect(root?.getAttribute('t')).toBe('a & "b"\nc')
+    expect(root?.textContent).toBe('<1> 中')
+    expect(serializeXml(root!)).toBe(
+      '<svg t="a &amp; &quot;b&quot;&#10;c"><text>&lt;1&gt; 中</text></svg>'
+    )
+  })
+
+  it('expands internal DTD entities', () => {
+    const root = parseXml(
+      '<!DOCTYPE svg [<!ENTITY ns "http://www.w3.org/2000/svg">]><svg xmlns="&ns;"/>'
+    )
+    expect(root?.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg')
+  })
+
+  it('rejects nested entity bombs instead of expanding them', () => {
+    const declarations = ['<!ENTITY e0 "lol">']
+    for (let level = 1; level <= 8; level += 1) {
+      declarations.push(`<!ENTITY e${level} "${`&e${level - 1};`.repeat(10)}">`)
+    }
+    const source = `<!DOCTYPE svg [${declarations.join('')}]><svg t="&e8;">&e8;</svg>`
+    expect(parseXml(source)).toBeNull()
+  })
+
+  it('caps the number of entity expansions', () => {
+    const source = `<!DOCTYPE svg [<!ENTITY a "">]><svg>${'&a;'.repeat(20_000)}</svg>`
+    expect(parseXml(source)).toBeNull()
+  })
+
+  it.each([
+    ['<svg><g></svg>'],
+    ['<svg a="1" a="2"/>'],
+    ['<svg>&nbsp;</svg>'],
+    ['<svg>&#65abc;</svg>'],
+    ['<svg t="&#x4gg;"/>'],
+    ['<svg>&#X41;</svg>'],
+    ['<svg>&#;</svg>'],
+    ['<svg/><svg/>'],
+    ['text'],
+  ])('rejects malformed input %s', (source) => {
+    expect(parseXml(source)).toBeNull()
+  })
+
+  it('pretty-prints elements and style declarations one per line', () => {
+    const root = parseXml(
+      '<svg id="a"><style><![CDATA[.a{fill:red;background:url(data:x;y)}@media print{.b{opacity:0}}]]></style>\n<g><text> hi </text><path d="M0"/></g></svg>'
+    )
+    expect(formatXml(root!)).toBe(
+      [
+        '<svg id="a">',
+        '  <style>',
+        '    <![CDATA[',
+        '    .a{',
+        '      fill:red;',
+        '      background:url(data:x;y)',
+        '    }',
+        '    @media print{',
+        '      .b{',
+        '        opacity:0',
+        '      }',
+        '    }',
+        '    ]]>',
+        '  </style>',
+        '  <g>',
+        '    <text>hi</text>',
+        '    <path d="M0"/>',
+        '  </g>',
+        '</svg>',
+      ].join('\n')
+    )
+  })
+})
@@ -0,0 +1,106 @@
+import type { ScopeWarning } from '@/lib/svg-scope'
+import type { SvgEntry } from '@/lib/types'
+import type { ZipFile } from '@/lib/zip'
+
+export const DEFAULT_ID_PATTERN = '{basename}-{index}'
+
+export const MANIFEST_FILE_NAME = 'manifest.json'
+
+export interface IdPatternValues {
+  fileName: string
+  /** 在本批文件中的序号，从 1 开始 */
+  index: number
+  /** 当前的根 id，未处理成功时为空 */
+  id: string
+}
+
+export function getFileBaseName(fileName: string) {
+  return fileName.replace(/^.*[/\\]/, '').replace(/\.svg$/i, '')
+}
+
+/**
+ * 展开 id 模式中的占位符：{basename}、{index}、{id}；
+ * `{index:3}` 把序号补零到 3 位。未知占位符原样保留，交给 sanitizeId 处理
+ */
+export function applyIdPattern(pattern: string, values: IdPatternValues) {
+  return pattern.replace(
+    /\{(basename|index|id)(?::(\d+))?\}/g,
+    (_, name: string, width?: string) => {
+      if (name === 'basename') return getFileBaseName(values.fileName)
+      if (name === 'id') return values.id
+      return String(values.index).padStart(Number(width ?? 0), '0')
+    }
+  )
+}
+
+export function getScopedFileName(fileName: string, svgId: string) {
+  return `${getFileBaseName(fileName) || svgId || 'scoped-svg'}-scoped.svg`
+}
+
+export interface ManifestFile {
+  source: string
+  /** 压缩包内的文件名，处理失败时为 null */
+  output: string | null
+  svgId: string | null
+  levelIds: string[]
+  error: string | null
+  warnings: Pick<ScopeWarning, 'code' | 'message' | 'line' | 'column'>[]
+}
+
+export interface BatchManifest {
+  generatedAt: string
+  files: ManifestFile[]
+}
+
+// 同名文件追加 (2)、(3) …，避免在压缩包里互相覆盖
+function createUniqueName(name: string, taken: Set<string>) {
+  let candidate = name
+  for (let suffix = 2; taken.has(candidate); suffix += 1) {
+    candidate = name.replace(/(\.[^.]+)?$/, ` (${suffix})$1`)
+  }
+  taken.add(candidate)
+  return candidate
+}
+
+/** 打包处理成功的文件，并附带记录 id、警告与失败原因的 manifest.json */
+export function createBatchArchive(
+  entries: readonly SvgEntry[],
+  date = new Date()
+): ZipFile[] {
+  const taken = new Set([MANIFEST_FILE_NAME])
+  const files: ZipFile[] = []
+  const manifest: BatchManifest = {
+    generatedAt: date.toISOString(),
+    files: entries.map((entry) => {
+      const result = entry.result?.ok ? entry.result : null
+      const output = result
+        ? createUniqueName(
+            getScopedFileName(entry.fileName, result.svgId),
+            taken
+          )
+        : null
+      if (result && output) {
+        files.push({ name: output, content: result.processed })
+      }
+      return {
+        source: entry.fileName,
+        output,
+        svgId: result?.svgId ?? null,
+        levelIds: result?.levelRects.map(({ id, key }) => id ?? key) ?? [],
+        error: result ? null : (entry.error ?? 'process-failed'),
+        warnings:
+          result?.warnings.map(({ code, message, line, column }) => ({
+            code,
+            message,
+            line,
+            column,
+          })) ?? [],
+      }
+    }),
+  }
+
+  return [
+    ...files,
+    { name: MANIFEST_FILE_NAME, content: JSON.stringify(manifest, null, 2) },
+  ]
+}
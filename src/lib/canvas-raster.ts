@@ -0,0 +1,70 @@
+import { getSvgRasterSize, rasterizeSvg } from '@/lib/svg-raster'
+import { compareRasters, type RasterImage } from '@/lib/visual-diff'
+import { parseXml } from '@/lib/xml-dom'
+
+/** 用浏览器自身的渲染结果光栅化；以图片方式加载，SVG 内的脚本与外部资源不会执行 */
+export async function rasterizeSvgWithCanvas(
+  svgContent: string,
+  maxSize?: number
+): Promise<RasterImage | null> {
+  const svg = parseXml(svgContent)
+  if (!svg) return null
+
+  const { width, height } = getSvgRasterSize(svg, maxSize)
+  const url = URL.createObjectURL(
+    new Blob([svgContent], { type: 'image/svg+xml' })
+  )
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d')
+    if (!context) return null
+    context.drawImage(image, 0, 0, width, height)
+    const { data } = context.getImageData(0, 0, width, height)
+    return { width, height, data }
+  } catch {
+    return null
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+export function rasterToDataUrl(image: RasterImage) {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  canvas
+    .getContext('2d')
+    ?.putImageData(
+      new ImageData(new Uint8ClampedArray(image.data), image.width),
+      0,
+      0
+    )
+  return canvas.toDataURL('image/png')
+}
+
+/** 两侧都用 canvas 光栅化，浏览器无法解码时退回纯 JS 光栅化 */
+export async function compareSvgRenderings(
+  before: string,
+  after: string,
+  maxSize?: number
+) {
+  const [canvasBefore, canvasAfter] = await Promise.all([
+    rasterizeSvgWithCanvas(before, maxSize),
+    rasterizeSvgWithCanvas(after, maxSize),
+  ])
+  const useCanvas = canvasBefore !== null && canvasAfter !== null
+  const rasterBefore = useCanvas ? canvasBefore : rasterizeSvg(before, maxSize)
+  const rasterAfter = useCanvas ? canvasAfter : rasterizeSvg(after, maxSize)
+  if (!rasterBefore || !rasterAfter) return null
+
+  const diff = compareRasters(rasterBefore, rasterAfter)
+  return {
+    score: diff.score,
+    heatmapUrl: rasterToDataUrl(diff.heatmap),
+  }
+}
@@ -0,0 +1,192 @@
+import { generate, parse, walk, type CssNode } from 'css-tree'
+
+import { findDescendants, parseXml } from '@/lib/xml-dom'
+
+/** 参与批量检查的一个文件的处理结果 */
+export interface CollisionInput {
+  entryId: string
+  svgId: string
+  processed: string
+}
+
+export interface IdCollision {
+  id: string
+  /** 按输入顺序排列，同一文件只出现一次 */
+  entryIds: string[]
+}
+
+export interface GlobalRule {
+  entryId: string
+  /** at-rule 为 @import / @font-face 等对整个页面生效的规则 */
+  kind: 'at-rule' | 'selector'
+  text: string
+}
+
+export interface ClassDefinition {
+  entryId: string
+  selector: string
+  declarations: string
+  /** 选择器已限定在所在 SVG 内 */
+  scoped: boolean
+}
+
+export interface ClassConflict {
+  className: string
+  definitions: ClassDefinition[]
+  /** 所有定义都已限定在各自的 SVG 内，同名不会互相影响 */
+  isolated: boolean
+}
+
+export interface CollisionReport {
+  rootIds: IdCollision[]
+  elementIds: IdCollision[]
+  globalRules: GlobalRule[]
+  classConflicts: ClassConflict[]
+}
+
+// 对整个页面生效、无法限定到单个 SVG 的 at-rule
+const GLOBAL_ATRULE_PATTERN = /^(?:import|font-face|property)$/i
+// 内部规则不是普通选择器规则
+const SKIPPED_ATRULE_PATTERN = /^(?:-[a-z]+-)?(?:keyframes|page|font-face)$/i
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function groupCollisions(occurrences: [string, string][]) {
+  const groups = new Map<string, string[]>()
+  occurrences.forEach(([id, entryId]) => {
+    const entryIds = groups.get(id) ?? []
+    if (!entryIds.includes(entryId)) entryIds.push(entryId)
+    groups.set(id, entryIds)
+  })
+  return Array.from(groups, ([id, entryIds]) => ({ id, entryIds })).filter(
+    (group) => group.entryIds.length > 1
+  )
+}
+
+// 选择器最右侧复合选择器中的类名，即该规则实际定义样式的类
+function getSubjectClasses(selector: string) {
+  const subject = selector.split(/\s*[\s>+~]\s*/).pop() ?? ''
+  return Array.from(
+    subject.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g),
+    (match) => match[1]
+  )
+}
+
+function collectStyleRules(
+  input: CollisionInput,
+  globalRules: GlobalRule[],
+  definitions: Map<string, ClassDefinition[]>,
+  css: string
+) {
+  const id = escapeRegExp(input.svgId)
+  const scopePattern = new RegExp(`#${id}(?![\\w-])|#${id}--|\\.${id}__`)
+  let ast: CssNode
+  try {
+    ast = parse(css, { parseRulePrelude: true })
+  } catch {
+    return
+  }
+
+  let skippedDepth = 0
+  walk(ast, {
+    enter(node) {
+      if (node.type === 'Atrule') {
+        if (!skippedDepth && GLOBAL_ATRULE_PATTERN.test(node.name)) {
+          globalRules.push({
+            entryId: input.entryId,
+            kind: 'at-rule',
+            text: `@${node.name}${node.prelude ? ` ${generate(node.prelude)}` : ''}`,
+          })
+        }
+        if (SKIPPED_ATRULE_PATTERN.test(node.name)) skippedDepth += 1
+        return
+      }
+      if (node.type !== 'Rule' || skippedDepth) return
+      if (node.prelude?.type !== 'SelectorList') return
+
+      const declarations = node.block ? generate(node.block) : '{}'
+      node.prelude.children?.forEach((selectorNode) => {
+        const selector = generate(selectorNode)
+        const scoped = scopePattern.test(selector)
+        if (!scoped) {
+          globalRules.push({
+            entryId: input.entryId,
+            kind: 'selector',
+            text: selector,
+          })
+        }
+        getSubjectClasses(selector).forEach((className) => {
+          const list = definitions.get(className) ?? []
+          list.push({ entryId: input.entryId, selector, declarations, scoped })
+          definitions.set(className, list)
+        })
+      })
+    },
+    leave(node) {
+      if (node.type === 'Atrule' && SKIPPED_ATRULE_PATTERN.test(node.name)) {
+        skippedDepth -= 1
+      }
+    },
+  })
+}
+
+/**
+ * 检查一批处理结果之间的冲突：重复的根 id、跨文件重复的内部元素 id、
+ * 仍对整个页面生效的规则，以及多个文件里定义不同的同名类
+ */
+export function analyzeCollisions(
+  inputs: readonly CollisionInput[]
+): CollisionReport {
+  const elementIds: [string, string][] = []
+  const globalRules: GlobalRule[] = []
+  const definitions = new Map<string, ClassDefinition[]>()
+
+  inputs.forEach((input) => {
+    const svg = parseXml(input.processed)
+    if (!svg) return
+    findDescendants(svg, (element) => element.hasAttribute('id')).forEach(
+      (element) => {
+        elementIds.push([element.getAttribute('id') ?? '', input.entryId])
+      }
+    )
+    findDescendants(svg, (element) => element.localName === 'style').forEach(
+      (style) => {
+        collectStyleRules(
+          input,
+          globalRules,
+          definitions,
+          style.textContent ?? ''
+        )
+      }
+    )
+  })
+
+  const classConflicts = Array.from(definitions, ([className, list]) => ({
+    className,
+    definitions: list,
+    isolated: list.every((definition) => definition.scoped),
+  })).filter(
+    ({ definitions: list }) =>
+      new Set(list.map((definition) => definition.entryId)).size > 1 &&
+      new Set(list.map((definition) => definition.declarations)).size > 1
+  )
+
+  return {
+    rootIds: groupCollisions(
+      inputs.map((input) => [input.svgId, input.entryId])
+    ),
+    elementIds: groupCollisions(elementIds.filter(([id]) => id)),
+    globalRules,
+    classConflicts,
+  }
+}
+
+/** 在 id 后追加 -2、-3 …，直到不与 takenIds 重复 */
+export function createUniqueSvgId(id: string, takenIds: ReadonlySet<string>) {
+  if (!takenIds.has(id)) return id
+  let suffix = 2
+  while (takenIds.has(`${id}-${suffix}`)) suffix += 1
+  return `${id}-${suffix}`
+}
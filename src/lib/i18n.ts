@@ -0,0 +1,726 @@
+export type Locale = 'zh-CN' | 'en'
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN'
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'zh-CN', label: '中文' },
+  { value: 'en', label: 'English' },
+]
+
+const zhCN = {
+  'app.tagline': '上传多个 SVG，自动检测并修正样式作用域，适合在 Vercel 等平台部署。',
+  'app.language': '界面语言',
+  'list.separator': '、',
+
+  'upload.button': '上传 SVG',
+  'upload.title': '上传 SVG 文件',
+  'upload.description':
+    '支持从 UI 工具导出的多个 SVG。本工具会检测 `.cls-*` 等类名是否已作用域，并自动加上对应的 id 选择器。',
+  'upload.dropzone': '点击或拖拽文件到这里上传',
+  'upload.hint': '仅限 .svg 文件，可一次选择多个文件进行批量修复。',
+  'upload.count': '已上传 {count} 个文件',
+  'upload.choose': '选择文件',
+  'upload.parsing': '正在解析文件…',
+
+  'results.title': '检测结果',
+  'results.description':
+    '当前共上传 {count} 个 SVG。选择下方文件可查看并调整其 id 与作用域信息。',
+  'results.fileList': '文件列表',
+  'results.processing': '{fileName} 正在处理，请稍候…',
+  'results.errorHint': '请检查文件内容或换用其它 SVG 文件。',
+  'results.selectHint': '请选择一个文件以查看详细信息。',
+
+  'status.scopedBefore': '原始样式已作用域',
+  'status.conflictBefore': '原始样式存在冲突',
+  'status.scopedAfter': '已完成作用域处理',
+  'status.unscopedAfter': '仍有选择器未自动处理',
+  'status.changed': '已更新 id / 样式',
+  'status.unchanged': '无需修改',
+  'status.visualSame': '渲染结果一致',
+  'status.visualChanged': '渲染结果有 {percent}% 像素不同',
+  'status.visualPending': '正在比对渲染结果',
+
+  'id.currentBefore': '当前 SVG 使用的 id 为',
+  'id.currentAfter': '。可以手动输入新的 id 或点击重新生成以确保全局唯一。',
+  'id.label': '自定义 SVG id',
+  'id.placeholder': '例如：unique-icon-id',
+  'id.regenerate': '重新生成',
+  'id.strategy': '生成 id 的方式',
+  'id.strategy.random': '随机 id',
+  'id.strategy.content-hash': '按内容生成固定 id',
+  'id.strategy.path-hash': '按文件名生成固定 id',
+
+  'strategy.title': '作用域方式',
+  'strategy.id-prefix': '#id 前缀',
+  'strategy.class-namespace': '类名命名空间',
+  'strategy.id-prefix.hint': '选择器统一前置 #{id}，类名保持不变。',
+  'strategy.class-namespace.hint':
+    '类名改为 {id}__cls-1 这样的形式，不增加选择器优先级，宿主页面的样式可以直接覆盖；没有类名的选择器仍会前置 #id。',
+
+  'namespaceIds.label': '为内部元素 id 加命名空间',
+  'namespaceIds.hint':
+    '把 linearGradient-1 等内部 id 改为 {id}--linearGradient-1，并同步更新 url(#...)、href、xlink:href、CSS #id 与 SMIL begin / end 引用，避免多个 SVG 内联到同一页面时互相冲突。',
+  'namespaceIds.preservedLabel':
+    '额外保留原名的 id（识别到的液位元素始终保留，这里填写运行时代码按固定 id 查询的其他元素）',
+  'namespaceIds.preservedPlaceholder': '例如：valve, pump-1',
+
+  'levelRules.title': '液位元素识别规则',
+  'levelRules.hint':
+    '满足任一规则的元素会被识别为液位元素。id 支持 * 通配符，正则匹配 id，属性规则要求元素带有该属性；元素类型留空时只识别 rect。',
+  'levelRules.kindLabel': '规则类型',
+  'levelRules.kind.id': 'id',
+  'levelRules.kind.id-regex': 'id 正则',
+  'levelRules.kind.attribute': '属性',
+  'levelRules.kind.class': '类名',
+  'levelRules.value': '匹配值',
+  'levelRules.elements': '元素类型',
+  'levelRules.elementsPlaceholder': 'rect, path, polygon',
+  'levelRules.add': '添加规则',
+  'levelRules.remove': '删除规则',
+  'levelRules.apply': '应用到全部文件',
+  'diff.title': '改动对比',
+  'diff.stats': '+{added} / −{removed} 行',
+  'diff.noChanges': '格式化后处理前后的内容一致。',
+  'diff.expand': '展开 {count} 行未改动的内容',
+  'diff.before': '原始',
+  'diff.after': '处理后',
+  'workspace.title': '项目',
+  'workspace.description':
+    '上传的文件、设置与处理结果会自动保存在浏览器中，刷新页面后恢复；可在多个项目之间切换，或导出为 JSON 文件。',
+  'workspace.select': '当前项目',
+  'workspace.option': '{name}（{count} 个文件）',
+  'workspace.name': '项目名称',
+  'workspace.defaultName': '默认项目',
+  'workspace.untitled': '未命名项目',
+  'workspace.new': '新建项目',
+  'workspace.export': '导出 JSON',
+  'workspace.import': '导入 JSON',
+  'workspace.delete': '删除项目',
+  'workspace.deleteConfirm': '确定删除项目“{name}”？其中的文件与设置将无法恢复。',
+  'workspace.unavailable': '浏览器不支持或禁用了 IndexedDB，刷新页面后文件不会保留。',
+  'workspace.saveFailed': '保存项目失败，最近的改动可能没有保存。',
+  'workspace.importFailed': '无法识别该文件，请选择由本工具导出的项目 JSON。',
+  'workspace.importWarnings': '已忽略 {count} 项无效的液位设置：{items}',
+  'bulk.selectAll': '全选',
+  'bulk.select': '选择 {fileName}',
+  'bulk.selected': '已选择 {count} 个文件',
+  'bulk.idPattern': 'id 模式',
+  'bulk.idPatternHint':
+    '可用占位符：{basename} 文件名（不含扩展名）、{index} 在所选文件中的序号（{index:3} 补零到 3 位）、{id} 当前 id。',
+  'bulk.levelSeconds': '液位过渡时间（s）',
+  'bulk.apply': '应用',
+  'bulk.reprocess': '重新处理',
+  'bulk.download': '下载 ZIP',
+  'bulk.remove': '移除',
+  'collision.title': '批量冲突检查',
+  'collision.count': '{count} 项',
+  'collision.none': '未发现冲突',
+  'collision.noneHint': '所有文件的根 id 与内部 id 互不重复，也没有对整个页面生效的规则。',
+  'collision.rootIds': '重复的根 id',
+  'collision.regenerate': '重新生成 id',
+  'collision.elementIds': '跨文件重复的内部元素 id',
+  'collision.namespace': '为内部 id 加命名空间',
+  'collision.preservedHint':
+    '已启用内部 id 命名空间，仍然重复的是保留原名的 id（如液位元素），需要手动改名。',
+  'collision.globalRules': '仍对整个页面生效的规则',
+  'collision.classConflicts': '定义不同的同名类',
+  'collision.isolated': '已隔离',
+  'collision.conflicting': '会互相覆盖',
+  'diff.heatmap': '差异热力图（{percent}%）',
+  'diff.threshold': '不同像素超过该比例时标记为渲染有变化',
+  'diff.previewHint':
+    '两侧都以图片方式渲染，样式互不影响，可确认处理前后外观一致；对比前两侧都会格式化为每个元素、每条声明一行。',
+  'removal.title': '移除策略',
+  'removal.hint':
+    '按 CSS 属性（支持 * 通配，忽略厂商前缀）与 SVG 元素名移除可能导致闪烁的内容，保留列表优先；同名的表现属性（如 transition="..."）也会一并移除。',
+  'removal.override': '仅对当前文件单独设置',
+  'removal.stripProperties': '移除的属性',
+  'removal.keepProperties': '保留的属性',
+  'removal.stripElements': '移除的元素',
+  'removal.keepElements': '保留的元素',
+  'removal.listPlaceholder': '逗号分隔，如 animation-*, will-change',
+  'removal.preset.default': '仅 transition',
+  'removal.preset.animation': '移除所有动画',
+  'removal.apply': '应用移除策略',
+  'removal.report': '已移除 {count} 项',
+  'removal.source.style-block': '样式块',
+  'removal.source.inline-style': '内联样式',
+  'removal.source.attribute': '属性',
+  'removal.source.element': '元素',
+  'sanitize.label': '清理不可信内容',
+  'sanitize.hint':
+    '移除 <script>、on* 事件属性、外部链接、<foreignObject>、@import 与远程 url()，处理结果可以安全地内联到页面中。',
+  'sanitize.allowElements': '保留的元素',
+  'sanitize.allowElementsPlaceholder': '逗号分隔，如 foreignObject',
+  'sanitize.allowAttributes': '保留的事件属性',
+  'sanitize.allowAttributesPlaceholder': '逗号分隔，如 onclick',
+  'sanitize.allowUrls': '允许的 URL 前缀',
+  'sanitize.allowUrlsPlaceholder': '逗号分隔，如 https://cdn.example.com/',
+  'sanitize.report': '已清理 {count} 项',
+  'sanitize.reason.script': '脚本',
+  'sanitize.reason.foreign-object': 'foreignObject',
+  'sanitize.reason.event-handler': '事件属性',
+  'sanitize.reason.external-href': '外部链接',
+  'sanitize.reason.css-import': '@import',
+  'sanitize.reason.remote-url': '远程 url()',
+  'optimize.label': '优化输出',
+  'optimize.hint':
+    '移除 Inkscape / Illustrator 等编辑器留下的元数据、注释与空组，数值取整并压缩 CSS；液位元素的几何属性保持原值。',
+  'optimize.removeEditorData': '编辑器元数据',
+  'optimize.removeComments': '注释',
+  'optimize.removeEmptyGroups': '空组',
+  'optimize.minifyCss': '压缩 CSS',
+  'optimize.precision': '小数位数（留空不取整）',
+  'optimize.size': '大小：{before} → {after}（{change}）',
+  'optimize.stats':
+    '移除编辑器数据 {editorData} 项、注释 {comments} 条、空组 {emptyGroups} 个，取整 {numbers} 个属性，压缩样式 {styles} 处',
+
+  'classes.title': '样式类名',
+  'classes.empty': '未检测到 `.cls-*` 类名。',
+  'keyframes.title': '动画关键帧',
+
+  'warnings.title': '无法自动处理的样式',
+  'warnings.count': '{count} 处',
+  'warnings.line': '第 {line} 行',
+  'warnings.group.css-parse-error': '样式无法解析',
+  'warnings.group.foreign-id-selector': '选择器包含其他 #id',
+  'warnings.group.html-body-selector': '依赖宿主页面的 html / body',
+  'warnings.group.unscopable-atrule': '无法限定作用域的 @规则',
+  'warnings.group.unsupported-atrule': '暂不支持的 @规则',
+  'warnings.group.level-rotate-removed': '液位改变方向后去掉了旧的 rotate(180)',
+
+  'warning.css-parse-error':
+    '无法解析样式文本，已跳过自动作用域处理。请手动检查这段 CSS。',
+  'warning.foreign-id-selector':
+    '选择器 "{selector}" 中已经存在其他 #id，将跳过自动作用域处理。',
+  'warning.html-body-selector':
+    '选择器 "{selector}" 依赖宿主页面的 <{element}>，无法限定到当前 SVG，已跳过。',
+  'warning.unscopable-atrule':
+    '@{atrule} 对整个页面生效，无法限定到当前 SVG，已原样保留。',
+  'warning.unsupported-atrule':
+    '暂不支持为 @{atrule} 中的规则添加作用域，已原样保留。',
+  'warning.level-rotate-removed':
+    '液位 {key} 改为 {direction} 方向，已去掉旧版本自下而上填充时添加的 rotate(180)。只改 height 的运行时代码需要按 levelRects 的方向与锚点更新。',
+
+  'config.load': '加载配置',
+  'config.export': '导出配置',
+  'config.clear': '停用配置',
+  'config.active': '新上传的文件按配置 {name} 处理。',
+  'config.failed': '配置文件 {name} 有 {count} 处问题：',
+  'config.invalid-json': '配置文件不是有效的 JSON：{detail}',
+  'config.invalid-type': '{path} 需要是 {expected}，实际是 {actual}。',
+  'config.invalid-value': '{path} 的值 "{value}" 无效，可用值：{allowed}。',
+  'config.invalid-regex': '{path} 的正则表达式 "{value}" 无效：{detail}',
+  'config.unknown-key': '未知字段 {path}，可用字段：{allowed}。',
+  'config.unknown-key-suggestion': '未知字段 {path}，是否想写 {suggestion}？',
+  'error.xml-parse-error': '无法解析 SVG 文件，请确认文件是否正确。',
+  'error.missing-svg-root': '文件中没有找到 <svg> 根节点。',
+  'error.empty-id': 'SVG id 为空且无法自动生成，请手动提供一个有效的 id。',
+  'error.process-failed': '无法处理该 SVG 文件。',
+  'error.read-failed': '读取文件时发生错误，请重试。',
+  'error.clipboard-failed': '无法写入剪贴板，请确认浏览器权限后重试。',
+
+  'binding.header': '由 svg-scope 生成（#{id}），请勿手动修改',
+  'binding.headerFrom': '由 svg-scope 根据 {fileName} 生成（#{id}），请勿手动修改',
+  'binding.setLevel': '按 0–1 的比例设置液位，超出范围的值会被截断；',
+  'binding.setLevelDetail':
+    'rect 直接改尺寸（btt 同步改 y，rtl 同步改 x），其他形状改 scaleX / scaleY',
+  'binding.returns': '是否找到了对应的液位元素',
+  'binding.missingSize': '原 SVG 里缺少对应尺寸时无法换算，需先在 SVG 里补上',
+
+  'cli.usage': `Usage: svg-scope <in-dir> --out <dir> [options]
+
+Options:
+  -o, --out <dir>           输出目录（保持输入目录的相对结构）
+  -c, --config <file>       读取 {configFile}，命令行参数优先于配置文件
+      --level-seconds <n>   液位元素默认过渡秒数（默认 {seconds}，0 表示不做动画）
+      --level-easing <fn>   液位过渡的 timing-function，如 ease-in-out、cubic-bezier(.4,0,.2,1)、steps(4)
+      --level-delay <n>     液位过渡的延迟秒数
+      --level-rule <rule>   液位元素识别规则，可重复：id:tank-*、regex:^lvl\\d+$、
+                            attr:data-level、class:level，末尾可加 @rect,path 指定元素类型
+      --level-direction <dir>
+                            液位填充方向：btt（默认）、ttb、ltr、rtl；写成 <key>=<dir>
+                            只作用于该液位（id 或 rect-1 这样的 key），可重复
+      --binding <ts|js>     为含液位元素的文件额外输出同名的 .level.ts / .level.js 绑定模块
+      --force-new-id        忽略原有 id，为每个文件重新生成
+      --id-template <tpl>   根 id 模板，如 {basename}-{index}、{basename}-{index:3}
+      --id-strategy <mode>  生成 id 的方式：random（默认）、content-hash、path-hash
+      --scope-strategy <mode>
+                            作用域方式：id-prefix（默认，前置 #id）、class-namespace（类名改为 <svg-id>__<name>）
+      --namespace-ids       为内部元素 id 加上 <svg-id>-- 前缀，并同步更新所有引用
+      --preserve-id <id>    与 --namespace-ids 配合，保留该 id 不改名（可重复，液位元素总是保留）
+      --strip-animations    额外移除 animation、will-change 与 SMIL 动画元素（animate、set 等）
+      --strip <prop>        额外移除的 CSS 属性，支持 * 通配，如 animation-*（可重复）
+      --keep <prop>         保留的 CSS 属性，优先于移除列表（可重复）
+      --strip-element <el>  额外移除的 SVG 元素，如 animate（可重复）
+      --keep-element <el>   保留的 SVG 元素，优先于移除列表（可重复）
+      --sanitize            清理不可信内容：移除脚本、on* 事件属性、外部链接、foreignObject、@import 与远程 url()
+      --sanitize-allow-element <el>
+                            清理时保留的元素，如 foreignObject（可重复，隐含 --sanitize）
+      --sanitize-allow-attribute <name>
+                            清理时保留的事件属性，如 onclick（可重复，隐含 --sanitize）
+      --sanitize-allow-url <prefix>
+                            清理时允许的 URL 前缀，如 https://cdn.example.com/（可重复，隐含 --sanitize）
+      --optimize            输出前优化：移除编辑器元数据与注释、空组，数值取整，压缩 CSS
+      --optimize-skip <step>
+                            跳过某一步优化：editor-data、comments、empty-groups、precision、css
+                            （可重复，隐含 --optimize）
+      --precision <n>       数值保留的小数位数（0–{precisionMax}，默认 {precision}，隐含 --optimize）
+      --removal-report      逐条输出被移除的声明、属性与元素，以及被清理的内容
+      --visual-check        光栅化处理前后的 SVG 并比较，外观有变化的文件视为失败
+      --visual-threshold <ratio>
+                            不同像素占比超过该值（0–1，默认 {threshold}）时视为外观有变化
+      --visual-heatmap      为外观有变化的文件额外输出 <name>.svg.diff.png 差异热力图
+      --locale <zh-CN|en>   输出语言，默认按 SVG_SCOPE_LOCALE、LC_ALL、LC_MESSAGES、LANG 环境变量选择
+  -q, --quiet               只输出失败与警告
+  -h, --help                显示帮助`,
+  'cli.unscoped': '仍有选择器未自动处理（#{id}）',
+  'cli.size': '（{before} → {after}）',
+  'cli.visualChanged': '处理前后外观不一致（{percent}% 像素不同）',
+  'cli.configReadFailed': '无法读取配置文件：{file}',
+  'cli.nonNegative': '{option} 需要是非负数字：{value}',
+  'cli.number': '{option} 需要是数字：{value}',
+  'cli.unknownValue': '无法识别的 {option}：{value}',
+  'cli.choice': '{option} 只能是 {allowed}：{value}',
+  'cli.directionChoice': '{option} 只能是 {allowed}（或 <key>=<dir>）：{value}',
+  'cli.range': '{option} 需要是 {min} 到 {max} 之间的数字：{value}',
+  'cli.integerRange': '{option} 需要是 {min} 到 {max} 之间的整数：{value}',
+  'cli.inputMissing': '输入目录不存在：{dir}',
+  'cli.noSvgFiles': '目录中没有找到 .svg 文件：{dir}',
+  'cli.summary':
+    '共处理 {total} 个文件：失败 {failed} 个，未完全作用域 {unscoped} 个{visual}。',
+  'cli.summaryVisual': '，外观有变化 {count} 个',
+
+  'source.title': '原始 SVG 源码',
+  'preview.title': '预览',
+  'actions.download': '下载修正后的 SVG',
+  'actions.copy': '复制代码',
+  'actions.copied': '已复制',
+  'actions.downloadBinding': '液位绑定代码（.{extension}）',
+  'actions.downloadBindingHint':
+    '下载与 SVG 同名的运行时模块，用 setLevel(svgEl, "level1", 0.42) 按 0–1 的比例设置液位',
+
+  'level.summary': '高级设置：液位动画 / 演示（{ids}）',
+  'level.hint':
+    '可分别设置每个液位元素的过渡时间（单位：秒；填 0 表示不做动画）与填充方向，展开后还可设置过渡属性、缓动（cubic-bezier / steps）与延迟。rect 按方向过渡 height / width（自下而上同步改 y，从右到左同步改 x），其他形状以起始边为原点过渡 transform。',
+  'level.secondsLabel': '{name} 过渡时间（s）',
+  'level.directionLabel': '{name} 填充方向',
+  'level.calibration.min': '空液位',
+  'level.calibration.max': '满液位',
+  'level.calibration.minPlaceholder': '默认 0',
+  'level.calibration.maxPlaceholder': '默认原始尺寸',
+  'level.transitionAdvanced': '过渡属性 / 缓动 / 延迟',
+  'level.property': '过渡属性',
+  'level.propertyPlaceholder': '留空按填充方向自动选择',
+  'level.timingFunction': 'timing-function',
+  'level.timingFunctionInvalid':
+    '无法识别的 timing-function，导出时会按 ease 处理。支持 ease、linear、cubic-bezier(...)、steps(...) 等。',
+  'level.delay': '延迟（s）',
+  'level.direction.btt': '自下而上',
+  'level.direction.ttb': '自上而下',
+  'level.direction.ltr': '从左到右',
+  'level.direction.rtl': '从右到左',
+  'level.apply': '应用液位动画',
+  'level.applyHint': '更新导出 SVG 内液位元素的内联 transition 与 transform。',
+  'level.demoTitle': '液位演示',
+  'level.demoHint':
+    '点击“随机演示”会在预览中按各自的填充方向随机修改液位，并按上方设置的秒数播放动画（仅影响预览，不会写入导出代码）。',
+  'level.demo': '随机演示',
+
+  'help.title': '如何使用',
+  'help.description': '还没有上传文件，点击上方上传区域即可开始。',
+  'help.step1': '1. 上传需要检测的 SVG 文件，本工具会分析 <style> 中的类名。',
+  'help.step2': '2. 若发现样式未作用域，会自动为每个选择器添加 #id 前缀。',
+  'help.step3':
+    '3. 下载修正后的 SVG 或复制源码，把它部署到 Vercel 等静态站点上即可避免样式冲突。',
+}
+
+export type MessageKey = keyof typeof zhCN
+
+const en: Record<MessageKey, string> = {
+  'app.tagline':
+    'Upload SVGs to detect and fix style scoping automatically, ready to deploy on Vercel and similar platforms.',
+  'app.language': 'Language',
+  'list.separator': ', ',
+
+  'upload.button': 'Upload SVG',
+  'upload.title': 'Upload SVG files',
+  'upload.description':
+    'Works with multiple SVGs exported from design tools. Classes such as `.cls-*` are checked for scoping and prefixed with the matching id selector.',
+  'upload.dropzone': 'Click or drop files here to upload',
+  'upload.hint': 'Only .svg files. Select several files at once to fix them in bulk.',
+  'upload.count': '{count} file(s) uploaded',
+  'upload.choose': 'Choose files',
+  'upload.parsing': 'Parsing files…',
+
+  'results.title': 'Results',
+  'results.description':
+    '{count} SVG(s) uploaded. Select a file below to review and adjust its id and scoping.',
+  'results.fileList': 'Files',
+  'results.processing': 'Processing {fileName}, please wait…',
+  'results.errorHint': 'Check the file content or try another SVG file.',
+  'results.selectHint': 'Select a file to see its details.',
+
+  'status.scopedBefore': 'Original styles already scoped',
+  'status.conflictBefore': 'Original styles may conflict',
+  'status.scopedAfter': 'Scoping complete',
+  'status.unscopedAfter': 'Some selectors need manual fixes',
+  'status.changed': 'Id / styles updated',
+  'status.unchanged': 'No changes needed',
+  'status.visualSame': 'Rendering unchanged',
+  'status.visualChanged': 'Rendering differs in {percent}% of pixels',
+  'status.visualPending': 'Comparing renderings',
+
+  'id.currentBefore': 'This SVG currently uses the id ',
+  'id.currentAfter':
+    '. Enter a new id or regenerate one to keep it globally unique.',
+  'id.label': 'Custom SVG id',
+  'id.placeholder': 'e.g. unique-icon-id',
+  'id.regenerate': 'Regenerate',
+  'id.strategy': 'How ids are generated',
+  'id.strategy.random': 'Random id',
+  'id.strategy.content-hash': 'Stable id from the content',
+  'id.strategy.path-hash': 'Stable id from the file name',
+
+  'strategy.title': 'Scoping strategy',
+  'strategy.id-prefix': '#id prefix',
+  'strategy.class-namespace': 'Class namespace',
+  'strategy.id-prefix.hint':
+    'Every selector is prefixed with #{id}; class names stay unchanged.',
+  'strategy.class-namespace.hint':
+    'Classes are renamed to the form {id}__cls-1 without raising specificity, so host-page styles can still override them. Selectors without classes are still prefixed with #id.',
+
+  'namespaceIds.label': 'Namespace internal element ids',
+  'namespaceIds.hint':
+    'Renames internal ids such as linearGradient-1 to {id}--linearGradient-1 and updates url(#...), href, xlink:href, CSS #id and SMIL begin / end references, so SVGs inlined on the same page do not collide.',
+  'namespaceIds.preservedLabel':
+    'Extra ids to keep as-is (detected level elements are always kept; list other elements looked up by fixed id at runtime)',
+  'namespaceIds.preservedPlaceholder': 'e.g. valve, pump-1',
+
+  'levelRules.title': 'Level element detection rules',
+  'levelRules.hint':
+    'Elements matching any rule are treated as level elements. Ids accept * wildcards, regex rules match the id, attribute rules require the attribute to be present; empty element types match rect only.',
+  'levelRules.kindLabel': 'Rule type',
+  'levelRules.kind.id': 'Id',
+  'levelRules.kind.id-regex': 'Id regex',
+  'levelRules.kind.attribute': 'Attribute',
+  'levelRules.kind.class': 'Class',
+  'levelRules.value': 'Value',
+  'levelRules.elements': 'Element types',
+  'levelRules.elementsPlaceholder': 'rect, path, polygon',
+  'levelRules.add': 'Add rule',
+  'levelRules.remove': 'Remove rule',
+  'levelRules.apply': 'Apply to all files',
+  'diff.title': 'Before / after diff',
+  'diff.stats': '+{added} / −{removed} lines',
+  'diff.noChanges': 'No differences after formatting.',
+  'diff.expand': 'Show {count} unchanged lines',
+  'diff.before': 'Original',
+  'diff.after': 'Scoped',
+  'workspace.title': 'Project',
+  'workspace.description':
+    'Uploaded files, settings and results are saved in the browser automatically and restored after a reload; switch between projects or export one as a JSON file.',
+  'workspace.select': 'Current project',
+  'workspace.option': '{name} ({count} files)',
+  'workspace.name': 'Project name',
+  'workspace.defaultName': 'Default project',
+  'workspace.untitled': 'Untitled project',
+  'workspace.new': 'New project',
+  'workspace.export': 'Export JSON',
+  'workspace.import': 'Import JSON',
+  'workspace.delete': 'Delete project',
+  'workspace.deleteConfirm':
+    'Delete project "{name}"? Its files and settings cannot be recovered.',
+  'workspace.unavailable':
+    'IndexedDB is unavailable or disabled, so files will not survive a reload.',
+  'workspace.saveFailed':
+    'Saving the project failed; recent changes may not have been saved.',
+  'workspace.importFailed':
+    'This file is not recognized; choose a project JSON exported by this tool.',
+  'workspace.importWarnings':
+    'Ignored {count} invalid level setting(s): {items}',
+  'bulk.selectAll': 'Select all',
+  'bulk.select': 'Select {fileName}',
+  'bulk.selected': '{count} files selected',
+  'bulk.idPattern': 'Id pattern',
+  'bulk.idPatternHint':
+    'Placeholders: {basename} file name without extension, {index} position among the selected files ({index:3} pads to 3 digits), {id} current id.',
+  'bulk.levelSeconds': 'Level transition (s)',
+  'bulk.apply': 'Apply',
+  'bulk.reprocess': 'Reprocess',
+  'bulk.download': 'Download ZIP',
+  'bulk.remove': 'Remove',
+  'collision.title': 'Batch collision check',
+  'collision.count': '{count} issues',
+  'collision.none': 'No collisions',
+  'collision.noneHint':
+    'Root and internal ids are unique across files and no rule applies to the whole page.',
+  'collision.rootIds': 'Duplicate root ids',
+  'collision.regenerate': 'Regenerate ids',
+  'collision.elementIds': 'Internal element ids shared across files',
+  'collision.namespace': 'Namespace internal ids',
+  'collision.preservedHint':
+    'Internal ids are already namespaced; the remaining duplicates keep their original names (such as level elements) and must be renamed by hand.',
+  'collision.globalRules': 'Rules that still apply to the whole page',
+  'collision.classConflicts': 'Shared class names with different definitions',
+  'collision.isolated': 'Isolated',
+  'collision.conflicting': 'Overrides each other',
+  'diff.heatmap': 'Difference heatmap ({percent}%)',
+  'diff.threshold': 'Flag the rendering as changed above',
+  'diff.previewHint':
+    'Both sides render as images so their styles cannot interfere, letting you confirm nothing changed visually; both sides are formatted one element / declaration per line before diffing.',
+  'removal.title': 'Removal policy',
+  'removal.hint':
+    'Strips content that may cause flicker by CSS property (supports * wildcards, ignores vendor prefixes) and SVG element name; the keep lists win. Presentation attributes with the same name (e.g. transition="...") are removed too.',
+  'removal.override': 'Use a separate policy for this file',
+  'removal.stripProperties': 'Properties to strip',
+  'removal.keepProperties': 'Properties to keep',
+  'removal.stripElements': 'Elements to strip',
+  'removal.keepElements': 'Elements to keep',
+  'removal.listPlaceholder': 'Comma separated, e.g. animation-*, will-change',
+  'removal.preset.default': 'Transitions only',
+  'removal.preset.animation': 'All animations',
+  'removal.apply': 'Apply removal policy',
+  'removal.report': '{count} item(s) removed',
+  'removal.source.style-block': 'Style block',
+  'removal.source.inline-style': 'Inline style',
+  'removal.source.attribute': 'Attribute',
+  'removal.source.element': 'Element',
+  'sanitize.label': 'Sanitize untrusted content',
+  'sanitize.hint':
+    'Removes <script>, on* event handlers, external links, <foreignObject>, @import and remote url() so the result is safe to inline.',
+  'sanitize.allowElements': 'Elements to keep',
+  'sanitize.allowElementsPlaceholder': 'Comma separated, e.g. foreignObject',
+  'sanitize.allowAttributes': 'Event handlers to keep',
+  'sanitize.allowAttributesPlaceholder': 'Comma separated, e.g. onclick',
+  'sanitize.allowUrls': 'Allowed URL prefixes',
+  'sanitize.allowUrlsPlaceholder':
+    'Comma separated, e.g. https://cdn.example.com/',
+  'sanitize.report': '{count} item(s) sanitized',
+  'sanitize.reason.script': 'Script',
+  'sanitize.reason.foreign-object': 'foreignObject',
+  'sanitize.reason.event-handler': 'Event handler',
+  'sanitize.reason.external-href': 'External link',
+  'sanitize.reason.css-import': '@import',
+  'sanitize.reason.remote-url': 'Remote url()',
+  'optimize.label': 'Optimize output',
+  'optimize.hint':
+    'Removes editor metadata left by Inkscape / Illustrator, comments and empty groups, rounds numbers and minifies CSS; level element geometry is kept as is.',
+  'optimize.removeEditorData': 'Editor metadata',
+  'optimize.removeComments': 'Comments',
+  'optimize.removeEmptyGroups': 'Empty groups',
+  'optimize.minifyCss': 'Minify CSS',
+  'optimize.precision': 'Decimal places (empty to skip rounding)',
+  'optimize.size': 'Size: {before} → {after} ({change})',
+  'optimize.stats':
+    'Removed {editorData} editor item(s), {comments} comment(s), {emptyGroups} empty group(s); rounded {numbers} attribute(s); minified {styles} style(s)',
+
+  'classes.title': 'Classes',
+  'classes.empty': 'No `.cls-*` classes found.',
+  'keyframes.title': 'Keyframes',
+
+  'warnings.title': 'Styles that could not be handled automatically',
+  'warnings.count': '{count} occurrence(s)',
+  'warnings.line': 'line {line}',
+  'warnings.group.css-parse-error': 'Unparsable styles',
+  'warnings.group.foreign-id-selector': 'Selectors with another #id',
+  'warnings.group.html-body-selector': 'Selectors relying on host html / body',
+  'warnings.group.unscopable-atrule': 'Unscopable at-rules',
+  'warnings.group.unsupported-atrule': 'Unsupported at-rules',
+  'warnings.group.level-rotate-removed':
+    'Legacy rotate(180) removed after a direction change',
+
+  'warning.css-parse-error':
+    'The stylesheet could not be parsed and was left unscoped. Please check this CSS manually.',
+  'warning.foreign-id-selector':
+    'Selector "{selector}" already contains another #id and was left unscoped.',
+  'warning.html-body-selector':
+    'Selector "{selector}" depends on the host page <{element}> and cannot be scoped to this SVG; it was skipped.',
+  'warning.unscopable-atrule':
+    '@{atrule} applies to the whole page and cannot be scoped to this SVG; it was kept as-is.',
+  'warning.unsupported-atrule':
+    'Rules inside @{atrule} cannot be scoped yet and were kept as-is.',
+  'warning.level-rotate-removed':
+    'Level {key} now fills {direction}, so the rotate(180) added by earlier bottom-to-top output was removed. Runtime code that only sets height must follow the direction and anchor in levelRects.',
+
+  'config.load': 'Load config',
+  'config.export': 'Export config',
+  'config.clear': 'Stop using config',
+  'config.active': 'New uploads are processed with config {name}.',
+  'config.failed': 'Config file {name} has {count} issue(s):',
+  'config.invalid-json': 'The config file is not valid JSON: {detail}',
+  'config.invalid-type': '{path} must be {expected}, got {actual}.',
+  'config.invalid-value':
+    '{path} has invalid value "{value}"; allowed: {allowed}.',
+  'config.invalid-regex':
+    '{path} has an invalid regular expression "{value}": {detail}',
+  'config.unknown-key': 'Unknown field {path}; allowed fields: {allowed}.',
+  'config.unknown-key-suggestion':
+    'Unknown field {path}; did you mean {suggestion}?',
+  'error.xml-parse-error':
+    'The SVG file could not be parsed. Please make sure it is valid.',
+  'error.missing-svg-root': 'No <svg> root element was found in the file.',
+  'error.empty-id':
+    'The SVG id is empty and could not be generated. Please provide a valid id.',
+  'error.process-failed': 'This SVG file could not be processed.',
+  'error.read-failed': 'Failed to read the file. Please try again.',
+  'error.clipboard-failed':
+    'Could not write to the clipboard. Please check the browser permissions and try again.',
+
+  'binding.header': 'Generated by svg-scope (#{id}). Do not edit by hand.',
+  'binding.headerFrom':
+    'Generated by svg-scope from {fileName} (#{id}). Do not edit by hand.',
+  'binding.setLevel':
+    'Sets the level as a 0–1 ratio; out-of-range values are clamped.',
+  'binding.setLevelDetail':
+    'Rects change their size (btt also moves y, rtl also moves x); other shapes change scaleX / scaleY',
+  'binding.returns': 'whether the level element was found',
+  'binding.missingSize':
+    'The size cannot be computed when the source SVG lacks it; add it to the SVG first',
+
+  'cli.usage': `Usage: svg-scope <in-dir> --out <dir> [options]
+
+Options:
+  -o, --out <dir>           Output directory (keeps the relative layout of the input)
+  -c, --config <file>       Read {configFile}; command-line options take precedence
+      --level-seconds <n>   Default level transition in seconds (default {seconds}, 0 disables the animation)
+      --level-easing <fn>   Level transition timing function, e.g. ease-in-out, cubic-bezier(.4,0,.2,1), steps(4)
+      --level-delay <n>     Level transition delay in seconds
+      --level-rule <rule>   Level element detection rule, repeatable: id:tank-*, regex:^lvl\\d+$,
+                            attr:data-level, class:level; append @rect,path to limit the element types
+      --level-direction <dir>
+                            Level fill direction: btt (default), ttb, ltr, rtl; <key>=<dir>
+                            applies to that level only (an id or a key like rect-1), repeatable
+      --binding <ts|js>     Also write a .level.ts / .level.js binding module for files with level elements
+      --force-new-id        Ignore existing ids and generate a new one for every file
+      --id-template <tpl>   Root id template, e.g. {basename}-{index}, {basename}-{index:3}
+      --id-strategy <mode>  How ids are generated: random (default), content-hash, path-hash
+      --scope-strategy <mode>
+                            Scoping mode: id-prefix (default, prepends #id), class-namespace (classes become <svg-id>__<name>)
+      --namespace-ids       Prefix internal element ids with <svg-id>-- and update every reference
+      --preserve-id <id>    With --namespace-ids, keep this id unchanged (repeatable; level elements are always kept)
+      --strip-animations    Also remove animation, will-change and SMIL animation elements (animate, set, ...)
+      --strip <prop>        Extra CSS property to remove, * wildcards allowed, e.g. animation-* (repeatable)
+      --keep <prop>         CSS property to keep, overrides the strip list (repeatable)
+      --strip-element <el>  Extra SVG element to remove, e.g. animate (repeatable)
+      --keep-element <el>   SVG element to keep, overrides the strip list (repeatable)
+      --sanitize            Clean untrusted content: remove scripts, on* handlers, external links, foreignObject, @import and remote url()
+      --sanitize-allow-element <el>
+                            Element to keep while sanitizing, e.g. foreignObject (repeatable, implies --sanitize)
+      --sanitize-allow-attribute <name>
+                            Event handler to keep while sanitizing, e.g. onclick (repeatable, implies --sanitize)
+      --sanitize-allow-url <prefix>
+                            URL prefix to allow while sanitizing, e.g. https://cdn.example.com/ (repeatable, implies --sanitize)
+      --optimize            Optimize the output: remove editor metadata, comments and empty groups, round numbers, minify CSS
+      --optimize-skip <step>
+                            Skip an optimization step: editor-data, comments, empty-groups, precision, css
+                            (repeatable, implies --optimize)
+      --precision <n>       Decimal places to keep (0–{precisionMax}, default {precision}, implies --optimize)
+      --removal-report      List every removed declaration, attribute and element, and everything sanitized
+      --visual-check        Rasterize the SVG before and after processing; files that look different fail
+      --visual-threshold <ratio>
+                            Ratio of differing pixels (0–1, default {threshold}) above which a file counts as changed
+      --visual-heatmap      Also write <name>.svg.diff.png heatmaps for files that look different
+      --locale <zh-CN|en>   Output language; defaults to the SVG_SCOPE_LOCALE, LC_ALL, LC_MESSAGES or LANG environment variable
+  -q, --quiet               Only print failures and warnings
+  -h, --help                Show this help`,
+  'cli.unscoped': 'some selectors could not be scoped automatically (#{id})',
+  'cli.size': ' ({before} → {after})',
+  'cli.visualChanged':
+    'appearance changed after processing ({percent}% of pixels differ)',
+  'cli.configReadFailed': 'Cannot read config file: {file}',
+  'cli.nonNegative': '{option} must be a non-negative number: {value}',
+  'cli.number': '{option} must be a number: {value}',
+  'cli.unknownValue': 'Unrecognized {option}: {value}',
+  'cli.choice': '{option} must be one of {allowed}: {value}',
+  'cli.directionChoice':
+    '{option} must be one of {allowed} (or <key>=<dir>): {value}',
+  'cli.range': '{option} must be a number from {min} to {max}: {value}',
+  'cli.integerRange':
+    '{option} must be an integer from {min} to {max}: {value}',
+  'cli.inputMissing': 'Input directory does not exist: {dir}',
+  'cli.noSvgFiles': 'No .svg files found in: {dir}',
+  'cli.summary':
+    'Processed {total} files: {failed} failed, {unscoped} not fully scoped{visual}.',
+  'cli.summaryVisual': ', {count} with visual changes',
+
+  'source.title': 'Original SVG source',
+  'preview.title': 'Preview',
+  'actions.download': 'Download fixed SVG',
+  'actions.copy': 'Copy code',
+  'actions.copied': 'Copied',
+  'actions.downloadBinding': 'Level binding (.{extension})',
+  'actions.downloadBindingHint':
+    'Download a runtime module named after the SVG; call setLevel(svgEl, "level1", 0.42) to set a level from a 0–1 ratio',
+
+  'level.summary': 'Advanced: level animation / demo ({ids})',
+  'level.hint':
+    'Set the transition duration (in seconds; 0 disables the animation) and fill direction of each level element; expand a level to set the property, easing (cubic-bezier / steps) and delay. Rects transition height / width depending on the direction (bottom to top also moves y, right to left also moves x); other shapes transition transform around their starting edge.',
+  'level.secondsLabel': '{name} transition (s)',
+  'level.directionLabel': '{name} fill direction',
+  'level.calibration.min': 'Empty',
+  'level.calibration.max': 'Full',
+  'level.calibration.minPlaceholder': 'Default 0',
+  'level.calibration.maxPlaceholder': 'Default: original size',
+  'level.transitionAdvanced': 'Property / easing / delay',
+  'level.property': 'Transition property',
+  'level.propertyPlaceholder': 'Empty: chosen by fill direction',
+  'level.timingFunction': 'timing-function',
+  'level.timingFunctionInvalid':
+    'Unrecognized timing-function; ease is used on export. Supports ease, linear, cubic-bezier(...), steps(...) and more.',
+  'level.delay': 'Delay (s)',
+  'level.direction.btt': 'Bottom to top',
+  'level.direction.ttb': 'Top to bottom',
+  'level.direction.ltr': 'Left to right',
+  'level.direction.rtl': 'Right to left',
+  'level.apply': 'Apply level animation',
+  'level.applyHint':
+    'Updates the inline transition and transform of the level elements in the exported SVG.',
+  'level.demoTitle': 'Level demo',
+  'level.demoHint':
+    '"Random demo" fills each level to a random amount along its direction and animates it with the durations above (preview only, not written to the export).',
+  'level.demo': 'Random demo',
+
+  'help.title': 'How to use',
+  'help.description': 'No files yet. Click the upload area above to get started.',
+  'help.step1':
+    '1. Upload the SVG files to check; the classes in <style> will be analysed.',
+  'help.step2':
+    '2. Unscoped styles get an #id prefix added to every selector automatically.',
+  'help.step3':
+    '3. Download the fixed SVG or copy its source and deploy it to Vercel or any static host without style conflicts.',
+}
+
+export const messages: Record<Locale, Record<MessageKey, string>> = {
+  'zh-CN': zhCN,
+  en,
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.value === value)
+}
+
+/** 由 `zh-TW`、`en-US`、`zh_CN.UTF-8` 这样的语言标记选择界面语言；无法判断时返回 null */
+export function matchLocale(tag: string | null | undefined): Locale | null {
+  const language = tag?.trim().toLowerCase() ?? ''
+  if (
+    !language ||
+    language === 'c' ||
+    language.startsWith('c.') ||
+    language === 'posix'
+  ) {
+    return null
+  }
+  return language.startsWith('zh') ? 'zh-CN' : 'en'
+}
+
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+) {
+  const template = messages[locale][key] ?? messages[DEFAULT_LOCALE][key]
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.hasOwn(params, name) ? String(params[name]) : match
+  )
+}
@@ -0,0 +1,178 @@
+import { DEFAULT_LOCALE, translate, type Locale } from '@/lib/i18n'
+import type { LevelRect, SvgScopeResult } from '@/lib/svg-scope'
+
+export type LevelBindingLanguage = 'ts' | 'js'
+
+export const LEVEL_BINDING_LANGUAGES: LevelBindingLanguage[] = ['ts', 'js']
+
+export interface LevelBindingOptions {
+  language?: LevelBindingLanguage
+  /** 写进文件头注释，方便对应到源文件 */
+  fileName?: string
+  /** 生成的注释所用的语言 */
+  locale?: Locale
+}
+
+function quote(value: string) {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function formatValue(value: string | number | null) {
+  return typeof value === 'string' ? quote(value) : String(value)
+}
+
+function formatKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key)
+}
+
+// 按 CSS.escape 的规则转义属性选择器里的字符串，`"`、`\` 与控制字符都不会破坏选择器
+function escapeCssString(value: string) {
+  return Array.from(value)
+    .map((char) => {
+      const code = char.codePointAt(0) ?? 0
+      if (code === 0) return '\uFFFD'
+      if (code < 0x20 || code === 0x7f) return `\\${code.toString(16)} `
+      return char === '"' || char === '\\' ? `\\${char}` : char
+    })
+    .join('')
+}
+
+/** 运行时查找液位元素用的选择器：优先用 id，没有 id 时用 data-level-key */
+export function getLevelBindingSelector(levelRect: LevelRect) {
+  if (!levelRect.id) {
+    return `[data-level-key="${escapeCssString(levelRect.key)}"]`
+  }
+  return /^[A-Za-z_][\w-]*$/.test(levelRect.id)
+    ? `#${levelRect.id}`
+    : `[id="${escapeCssString(levelRect.id)}"]`
+}
+
+function formatLevelSpec(levelRect: LevelRect) {
+  const spec = {
+    selector: getLevelBindingSelector(levelRect),
+    tagName: levelRect.tagName,
+    direction: levelRect.direction,
+    dimension: levelRect.dimension,
+    anchor: levelRect.anchor,
+    min: levelRect.min,
+    max: levelRect.max,
+  }
+  const fields = Object.entries(spec)
+    .map(([name, value]) => `    ${name}: ${formatValue(value)},`)
+    .join('\n')
+  return `  ${formatKey(levelRect.key)}: {\n${fields}\n  },`
+}
+
+/** 由 scopeSvgContent 的结果生成 `setLevel(svgEl, key, ratio)` 运行时模块 */
+export function generateLevelBindingModule(
+  result: SvgScopeResult,
+  options: LevelBindingOptions = {}
+) {
+  const isTs = (options.language ?? 'ts') === 'ts'
+  const locale = options.locale ?? DEFAULT_LOCALE
+  const keys = result.levelRects.map((levelRect) => levelRect.key)
+  const keyUnion = keys.length ? keys.map(quote).join(' | ') : 'never'
+  const type = (annotation: string) => (isTs ? annotation : '')
+  const header = options.fileName
+    ? translate(locale, 'binding.headerFrom', {
+        fileName: options.fileName,
+        id: result.svgId,
+      })
+    : translate(locale, 'binding.header', { id: result.svgId })
+
+  const lines = [
+    `// ${header}`,
+    '',
+    `export const SVG_ID = ${quote(result.svgId)}`,
+    '',
+  ]
+
+  if (isTs) {
+    lines.push(
+      `export type LevelKey = ${keyUnion}`,
+      '',
+      'export interface LevelSpec {',
+      '  selector: string',
+      '  tagName: string',
+      "  direction: 'btt' | 'ttb' | 'ltr' | 'rtl'",
+      "  dimension: 'height' | 'width'",
+      '  anchor: number | null',
+      '  min: number',
+      '  max: number | null',
+      '}',
+      ''
+    )
+  } else {
+    lines.push(
+      `/** @typedef {${keyUnion}} LevelKey */`,
+      '/**',
+      ' * @typedef {{ selector: string, tagName: string,',
+      " *   direction: 'btt' | 'ttb' | 'ltr' | 'rtl', dimension: 'height' | 'width',",
+      ' *   anchor: number | null, min: number, max: number | null }} LevelSpec',
+      ' */',
+      '',
+      '/** @type {Record<LevelKey, LevelSpec>} */'
+    )
+  }
+
+  lines.push(
+    `export const LEVELS${type(': Record<LevelKey, LevelSpec>')} = {`,
+    ...result.levelRects.map(formatLevelSpec),
+    '}',
+    '',
+    '/**',
+    ` * ${translate(locale, 'binding.setLevel')}`,
+    ` * ${translate(locale, 'binding.setLevelDetail')}`,
+    ...(isTs
+      ? []
+      : [
+          ' * @param {SVGSVGElement} svgEl',
+          ' * @param {LevelKey} key',
+          ' * @param {number} ratio',
+          ` * @returns {boolean} ${translate(locale, 'binding.returns')}`,
+        ]),
+    ' */',
+    ...(isTs
+      ? [
+          'export function setLevel(',
+          '  svgEl: SVGSVGElement,',
+          '  key: LevelKey,',
+          '  ratio: number',
+          '): boolean {',
+        ]
+      : ['export function setLevel(svgEl, key, ratio) {']),
+    '  const spec = LEVELS[key]',
+    `  const element = spec && svgEl.querySelector${type('<SVGGraphicsElement>')}(spec.selector)`,
+    '  if (!element) return false',
+    '  const value = Math.min(Math.max(Number(ratio) || 0, 0), 1)',
+    '',
+    "  if (spec.tagName === 'rect') {",
+    `    // ${translate(locale, 'binding.missingSize')}`,
+    '    if (spec.max === null) return false',
+    '    const size = spec.min + (spec.max - spec.min) * value',
+    '    element.setAttribute(spec.dimension, String(size))',
+    '    if (spec.anchor !== null) {',
+    "      const position = spec.dimension === 'width' ? 'x' : 'y'",
+    '      element.setAttribute(position, String(spec.anchor - size))',
+    '    }',
+    '    return true',
+    '  }',
+    '',
+    '  const scale = spec.min + ((spec.max ?? 1) - spec.min) * value',
+    "  const axis = spec.dimension === 'width' ? 'scaleX' : 'scaleY'",
+    '  element.style.transform = `${axis}(${scale})`',
+    '  return true',
+    '}',
+    ''
+  )
+
+  return lines.join('\n')
+}
+
+/** 与导出 SVG 同名的绑定模块文件名，如 `tank-scoped.level.ts` */
+export function getLevelBindingFileName(
+  svgFileName: string,
+  language: LevelBindingLanguage = 'ts'
+) {
+  return `${svgFileName.replace(/\.svg$/i, '')}.level.${language}`
+}
@@ -0,0 +1,51 @@
+import {
+  DEFAULT_LEVEL_RULES,
+  detectLevelElements,
+  type LevelDetectionRule,
+} from '@/lib/level-detection'
+import { pureXmlAdapter, type XmlAdapter } from '@/lib/xml-adapter'
+import type { XmlElement } from '@/lib/xml-dom'
+
+export const LEVEL_MIN_ATTRIBUTE = 'data-level-min'
+export const LEVEL_MAX_ATTRIBUTE = 'data-level-max'
+
+/**
+ * 空 / 满液位时的取值：rect 为 height / width 的数值，其他形状为 scale 系数；
+ * null 表示不标定（空为 0，满取原始尺寸）
+ */
+export interface LevelCalibration {
+  min: number | null
+  max: number | null
+}
+
+/** 液位元素 key → 标定值 */
+export type LevelCalibrations = Record<string, LevelCalibration>
+
+function parseCalibrationValue(value: string | null) {
+  if (value === null || !value.trim()) return null
+  const num = Number(value)
+  return Number.isFinite(num) ? num : null
+}
+
+export function readLevelCalibration(element: XmlElement): LevelCalibration {
+  return {
+    min: parseCalibrationValue(element.getAttribute(LEVEL_MIN_ATTRIBUTE)),
+    max: parseCalibrationValue(element.getAttribute(LEVEL_MAX_ATTRIBUTE)),
+  }
+}
+
+export function extractLevelCalibrations(
+  svgContent: string,
+  xmlAdapter: XmlAdapter = pureXmlAdapter,
+  levelRules: readonly LevelDetectionRule[] = DEFAULT_LEVEL_RULES
+) {
+  const root = xmlAdapter.parse(svgContent)
+  const result: LevelCalibrations = {}
+  if (!root) return result
+
+  detectLevelElements(root, levelRules).forEach(({ key, element }) => {
+    result[key] = readLevelCalibration(element)
+  })
+
+  return result
+}
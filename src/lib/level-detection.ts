@@ -0,0 +1,120 @@
+import { findDescendants, type XmlElement } from '@/lib/xml-dom'
+
+export type LevelRuleKind = 'id' | 'id-regex' | 'attribute' | 'class'
+
+export interface LevelDetectionRule {
+  kind: LevelRuleKind
+  /**
+   * id：精确 id，支持 `*` 通配符（如 `tank-*-level`）；
+   * id-regex：正则表达式源码；attribute：属性名（如 `data-level`）；class：类名
+   */
+  value: string
+  /** 允许的元素类型，默认只识别 rect */
+  elements?: string[]
+}
+
+export interface LevelElementMatch {
+  /** 有 id 时就是 id，否则按文档顺序生成 `<tag>-<n>` */
+  key: string
+  id: string | null
+  element: XmlElement
+}
+
+export const LEVEL_RULE_KINDS: LevelRuleKind[] = [
+  'id',
+  'id-regex',
+  'attribute',
+  'class',
+]
+
+export const DEFAULT_LEVEL_ELEMENTS = ['rect']
+
+// 兼容旧版固定的 level / level1 / level_1 / level2，同时识别 level3 等；不匹配只有下划线的 level_
+export const DEFAULT_LEVEL_RULES: LevelDetectionRule[] = [
+  { kind: 'id-regex', value: '^level(?:_?\\d+)?$' },
+]
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function compileRule(rule: LevelDetectionRule) {
+  const value = rule.value.trim()
+  const names = (rule.elements ?? [])
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+  const elements = new Set(names.length ? names : DEFAULT_LEVEL_ELEMENTS)
+  let test: (element: XmlElement) => boolean = () => false
+
+  if (value && rule.kind === 'id') {
+    const pattern = new RegExp(
+      `^${value.split('*').map(escapeRegExp).join('.*')}$`
+    )
+    test = (element) => pattern.test(element.getAttribute('id') ?? '')
+  } else if (value && rule.kind === 'id-regex') {
+    try {
+      const pattern = new RegExp(value)
+      test = (element) => pattern.test(element.getAttribute('id') ?? '')
+    } catch {
+      // 无效的正则视为不匹配任何元素
+    }
+  } else if (value && rule.kind === 'attribute') {
+    test = (element) => element.hasAttribute(value)
+  } else if (value && rule.kind === 'class') {
+    // 同时识别 class-namespace 模式改名后的 `<svgId>__<class>`
+    test = (element) =>
+      (element.getAttribute('class') ?? '')
+        .split(/\s+/)
+        .some((name) => name === value || name.endsWith(`__${value}`))
+  }
+
+  return (element: XmlElement) =>
+    elements.has(element.localName.toLowerCase()) && test(element)
+}
+
+export function detectLevelElements(
+  root: XmlElement,
+  rules: readonly LevelDetectionRule[] = DEFAULT_LEVEL_RULES
+): LevelElementMatch[] {
+  const predicates = rules.map(compileRule)
+  const matches: LevelElementMatch[] = []
+  const seenIds = new Set<string>()
+  const anonymousCounts = new Map<string, number>()
+
+  findDescendants(root, (element) =>
+    predicates.some((predicate) => predicate(element))
+  ).forEach((element) => {
+    const id = element.getAttribute('id') || null
+    if (id) {
+      if (seenIds.has(id)) return
+      seenIds.add(id)
+      matches.push({ key: id, id, element })
+      return
+    }
+    const tag = element.localName.toLowerCase()
+    const count = (anonymousCounts.get(tag) ?? 0) + 1
+    anonymousCounts.set(tag, count)
+    matches.push({ key: `${tag}-${count}`, id: null, element })
+  })
+
+  return matches
+}
+
+// 命令行 / 配置里的简写：`id:tank-*`、`regex:^lvl\d+$`、`attr:data-level`、
+// `class:level`，可在末尾用 `@rect,path` 指定元素类型
+export function parseLevelRule(spec: string): LevelDetectionRule | null {
+  const match = spec.trim().match(/^(id|regex|attr|class):(.+?)(?:@([\w,-]+))?$/)
+  if (!match) return null
+  const kinds: Record<string, LevelRuleKind> = {
+    id: 'id',
+    regex: 'id-regex',
+    attr: 'attribute',
+    class: 'class',
+  }
+  const elements = match[3]?.split(',').filter(Boolean)
+  return {
+    kind: kinds[match[1]],
+    value: match[2],
+    ...(elements?.length ? { elements } : {}),
+  }
+}
@@ -0,0 +1,349 @@
+import {
+  DEFAULT_LEVEL_RULES,
+  detectLevelElements,
+  type LevelDetectionRule,
+} from '@/lib/level-detection'
+import { pureXmlAdapter, type XmlAdapter } from '@/lib/xml-adapter'
+
+export const DEFAULT_LEVEL_TRANSITION_SECONDS = 5
+
+export interface LevelTransition {
+  /** 为空时按填充方向自动选择（height / width、x / transform） */
+  property: string
+  /** 单位：秒，0 表示不做动画 */
+  duration: number
+  timingFunction: string
+  /** 单位：秒，可为负数 */
+  delay: number
+}
+
+/** 液位元素 key → 过渡设置 */
+export type LevelTransitions = Record<string, LevelTransition>
+
+export const DEFAULT_LEVEL_TRANSITION: LevelTransition = {
+  property: '',
+  duration: DEFAULT_LEVEL_TRANSITION_SECONDS,
+  timingFunction: 'ease',
+  delay: 0,
+}
+
+export const LEVEL_TIMING_FUNCTION_PRESETS = [
+  'ease',
+  'linear',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+  'step-start',
+  'step-end',
+  'cubic-bezier(0.25, 0.1, 0.25, 1)',
+  'steps(4, end)',
+]
+
+/** btt：自下而上（默认）；ttb：自上而下；ltr：从左到右；rtl：从右到左 */
+export type LevelFillDirection = 'btt' | 'ttb' | 'ltr' | 'rtl'
+
+/** 液位元素 key → 填充方向 */
+export type LevelFillDirections = Record<string, LevelFillDirection>
+
+export const LEVEL_FILL_DIRECTIONS: LevelFillDirection[] = [
+  'btt',
+  'ttb',
+  'ltr',
+  'rtl',
+]
+
+export const DEFAULT_LEVEL_FILL_DIRECTION: LevelFillDirection = 'btt'
+
+export function isLevelFillDirection(
+  value: string
+): value is LevelFillDirection {
+  return (LEVEL_FILL_DIRECTIONS as string[]).includes(value)
+}
+
+function splitTopLevel(value: string, separator: RegExp) {
+  const segments: string[] = []
+  let buffer = ''
+  let depth = 0
+
+  for (const ch of value) {
+    if (ch === '(') depth += 1
+    if (ch === ')' && depth > 0) depth -= 1
+
+    if (depth === 0 && separator.test(ch)) {
+      segments.push(buffer)
+      buffer = ''
+      continue
+    }
+    buffer += ch
+  }
+
+  if (buffer) segments.push(buffer)
+  return segments.map((seg) => seg.trim()).filter(Boolean)
+}
+
+function parseCssTimeToSeconds(token: string) {
+  const match = token.trim().match(/^(-?[0-9]*\.?[0-9]+)\s*(ms|s)$/i)
+  if (!match) return null
+  const value = Number.parseFloat(match[1])
+  if (!Number.isFinite(value)) return null
+  const unit = match[2].toLowerCase()
+  return unit === 'ms' ? value / 1000 : value
+}
+
+function formatCssSeconds(value: number) {
+  const rounded = Math.round(value * 1000) / 1000
+  return `${rounded}s`
+}
+
+type TimingFunction =
+  | { type: 'cubic-bezier'; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'steps'; count: number; position: StepPosition }
+
+type StepPosition = 'jump-start' | 'jump-end' | 'jump-none' | 'jump-both'
+
+const TIMING_FUNCTION_KEYWORDS: Record<string, TimingFunction> = {
+  ease: { type: 'cubic-bezier', x1: 0.25, y1: 0.1, x2: 0.25, y2: 1 },
+  linear: { type: 'cubic-bezier', x1: 0, y1: 0, x2: 1, y2: 1 },
+  'ease-in': { type: 'cubic-bezier', x1: 0.42, y1: 0, x2: 1, y2: 1 },
+  'ease-out': { type: 'cubic-bezier', x1: 0, y1: 0, x2: 0.58, y2: 1 },
+  'ease-in-out': { type: 'cubic-bezier', x1: 0.42, y1: 0, x2: 0.58, y2: 1 },
+  'step-start': { type: 'steps', count: 1, position: 'jump-start' },
+  'step-end': { type: 'steps', count: 1, position: 'jump-end' },
+}
+
+const STEP_POSITIONS: Record<string, StepPosition> = {
+  start: 'jump-start',
+  end: 'jump-end',
+  'jump-start': 'jump-start',
+  'jump-end': 'jump-end',
+  'jump-none': 'jump-none',
+  'jump-both': 'jump-both',
+}
+
+function parseTimingFunction(value: string): TimingFunction | null {
+  const text = value.trim().toLowerCase()
+  if (TIMING_FUNCTION_KEYWORDS[text]) return TIMING_FUNCTION_KEYWORDS[text]
+
+  const match = text.match(/^(cubic-bezier|steps)\((.*)\)$/)
+  if (!match) return null
+  const args = match[2].split(',').map((arg) => arg.trim())
+
+  if (match[1] === 'cubic-bezier') {
+    if (args.length !== 4) return null
+    const numbers = args.map(Number)
+    if (args.some((arg) => !arg) || numbers.some((n) => !Number.isFinite(n))) {
+      return null
+    }
+    const [x1, y1, x2, y2] = numbers
+    if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) return null
+    return { type: 'cubic-bezier', x1, y1, x2, y2 }
+  }
+
+  if (args.length < 1 || args.length > 2 || !/^\d+$/.test(args[0])) return null
+  const count = Number.parseInt(args[0], 10)
+  const position = args[1] === undefined ? 'jump-end' : STEP_POSITIONS[args[1]]
+  if (!position || count < (position === 'jump-none' ? 2 : 1)) return null
+  return { type: 'steps', count, position }
+}
+
+export function isValidTimingFunction(value: string) {
+  return parseTimingFunction(value) !== null
+}
+
+function solveCubicBezier(x1: number, y1: number, x2: number, y2: number) {
+  const sample = (a: number, b: number, t: number) =>
+    ((1 - 3 * b + 3 * a) * t + (3 * b - 6 * a)) * t * t + 3 * a * t
+  const slope = (a: number, b: number, t: number) =>
+    3 * (1 - 3 * b + 3 * a) * t * t + 2 * (3 * b - 6 * a) * t + 3 * a
+
+  return (x: number) => {
+    if (x <= 0 || x >= 1) return x <= 0 ? 0 : 1
+    // 先用牛顿法，斜率过小时退回二分法
+    let t = x
+    for (let i = 0; i < 8; i += 1) {
+      const error = sample(x1, x2, t) - x
+      if (Math.abs(error) < 1e-6) return sample(y1, y2, t)
+      const d = slope(x1, x2, t)
+      if (Math.abs(d) < 1e-6) break
+      t -= error / d
+    }
+    let low = 0
+    let high = 1
+    t = x
+    for (let i = 0; i < 32; i += 1) {
+      const value = sample(x1, x2, t)
+      if (Math.abs(value - x) < 1e-6) break
+      if (value < x) low = t
+      else high = t
+      t = (low + high) / 2
+    }
+    return sample(y1, y2, t)
+  }
+}
+
+/** 把 CSS timing-function 转成 [0, 1] 上的缓动函数，无法识别时按 ease 处理 */
+export function createTimingFunction(
+  value: string
+): (progress: number) => number {
+  const timing = parseTimingFunction(value) ?? TIMING_FUNCTION_KEYWORDS.ease
+
+  if (timing.type === 'cubic-bezier') {
+    return solveCubicBezier(timing.x1, timing.y1, timing.x2, timing.y2)
+  }
+
+  const { count, position } = timing
+  const jumps =
+    position === 'jump-none'
+      ? count - 1
+      : position === 'jump-both'
+        ? count + 1
+        : count
+  const offset = position === 'jump-start' || position === 'jump-both' ? 1 : 0
+  return (progress: number) => {
+    if (progress <= 0) return offset / jumps
+    if (progress >= 1) return 1
+    return Math.min(Math.floor(progress * count) + offset, jumps) / jumps
+  }
+}
+
+interface TransitionSegment {
+  property: string
+  duration: number | null
+  timingFunction: string | null
+  delay: number | null
+}
+
+function parseTransitionSegment(segment: string): TransitionSegment {
+  const parsed: TransitionSegment = {
+    property: 'all',
+    duration: null,
+    timingFunction: null,
+    delay: null,
+  }
+  splitTopLevel(segment, /\s/).forEach((token) => {
+    const seconds = parseCssTimeToSeconds(token)
+    if (seconds !== null) {
+      if (parsed.duration === null) parsed.duration = seconds
+      else parsed.delay = seconds
+      return
+    }
+    if (isValidTimingFunction(token)) {
+      parsed.timingFunction = token
+      return
+    }
+    parsed.property = token
+  })
+  return parsed
+}
+
+function readDeclaration(styleValue: string, property: string) {
+  const match = styleValue.match(
+    new RegExp(`(?:^|;)\\s*(?:-[a-z]+-)?${property}\\s*:\\s*([^;]+)`, 'i')
+  )
+  return match?.[1] ? splitTopLevel(match[1], /,/) : null
+}
+
+// 这些属性由填充方向决定，读回时不单独保存，切换方向后仍能生成正确的 transition
+const DIRECTION_PROPERTIES = new Set(['height', 'width', 'x', 'y', 'transform'])
+
+export function parseLevelTransitionFromStyle(
+  styleValue: string
+): LevelTransition | null {
+  const text = styleValue.trim()
+  if (!text) return null
+
+  const segments = (readDeclaration(text, 'transition') ?? []).map(
+    parseTransitionSegment
+  )
+  const properties = readDeclaration(text, 'transition-property')
+  const durations = readDeclaration(text, 'transition-duration')
+  const timingFunctions = readDeclaration(text, 'transition-timing-function')
+  const delays = readDeclaration(text, 'transition-delay')
+  if (properties) {
+    properties.forEach((property, index) => {
+      segments[index] = {
+        ...parseTransitionSegment(''),
+        ...segments[index],
+        property,
+      }
+    })
+  }
+  if (!segments.length && (durations || timingFunctions || delays)) {
+    segments.push(parseTransitionSegment(''))
+  }
+  // 长属性的列表按 CSS 规则循环对齐到每个过渡
+  segments.forEach((segment, index) => {
+    if (durations) {
+      segment.duration = parseCssTimeToSeconds(
+        durations[index % durations.length]
+      )
+    }
+    if (timingFunctions) {
+      segment.timingFunction = timingFunctions[index % timingFunctions.length]
+    }
+    if (delays) {
+      segment.delay = parseCssTimeToSeconds(delays[index % delays.length])
+    }
+  })
+
+  const segment =
+    segments.find((seg) =>
+      /^(height|width|x|transform|all)$/i.test(seg.property)
+    ) ?? segments[0]
+  if (!segment || segment.duration === null) return null
+
+  const property = segment.property.toLowerCase()
+  return {
+    property: DIRECTION_PROPERTIES.has(property) ? '' : segment.property,
+    duration: segment.duration,
+    timingFunction:
+      segment.timingFunction && isValidTimingFunction(segment.timingFunction)
+        ? segment.timingFunction
+        : DEFAULT_LEVEL_TRANSITION.timingFunction,
+    delay: segment.delay ?? 0,
+  }
+}
+
+/**
+ * 生成 transition 的值；timing-function 为 ease、delay 为 0 时省略，
+ * 与只设置秒数时的输出保持一致
+ */
+export function formatLevelTransition(
+  properties: string[],
+  transition: LevelTransition
+) {
+  const timingFunction = transition.timingFunction.trim()
+  const parts = [formatCssSeconds(transition.duration)]
+  if (
+    timingFunction &&
+    timingFunction !== 'ease' &&
+    isValidTimingFunction(timingFunction)
+  ) {
+    parts.push(timingFunction)
+  }
+  if (transition.delay) parts.push(formatCssSeconds(transition.delay))
+
+  const targets = transition.property.trim()
+    ? [transition.property.trim()]
+    : properties
+  return targets.map((property) => [property, ...parts].join(' ')).join(', ')
+}
+
+export function extractLevelTransitions(
+  svgContent: string,
+  xmlAdapter: XmlAdapter = pureXmlAdapter,
+  levelRules: readonly LevelDetectionRule[] = DEFAULT_LEVEL_RULES
+) {
+  const root = xmlAdapter.parse(svgContent)
+  const result: LevelTransitions = {}
+  if (!root) return result
+
+  detectLevelElements(root, levelRules).forEach(({ key, element }) => {
+    const styleValue = element.getAttribute('style') ?? ''
+    result[key] = parseLevelTransitionFromStyle(styleValue) ?? {
+      ...DEFAULT_LEVEL_TRANSITION,
+    }
+  })
+
+  return result
+}
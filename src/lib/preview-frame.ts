@@ -0,0 +1,123 @@
+import {
+  detectLevelElements,
+  type LevelDetectionRule,
+} from '@/lib/level-detection'
+import { parseXml, serializeXml, type XmlElement } from '@/lib/xml-dom'
+
+/** 预览副本里标记液位元素的属性，值为液位 key */
+export const PREVIEW_LEVEL_ATTRIBUTE = 'data-svg-scope-level'
+
+/** 父页面通过 postMessage 把 MessageChannel 的一端交给预览 iframe 时附带的标识 */
+export const PREVIEW_CONNECT_MESSAGE = 'svg-scope-preview:connect'
+
+export type PreviewCommand =
+  | { type: 'render'; svg: string }
+  | { type: 'attributes'; key: string; attributes: Record<string, string> }
+  | { type: 'style'; key: string; property: string; value: string }
+
+/** 预览内容高度变化时由 iframe 回传 */
+export interface PreviewSizeMessage {
+  type: 'size'
+  height: number
+}
+
+export interface PreviewSvg {
+  /** 交给 iframe 渲染的 SVG，液位元素带有 PREVIEW_LEVEL_ATTRIBUTE */
+  svg: string
+  root: XmlElement
+  levelElements: Map<string, XmlElement>
+}
+
+export function preparePreviewSvg(
+  processed: string,
+  levelRules?: readonly LevelDetectionRule[]
+): PreviewSvg | null {
+  const root = parseXml(processed)
+  if (!root || root.localName !== 'svg') return null
+  const levelElements = new Map<string, XmlElement>()
+  detectLevelElements(root, levelRules).forEach(({ key, element }) => {
+    element.setAttribute(PREVIEW_LEVEL_ATTRIBUTE, key)
+    levelElements.set(key, element)
+  })
+  return { svg: serializeXml(root), root, levelElements }
+}
+
+// 在 iframe 内运行：只接受第一个传入的端口，SVG 以 XML 方式解析后再插入，不会经过 HTML 解析
+const BRIDGE_SCRIPT = `
+let port = null
+const find = (key) =>
+  Array.from(document.querySelectorAll('[${PREVIEW_LEVEL_ATTRIBUTE}]')).find(
+    (element) => element.getAttribute('${PREVIEW_LEVEL_ATTRIBUTE}') === key
+  )
+const reportSize = () => {
+  port.postMessage({
+    type: 'size',
+    height: Math.ceil(document.documentElement.scrollHeight),
+  })
+}
+window.addEventListener('message', (event) => {
+  if (port || event.data !== '${PREVIEW_CONNECT_MESSAGE}' || !event.ports[0]) {
+    return
+  }
+  port = event.ports[0]
+  port.onmessage = ({ data }) => {
+    if (data.type === 'render') {
+      const doc = new DOMParser().parseFromString(data.svg, 'image/svg+xml')
+      const root = doc.documentElement
+      document.body.replaceChildren()
+      if (root.localName === 'svg' && !doc.querySelector('parsererror')) {
+        document.body.append(document.importNode(root, true))
+      }
+      reportSize()
+      return
+    }
+    const element = find(data.key)
+    if (!element) return
+    if (data.type === 'attributes') {
+      Object.entries(data.attributes).forEach(([name, value]) =>
+        element.setAttribute(name, value)
+      )
+    } else if (data.type === 'style') {
+      element.style.setProperty(data.property, data.value)
+    }
+  }
+  new ResizeObserver(reportSize).observe(document.body)
+})
+`
+
+function createNonce() {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(
+    ''
+  )
+}
+
+/**
+ * 预览 iframe 的 srcdoc。CSP 只放行带 nonce 的桥接脚本：
+ * SVG 里的 <script>、on* 属性与 javascript: 链接都不会执行，也不会请求外部资源。
+ * iframe 需同时设置 sandbox="allow-scripts"（不含 allow-same-origin），与工具页面隔离
+ */
+export function createPreviewDocument(nonce = createNonce()) {
+  const csp = [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}'`,
+    "style-src 'unsafe-inline'",
+    'img-src data: blob:',
+    'font-src data:',
+  ].join('; ')
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<style>
+html, body { margin: 0; background: #fff; }
+body { display: flex; justify-content: center; }
+body > svg { max-width: 100%; }
+</style>
+<script nonce="${nonce}">${BRIDGE_SCRIPT}</script>
+</head>
+<body></body>
+</html>`
+}
@@ -0,0 +1,124 @@
+/**
+ * 需要移除 / 保留的 CSS 属性与 SVG 元素。
+ * 属性支持 `*` 通配（如 `transition-*`、`animation*`），匹配时忽略厂商前缀与大小写；
+ * keep 列表优先于 strip 列表
+ */
+export interface RemovalPolicy {
+  stripProperties: string[]
+  keepProperties: string[]
+  stripElements: string[]
+  keepElements: string[]
+}
+
+/** 与旧版行为一致：只移除 transition 相关声明 */
+export const DEFAULT_REMOVAL_POLICY: RemovalPolicy = {
+  stripProperties: ['transition', 'transition-*'],
+  keepProperties: [],
+  stripElements: [],
+  keepElements: [],
+}
+
+/** 额外移除 CSS 动画、will-change 与 SMIL 动画元素 */
+export const ANIMATION_REMOVAL_POLICY: RemovalPolicy = {
+  stripProperties: [
+    'transition',
+    'transition-*',
+    'animation',
+    'animation-*',
+    'will-change',
+  ],
+  keepProperties: [],
+  stripElements: ['animate', 'animateTransform', 'animateMotion', 'set'],
+  keepElements: [],
+}
+
+export type RemovalSource =
+  'style-block' | 'inline-style' | 'attribute' | 'element'
+
+export interface RemovalRecord {
+  source: RemovalSource
+  /** 被移除的 CSS 属性、属性名或元素标签名 */
+  name: string
+  /** 被移除的值，整个元素被移除时为 null */
+  value: string | null
+  /** style 块内声明所在规则的原始选择器，直接位于 at-rule 内时为 at-rule 名 */
+  selector: string | null
+  /** style 块在文档中的序号（从 0 开始） */
+  styleIndex: number | null
+  /** 被修改或移除的元素，如 `rect#level`；按处理前的 id 记录 */
+  element: string | null
+}
+
+const VENDOR_PREFIX_PATTERN = /^-[a-z]+-/
+
+function normalizeName(name: string) {
+  return name.trim().toLowerCase()
+}
+
+/** 把 `animation-*` 这类名称模式编译为正则，匹配前需先转成小写 */
+export function compileNamePatterns(patterns: readonly string[]) {
+  return patterns
+    .map(normalizeName)
+    .filter(Boolean)
+    .map(
+      (pattern) =>
+        new RegExp(
+          `^${pattern
+            .split('*')
+            .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*')}$`
+        )
+    )
+}
+
+export interface RemovalMatcher {
+  property(name: string): boolean
+  element(localName: string): boolean
+}
+
+export function createRemovalMatcher(policy: RemovalPolicy): RemovalMatcher {
+  const stripProperties = compileNamePatterns(policy.stripProperties)
+  const keepProperties = compileNamePatterns(policy.keepProperties)
+  const stripElements = compileNamePatterns(policy.stripElements)
+  const keepElements = compileNamePatterns(policy.keepElements)
+  const matches = (patterns: RegExp[], name: string) =>
+    patterns.some((pattern) => pattern.test(name))
+
+  return {
+    property(name) {
+      const normalized = normalizeName(name)
+      const candidates = [
+        normalized,
+        normalized.replace(VENDOR_PREFIX_PATTERN, ''),
+      ]
+      return (
+        candidates.some((candidate) => matches(stripProperties, candidate)) &&
+        !candidates.some((candidate) => matches(keepProperties, candidate))
+      )
+    },
+    element(localName) {
+      const normalized = normalizeName(localName)
+      return (
+        matches(stripElements, normalized) && !matches(keepElements, normalized)
+      )
+    },
+  }
+}
+
+export function describeRemovalElement(localName: string, id: string | null) {
+  return id ? `${localName}#${id}` : localName
+}
+
+/** 报告里的一行，如 `<style>[0] .blade { transition: transform 1s }` */
+export function formatRemovalRecord(record: RemovalRecord) {
+  switch (record.source) {
+    case 'style-block':
+      return `<style>[${record.styleIndex ?? 0}] ${record.selector ?? ''} { ${record.name}: ${record.value} }`
+    case 'inline-style':
+      return `${record.element} style="${record.name}: ${record.value}"`
+    case 'attribute':
+      return `${record.element} ${record.name}="${record.value}"`
+    case 'element':
+      return `<${record.element}>`
+  }
+}
@@ -0,0 +1,701 @@
+import { applyIdPattern, type IdPatternValues } from '@/lib/batch'
+import { DEFAULT_LOCALE, translate, type Locale } from '@/lib/i18n'
+import {
+  LEVEL_BINDING_LANGUAGES,
+  type LevelBindingLanguage,
+} from '@/lib/level-binding'
+import {
+  LEVEL_RULE_KINDS,
+  parseLevelRule,
+  type LevelDetectionRule,
+} from '@/lib/level-detection'
+import {
+  DEFAULT_LEVEL_FILL_DIRECTION,
+  isValidTimingFunction,
+  LEVEL_FILL_DIRECTIONS,
+  type LevelFillDirection,
+  type LevelFillDirections,
+  type LevelTransition,
+} from '@/lib/level-transition'
+import {
+  ANIMATION_REMOVAL_POLICY,
+  DEFAULT_REMOVAL_POLICY,
+  type RemovalPolicy,
+} from '@/lib/removal-policy'
+import {
+  ID_STRATEGIES,
+  SCOPE_STRATEGIES,
+  type IdStrategy,
+  type ScopeOptions,
+  type ScopeStrategy,
+} from '@/lib/svg-scope'
+import {
+  DEFAULT_OPTIMIZE_OPTIONS,
+  MAX_OPTIMIZE_PRECISION,
+  type OptimizeOptions,
+} from '@/lib/svg-optimize'
+import {
+  DEFAULT_SANITIZE_POLICY,
+  type SanitizePolicy,
+} from '@/lib/svg-sanitize'
+
+export const SCOPE_CONFIG_FILE_NAME = 'svg-scope.config.json'
+
+export const SCOPE_CONFIG_SCHEMA_FILE_NAME = 'svg-scope.config.schema.json'
+
+export interface ScopeConfigLevel {
+  /** 为空时按填充方向自动选择 */
+  property?: string
+  seconds?: number
+  easing?: string
+  delay?: number
+  /** 所有液位元素的默认填充方向 */
+  direction?: LevelFillDirection
+  /** 液位元素 key（id 或 rect-1）→ 填充方向 */
+  directions?: Record<string, LevelFillDirection>
+}
+
+export interface ScopeConfigRemoval {
+  /** 在预设的基础上追加以下列表，默认 default；none 表示不带预设，列表即完整策略 */
+  preset?: 'default' | 'animation' | 'none'
+  stripProperties?: string[]
+  keepProperties?: string[]
+  stripElements?: string[]
+  keepElements?: string[]
+}
+
+/** true 表示按默认规则清理，写成对象时可指定放行列表 */
+export type ScopeConfigSanitize = boolean | Partial<SanitizePolicy>
+
+/** true 表示开启全部默认优化步骤，写成对象时可单独关闭某一步 */
+export type ScopeConfigOptimize = boolean | Partial<OptimizeOptions>
+
+/** svg-scope.config.json 的内容，字段全部可选，未写的沿用默认值 */
+export interface ScopeConfig {
+  $schema?: string
+  idStrategy?: IdStrategy
+  scopeStrategy?: ScopeStrategy
+  forceNewId?: boolean
+  /** 根 id 模板：{basename}、{index}、{index:3}、{id} */
+  idTemplate?: string
+  namespaceIds?: boolean
+  preservedIds?: string[]
+  /** `id:tank-*`、`regex:^lvl\d+$@rect,path` 这样的简写或完整规则对象 */
+  levelRules?: (string | LevelDetectionRule)[]
+  level?: ScopeConfigLevel
+  removal?: ScopeConfigRemoval
+  sanitize?: ScopeConfigSanitize
+  optimize?: ScopeConfigOptimize
+  /** 仅 CLI：为含液位元素的文件额外输出绑定模块 */
+  binding?: LevelBindingLanguage
+  /** 外观比较阈值，0–1 */
+  visualThreshold?: number
+}
+
+export type ScopeConfigIssueCode =
+  | 'invalid-json'
+  | 'invalid-type'
+  | 'invalid-value'
+  | 'invalid-regex'
+  | 'unknown-key'
+  | 'unknown-key-suggestion'
+
+export interface ScopeConfigIssue {
+  code: ScopeConfigIssueCode
+  /** 出错字段的路径，如 `level.seconds`、`levelRules[1]`，根对象为空字符串 */
+  path: string
+  message: string
+}
+
+export interface ScopeConfigParseResult {
+  /** 有任何问题时为 null */
+  config: ScopeConfig | null
+  issues: ScopeConfigIssue[]
+}
+
+const REMOVAL_PRESETS = ['default', 'animation', 'none'] as const
+
+const EMPTY_REMOVAL_POLICY: RemovalPolicy = {
+  stripProperties: [],
+  keepProperties: [],
+  stripElements: [],
+  keepElements: [],
+}
+
+type UnknownRecord = Record<string, unknown>
+
+function describeType(value: unknown) {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function editDistance(a: string, b: string) {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
+
+function createValidator(locale: Locale) {
+  const issues: ScopeConfigIssue[] = []
+  const report = (
+    code: ScopeConfigIssueCode,
+    path: string,
+    params: Record<string, string> = {}
+  ) => {
+    issues.push({
+      code,
+      path,
+      message: translate(locale, `config.${code}`, {
+        path: path || '(root)',
+        ...params,
+      }),
+    })
+  }
+  const join = (path: string, key: string) => (path ? `${path}.${key}` : key)
+
+  const checkKeys = (value: UnknownRecord, path: string, keys: string[]) => {
+    Object.keys(value)
+      .filter((key) => !keys.includes(key))
+      .forEach((key) => {
+        const suggestion = keys.find((known) => editDistance(key, known) <= 2)
+        if (suggestion) {
+          report('unknown-key-suggestion', join(path, key), { suggestion })
+        } else {
+          report('unknown-key', join(path, key), { allowed: keys.join(', ') })
+        }
+      })
+  }
+
+  const checkType = (value: unknown, path: string, expected: string) => {
+    const actual = describeType(value)
+    if (actual === expected) return true
+    report('invalid-type', path, { expected, actual })
+    return false
+  }
+
+  const checkEnum = (
+    value: unknown,
+    path: string,
+    allowed: readonly string[]
+  ) => {
+    if (!checkType(value, path, 'string')) return false
+    if (allowed.includes(value as string)) return true
+    report('invalid-value', path, {
+      value: String(value),
+      allowed: allowed.join(' / '),
+    })
+    return false
+  }
+
+  const checkNumber = (
+    value: unknown,
+    path: string,
+    min: number | null,
+    max: number | null
+  ) => {
+    if (!checkType(value, path, 'number')) return false
+    const number = value as number
+    if (
+      Number.isFinite(number) &&
+      (min === null || number >= min) &&
+      (max === null || number <= max)
+    ) {
+      return true
+    }
+    report('invalid-value', path, {
+      value: String(value),
+      allowed:
+        max === null ? (min === null ? 'finite' : `≥ ${min}`) : `${min}–${max}`,
+    })
+    return false
+  }
+
+  const checkStringList = (value: unknown, path: string) => {
+    if (!checkType(value, path, 'array')) return false
+    return (value as unknown[])
+      .map((item, index) => checkType(item, `${path}[${index}]`, 'string'))
+      .every(Boolean)
+  }
+
+  const checkRegExp = (source: string, path: string) => {
+    try {
+      new RegExp(source)
+      return true
+    } catch (error) {
+      report('invalid-regex', path, {
+        value: source,
+        detail: error instanceof Error ? error.message : String(error),
+      })
+      return false
+    }
+  }
+
+  return {
+    issues,
+    report,
+    checkKeys,
+    checkType,
+    checkEnum,
+    checkNumber,
+    checkStringList,
+    checkRegExp,
+  }
+}
+
+const CONFIG_KEYS: (keyof ScopeConfig)[] = [
+  '$schema',
+  'idStrategy',
+  'scopeStrategy',
+  'forceNewId',
+  'idTemplate',
+  'namespaceIds',
+  'preservedIds',
+  'levelRules',
+  'level',
+  'removal',
+  'sanitize',
+  'optimize',
+  'binding',
+  'visualThreshold',
+]
+const LEVEL_KEYS: (keyof ScopeConfigLevel)[] = [
+  'property',
+  'seconds',
+  'easing',
+  'delay',
+  'direction',
+  'directions',
+]
+const SANITIZE_KEYS: (keyof SanitizePolicy)[] = [
+  'allowElements',
+  'allowAttributes',
+  'allowUrls',
+]
+const OPTIMIZE_KEYS: (keyof OptimizeOptions)[] = [
+  'removeEditorData',
+  'removeComments',
+  'removeEmptyGroups',
+  'precision',
+  'minifyCss',
+]
+const REMOVAL_KEYS: (keyof ScopeConfigRemoval)[] = [
+  'preset',
+  'stripProperties',
+  'keepProperties',
+  'stripElements',
+  'keepElements',
+]
+
+/** 校验已解析的 JSON 值；出错时逐条给出字段路径与原因 */
+export function validateScopeConfig(
+  value: unknown,
+  locale: Locale = DEFAULT_LOCALE
+): ScopeConfigParseResult {
+  const {
+    issues,
+    report,
+    checkKeys,
+    checkType,
+    checkEnum,
+    checkNumber,
+    checkStringList,
+    checkRegExp,
+  } = createValidator(locale)
+
+  if (!checkType(value, '', 'object')) return { config: null, issues }
+  const config = value as UnknownRecord
+  checkKeys(config, '', CONFIG_KEYS)
+
+  if (config.$schema !== undefined) {
+    checkType(config.$schema, '$schema', 'string')
+  }
+  if (config.idStrategy !== undefined) {
+    checkEnum(config.idStrategy, 'idStrategy', ID_STRATEGIES)
+  }
+  if (config.scopeStrategy !== undefined) {
+    checkEnum(config.scopeStrategy, 'scopeStrategy', SCOPE_STRATEGIES)
+  }
+  ;(['forceNewId', 'namespaceIds'] as const).forEach((key) => {
+    if (config[key] !== undefined) checkType(config[key], key, 'boolean')
+  })
+  if (config.idTemplate !== undefined) {
+    checkType(config.idTemplate, 'idTemplate', 'string')
+  }
+  if (config.preservedIds !== undefined) {
+    checkStringList(config.preservedIds, 'preservedIds')
+  }
+  if (config.binding !== undefined) {
+    checkEnum(config.binding, 'binding', LEVEL_BINDING_LANGUAGES)
+  }
+  if (config.visualThreshold !== undefined) {
+    checkNumber(config.visualThreshold, 'visualThreshold', 0, 1)
+  }
+
+  if (
+    config.levelRules !== undefined &&
+    checkType(config.levelRules, 'levelRules', 'array')
+  ) {
+    ;(config.levelRules as unknown[]).forEach((rule, index) => {
+      const path = `levelRules[${index}]`
+      if (typeof rule === 'string') {
+        const parsed = parseLevelRule(rule)
+        if (!parsed) {
+          report('invalid-value', path, {
+            value: rule,
+            allowed: 'id:… / regex:… / attr:… / class:…',
+          })
+        } else if (parsed.kind === 'id-regex') {
+          checkRegExp(parsed.value, path)
+        }
+        return
+      }
+      if (!checkType(rule, path, 'object')) return
+      const record = rule as UnknownRecord
+      checkKeys(record, path, ['kind', 'value', 'elements'])
+      checkEnum(record.kind, `${path}.kind`, LEVEL_RULE_KINDS)
+      if (
+        checkType(record.value, `${path}.value`, 'string') &&
+        record.kind === 'id-regex'
+      ) {
+        checkRegExp(record.value as string, `${path}.value`)
+      }
+      if (record.elements !== undefined) {
+        checkStringList(record.elements, `${path}.elements`)
+      }
+    })
+  }
+
+  if (
+    config.level !== undefined &&
+    checkType(config.level, 'level', 'object')
+  ) {
+    const level = config.level as UnknownRecord
+    checkKeys(level, 'level', LEVEL_KEYS)
+    if (level.property !== undefined) {
+      checkType(level.property, 'level.property', 'string')
+    }
+    if (level.seconds !== undefined) {
+      checkNumber(level.seconds, 'level.seconds', 0, null)
+    }
+    if (level.delay !== undefined) {
+      checkNumber(level.delay, 'level.delay', null, null)
+    }
+    if (
+      level.easing !== undefined &&
+      checkType(level.easing, 'level.easing', 'string') &&
+      !isValidTimingFunction(level.easing as string)
+    ) {
+      report('invalid-value', 'level.easing', {
+        value: level.easing as string,
+        allowed: 'ease / linear / cubic-bezier(…) / steps(…)',
+      })
+    }
+    if (level.direction !== undefined) {
+      checkEnum(level.direction, 'level.direction', LEVEL_FILL_DIRECTIONS)
+    }
+    if (
+      level.directions !== undefined &&
+      checkType(level.directions, 'level.directions', 'object')
+    ) {
+      Object.entries(level.directions as UnknownRecord).forEach(
+        ([key, direction]) => {
+          checkEnum(direction, `level.directions.${key}`, LEVEL_FILL_DIRECTIONS)
+        }
+      )
+    }
+  }
+
+  if (
+    config.removal !== undefined &&
+    checkType(config.removal, 'removal', 'object')
+  ) {
+    const removal = config.removal as UnknownRecord
+    checkKeys(removal, 'removal', REMOVAL_KEYS)
+    if (removal.preset !== undefined) {
+      checkEnum(removal.preset, 'removal.preset', REMOVAL_PRESETS)
+    }
+    REMOVAL_KEYS.filter((key) => key !== 'preset').forEach((key) => {
+      if (removal[key] !== undefined) {
+        checkStringList(removal[key], `removal.${key}`)
+      }
+    })
+  }
+
+  if (
+    config.sanitize !== undefined &&
+    typeof config.sanitize !== 'boolean' &&
+    checkType(config.sanitize, 'sanitize', 'object')
+  ) {
+    const sanitize = config.sanitize as UnknownRecord
+    checkKeys(sanitize, 'sanitize', SANITIZE_KEYS)
+    SANITIZE_KEYS.forEach((key) => {
+      if (sanitize[key] !== undefined) {
+        checkStringList(sanitize[key], `sanitize.${key}`)
+      }
+    })
+  }
+
+  if (
+    config.optimize !== undefined &&
+    typeof config.optimize !== 'boolean' &&
+    checkType(config.optimize, 'optimize', 'object')
+  ) {
+    const optimize = config.optimize as UnknownRecord
+    checkKeys(optimize, 'optimize', OPTIMIZE_KEYS)
+    OPTIMIZE_KEYS.filter((key) => key !== 'precision').forEach((key) => {
+      if (optimize[key] !== undefined) {
+        checkType(optimize[key], `optimize.${key}`, 'boolean')
+      }
+    })
+    const { precision } = optimize
+    if (
+      precision !== undefined &&
+      precision !== null &&
+      checkNumber(precision, 'optimize.precision', 0, MAX_OPTIMIZE_PRECISION) &&
+      !Number.isInteger(precision)
+    ) {
+      report('invalid-value', 'optimize.precision', {
+        value: String(precision),
+        allowed: `0–${MAX_OPTIMIZE_PRECISION}`,
+      })
+    }
+  }
+
+  return {
+    config: issues.length ? null : (config as ScopeConfig),
+    issues,
+  }
+}
+
+// 工作区等处保存的是展开后的完整设置：借用配置文件的校验，
+// 并要求配置里可以省略的字段全部存在
+function isCompleteSection(
+  value: unknown,
+  keys: readonly string[],
+  section: keyof ScopeConfig
+) {
+  return (
+    describeType(value) === 'object' &&
+    keys.every((key) => Object.hasOwn(value as UnknownRecord, key)) &&
+    validateScopeConfig({ [section]: value }).config !== null
+  )
+}
+
+export function isRemovalPolicy(value: unknown): value is RemovalPolicy {
+  return isCompleteSection(
+    value,
+    REMOVAL_KEYS.filter((key) => key !== 'preset'),
+    'removal'
+  )
+}
+
+export function isSanitizePolicy(value: unknown): value is SanitizePolicy {
+  return isCompleteSection(value, SANITIZE_KEYS, 'sanitize')
+}
+
+export function isOptimizeOptions(value: unknown): value is OptimizeOptions {
+  return isCompleteSection(value, OPTIMIZE_KEYS, 'optimize')
+}
+
+/** 校验液位识别规则列表，简写规则展开为规则对象；无效时返回 null */
+export function parseLevelRules(value: unknown): LevelDetectionRule[] | null {
+  const { config } = validateScopeConfig({ levelRules: value })
+  return config
+    ? (config.levelRules ?? []).map((rule) =>
+        typeof rule === 'string' ? parseLevelRule(rule)! : rule
+      )
+    : null
+}
+
+export function parseScopeConfig(
+  text: string,
+  locale: Locale = DEFAULT_LOCALE
+): ScopeConfigParseResult {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch (error) {
+    return {
+      config: null,
+      issues: [
+        {
+          code: 'invalid-json',
+          path: '',
+          message: translate(locale, 'config.invalid-json', {
+            detail: (error as Error).message,
+          }),
+        },
+      ],
+    }
+  }
+  return validateScopeConfig(value, locale)
+}
+
+export interface LevelDirectionOptions {
+  fallback: LevelFillDirection
+  byKey: Partial<LevelFillDirections>
+}
+
+/** 配置展开后的处理选项；未在配置中出现的字段不会写入 scopeOptions */
+export interface ResolvedScopeConfig {
+  scopeOptions: ScopeOptions
+  levelTransition: Partial<LevelTransition>
+  levelDirections: LevelDirectionOptions
+  idTemplate: string | null
+  binding: LevelBindingLanguage | null
+  visualThreshold: number | null
+}
+
+export function getConfigRemovalPolicy(
+  removal: ScopeConfigRemoval
+): RemovalPolicy {
+  const base =
+    removal.preset === 'none'
+      ? EMPTY_REMOVAL_POLICY
+      : removal.preset === 'animation'
+        ? ANIMATION_REMOVAL_POLICY
+        : DEFAULT_REMOVAL_POLICY
+  return {
+    stripProperties: [
+      ...base.stripProperties,
+      ...(removal.stripProperties ?? []),
+    ],
+    keepProperties: [...base.keepProperties, ...(removal.keepProperties ?? [])],
+    stripElements: [...base.stripElements, ...(removal.stripElements ?? [])],
+    keepElements: [...base.keepElements, ...(removal.keepElements ?? [])],
+  }
+}
+
+export function getConfigSanitizePolicy(
+  sanitize: ScopeConfigSanitize
+): SanitizePolicy | null {
+  if (sanitize === false) return null
+  return { ...DEFAULT_SANITIZE_POLICY, ...(sanitize === true ? {} : sanitize) }
+}
+
+export function getConfigOptimizeOptions(
+  optimize: ScopeConfigOptimize
+): OptimizeOptions | null {
+  if (optimize === false) return null
+  return { ...DEFAULT_OPTIMIZE_OPTIONS, ...(optimize === true ? {} : optimize) }
+}
+
+export function resolveScopeConfig(config: ScopeConfig): ResolvedScopeConfig {
+  const { level = {} } = config
+  const scopeOptions: ScopeOptions = {
+    ...(config.idStrategy === undefined
+      ? {}
+      : { idStrategy: config.idStrategy }),
+    ...(config.scopeStrategy === undefined
+      ? {}
+      : { scopeStrategy: config.scopeStrategy }),
+    ...(config.forceNewId === undefined
+      ? {}
+      : { forceNewId: config.forceNewId }),
+    ...(config.namespaceIds === undefined
+      ? {}
+      : { namespaceIds: config.namespaceIds }),
+    ...(config.preservedIds === undefined
+      ? {}
+      : { preservedIds: config.preservedIds }),
+    ...(config.levelRules === undefined
+      ? {}
+      : {
+          levelRules: config.levelRules.map((rule) =>
+            typeof rule === 'string' ? parseLevelRule(rule)! : rule
+          ),
+        }),
+    ...(config.removal === undefined
+      ? {}
+      : { removalPolicy: getConfigRemovalPolicy(config.removal) }),
+    ...(config.sanitize === undefined
+      ? {}
+      : { sanitizePolicy: getConfigSanitizePolicy(config.sanitize) }),
+    ...(config.optimize === undefined
+      ? {}
+      : { optimize: getConfigOptimizeOptions(config.optimize) }),
+  }
+
+  return {
+    scopeOptions,
+    levelTransition: {
+      ...(level.property === undefined ? {} : { property: level.property }),
+      ...(level.seconds === undefined ? {} : { duration: level.seconds }),
+      ...(level.easing === undefined ? {} : { timingFunction: level.easing }),
+      ...(level.delay === undefined ? {} : { delay: level.delay }),
+    },
+    levelDirections: {
+      fallback: level.direction ?? DEFAULT_LEVEL_FILL_DIRECTION,
+      byKey: level.directions ?? {},
+    },
+    idTemplate: config.idTemplate?.trim() || null,
+    binding: config.binding ?? null,
+    visualThreshold: config.visualThreshold ?? null,
+  }
+}
+
+/** 按配置的 idTemplate 得到某个文件期望的根 id，未配置模板时为 undefined */
+export function getConfigDesiredId(
+  resolved: ResolvedScopeConfig,
+  values: IdPatternValues
+) {
+  return resolved.idTemplate
+    ? applyIdPattern(resolved.idTemplate, values)
+    : undefined
+}
+
+/** 网页上可编辑的设置，用于导出配置文件 */
+export interface ScopeConfigSettings {
+  idStrategy: IdStrategy
+  namespaceIds: boolean
+  preservedIds: string[]
+  levelRules: LevelDetectionRule[]
+  removalPolicy: RemovalPolicy
+  sanitizePolicy: SanitizePolicy | null
+  optimizeOptions: OptimizeOptions | null
+  visualThreshold: number
+  idTemplate: string
+}
+
+/**
+ * 由当前设置生成配置；base 中网页没有对应控件的字段（scopeStrategy、level 等）原样保留。
+ * 移除策略以 none 预设写出完整列表，界面里去掉的默认项再次加载后不会恢复
+ */
+export function createScopeConfig(
+  settings: ScopeConfigSettings,
+  base: ScopeConfig | null = null
+): ScopeConfig {
+  const { removalPolicy } = settings
+  return {
+    $schema: `./${SCOPE_CONFIG_SCHEMA_FILE_NAME}`,
+    ...base,
+    idStrategy: settings.idStrategy,
+    idTemplate: settings.idTemplate,
+    namespaceIds: settings.namespaceIds,
+    preservedIds: settings.preservedIds,
+    levelRules: settings.levelRules,
+    removal: {
+      preset: 'none',
+      stripProperties: [...removalPolicy.stripProperties],
+      keepProperties: [...removalPolicy.keepProperties],
+      stripElements: [...removalPolicy.stripElements],
+      keepElements: [...removalPolicy.keepElements],
+    },
+    sanitize: settings.sanitizePolicy ?? false,
+    optimize: settings.optimizeOptions ?? false,
+    visualThreshold: settings.visualThreshold,
+  }
+}
@@ -0,0 +1,361 @@
+import { generate, parse } from 'css-tree'
+
+import {
+  COMMENT_NODE,
+  ELEMENT_NODE,
+  findDescendants,
+  TEXT_NODE,
+  type XmlElement,
+  type XmlNode,
+} from '@/lib/xml-dom'
+
+/** 可单独开关的优化步骤 */
+export interface OptimizeOptions {
+  /** 移除 sodipodi / inkscape / Illustrator 等编辑器命名空间下的元素与属性，以及 `<metadata>` */
+  removeEditorData: boolean
+  removeComments: boolean
+  /** 移除没有子节点、也没有 id 的 `<g>` */
+  removeEmptyGroups: boolean
+  /** 坐标、尺寸与路径数据保留的小数位数，null 不做取整 */
+  precision: number | null
+  /** 用 css-tree 重新生成 `<style>` 与 style 属性，去掉注释与多余空白 */
+  minifyCss: boolean
+}
+
+/** 更多的小数位对屏幕显示已没有意义，也避免数字被写成指数形式 */
+export const MAX_OPTIMIZE_PRECISION = 6
+
+export const DEFAULT_OPTIMIZE_OPTIONS: OptimizeOptions = {
+  removeEditorData: true,
+  removeComments: true,
+  removeEmptyGroups: true,
+  precision: 3,
+  minifyCss: true,
+}
+
+/** 各步骤改动的数量：移除的元素 / 属性 / 注释、取整的属性、压缩的样式 */
+export interface OptimizeStats {
+  editorData: number
+  comments: number
+  emptyGroups: number
+  numbers: number
+  styles: number
+}
+
+const EDITOR_NAMESPACES = [
+  'http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd',
+  'http://www.inkscape.org/namespaces/inkscape',
+  'http://www.bohemiancoding.com/sketch/ns',
+  'http://ns.adobe.com/',
+  'http://purl.org/dc/elements/1.1/',
+  'http://creativecommons.org/ns#',
+  'http://web.resource.org/cc/',
+  'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+]
+
+const EDITOR_PREFIXES = ['sodipodi', 'inkscape']
+
+const GEOMETRY_ATTRIBUTES = [
+  'd',
+  'points',
+  'transform',
+  'gradientTransform',
+  'patternTransform',
+  'viewBox',
+  'x',
+  'y',
+  'x1',
+  'y1',
+  'x2',
+  'y2',
+  'cx',
+  'cy',
+  'fx',
+  'fy',
+  'r',
+  'rx',
+  'ry',
+  'width',
+  'height',
+  'stroke-width',
+]
+
+// Illustrator 导出时命名空间常写成 DOCTYPE 里定义的实体，如 `&ns_ai;`
+function isEditorNamespace(uri: string) {
+  return (
+    /^&ns_\w+;$/.test(uri) ||
+    EDITOR_NAMESPACES.some((namespace) => uri.startsWith(namespace))
+  )
+}
+
+function getPrefix(name: string) {
+  const index = name.indexOf(':')
+  return index === -1 ? null : name.slice(0, index)
+}
+
+function getAllElements(svg: XmlElement) {
+  return [svg, ...findDescendants(svg, () => true)]
+}
+
+function formatNumber(value: number, precision: number) {
+  const rounded = Number(value.toFixed(precision))
+  if (Object.is(rounded, -0) || rounded === 0) return '0'
+  return String(rounded).replace(/^(-?)0\./, '$1.')
+}
+
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/giy
+const PATH_SEPARATOR_PATTERN = /[\s,]*/y
+const PATH_COMMAND_PATTERN = /[MmZzLlHhVvCcSsQqTtAa]/y
+const ARC_FLAG_PATTERN = /[01]/y
+
+type NumericToken = string | { number: string }
+
+function matchAt(pattern: RegExp, value: string, offset: number) {
+  pattern.lastIndex = offset
+  return pattern.exec(value)?.[0] ?? null
+}
+
+/**
+ * 把 token 中带小数的数字按 precision 取整，并去掉前导 0。
+ * 两个数字原本紧挨着、且其中一个被改写时，按需补空格，避免粘连成别的数字
+ */
+function joinRounded(tokens: NumericToken[], precision: number) {
+  let output = ''
+  let previous: { text: string; changed: boolean } | null = null
+  for (const token of tokens) {
+    if (typeof token === 'string') {
+      output += token
+      previous = null
+      continue
+    }
+    const source = token.number
+    const text =
+      source.includes('.') && !/e/i.test(source)
+        ? formatNumber(Number(source), precision)
+        : source
+    const changed = text !== source
+    if (
+      previous &&
+      (previous.changed || changed) &&
+      (/^\d/.test(text) ||
+        (text.startsWith('.') && !/[.e]/i.test(previous.text)))
+    ) {
+      output += ' '
+    }
+    output += text
+    previous = { text, changed }
+  }
+  return output
+}
+
+/** 把字符串里带小数的数字按 precision 取整，用于 points、transform 等数字列表 */
+export function roundNumbers(value: string, precision: number) {
+  const tokens: NumericToken[] = []
+  let offset = 0
+  while (offset < value.length) {
+    const number = matchAt(NUMBER_PATTERN, value, offset)
+    if (number) {
+      tokens.push({ number })
+      offset += number.length
+    } else {
+      tokens.push(value[offset])
+      offset += 1
+    }
+  }
+  return joinRounded(tokens, precision)
+}
+
+/**
+ * 按路径语法切分 d 后取整。弧线命令的两个标志位只占一个字符，
+ * 压缩写法 `a1 1 0 01.5.5` 中的 `01` 是两个标志而不是数字 1。
+ * 无法识别的路径数据原样返回
+ */
+export function roundPathData(value: string, precision: number) {
+  const tokens: NumericToken[] = []
+  let offset = 0
+  let command = ''
+  let index = 0
+  while (offset < value.length) {
+    const separator = matchAt(PATH_SEPARATOR_PATTERN, value, offset)
+    if (separator) {
+      tokens.push(separator)
+      offset += separator.length
+      continue
+    }
+    const nextCommand = matchAt(PATH_COMMAND_PATTERN, value, offset)
+    if (nextCommand) {
+      tokens.push(nextCommand)
+      offset += 1
+      command = nextCommand
+      index = 0
+      continue
+    }
+    const isFlag = /a/i.test(command) && (index % 7 === 3 || index % 7 === 4)
+    const number = isFlag
+      ? matchAt(ARC_FLAG_PATTERN, value, offset)
+      : matchAt(NUMBER_PATTERN, value, offset)
+    if (!number) return value
+    tokens.push({ number })
+    offset += number.length
+    index += 1
+  }
+  return joinRounded(tokens, precision)
+}
+
+function minifyCss(css: string, context: 'stylesheet' | 'declarationList') {
+  try {
+    return generate(parse(css, { context }))
+  } catch {
+    return null
+  }
+}
+
+function isWhitespaceText(node: XmlNode) {
+  return node.nodeType === TEXT_NODE && !node.textContent?.trim()
+}
+
+/**
+ * 按 options 依次执行优化步骤，直接修改传入的 svg。
+ * keep 中的元素（通常是液位元素）不做取整，保证 levelRects 与输出一致
+ */
+export function optimizeSvg(
+  svg: XmlElement,
+  options: OptimizeOptions,
+  keep: readonly XmlElement[] = []
+): OptimizeStats {
+  const stats: OptimizeStats = {
+    editorData: 0,
+    comments: 0,
+    emptyGroups: 0,
+    numbers: 0,
+    styles: 0,
+  }
+
+  if (options.removeEditorData) {
+    const prefixes = new Set(EDITOR_PREFIXES)
+    getAllElements(svg).forEach((element) => {
+      element.getAttributeNames().forEach((name) => {
+        if (
+          getPrefix(name) === 'xmlns' &&
+          isEditorNamespace(element.getAttribute(name) ?? '')
+        ) {
+          prefixes.add(name.slice('xmlns:'.length))
+        }
+      })
+    })
+    findDescendants(svg, (element) => {
+      const prefix = getPrefix(element.tagName)
+      return (
+        element.localName === 'metadata' ||
+        (prefix !== null && prefixes.has(prefix))
+      )
+    }).forEach((element) => {
+      if (!element.parentNode) return
+      element.remove()
+      stats.editorData += 1
+    })
+    getAllElements(svg).forEach((element) => {
+      element.getAttributeNames().forEach((name) => {
+        const prefix = getPrefix(name)
+        const declared =
+          prefix === 'xmlns' ? name.slice('xmlns:'.length) : prefix
+        if (declared === null || !prefixes.has(declared)) return
+        element.removeAttribute(name)
+        stats.editorData += 1
+      })
+    })
+  }
+
+  if (options.removeComments) {
+    const visit = (element: XmlElement) => {
+      Array.from(element.childNodes).forEach((node) => {
+        if (node.nodeType === COMMENT_NODE) {
+          node.remove()
+          stats.comments += 1
+        } else if (node.nodeType === ELEMENT_NODE) {
+          visit(node as XmlElement)
+        }
+      })
+    }
+    visit(svg)
+  }
+
+  // 自内向外检查，只包含空组的组也会一并移除
+  if (options.removeEmptyGroups) {
+    findDescendants(svg, (element) => element.localName === 'g')
+      .reverse()
+      .forEach((group) => {
+        if (
+          keep.includes(group) ||
+          group.hasAttribute('id') ||
+          !Array.from(group.childNodes).every(isWhitespaceText)
+        ) {
+          return
+        }
+        group.remove()
+        stats.emptyGroups += 1
+      })
+  }
+
+  const { precision } = options
+  if (precision !== null) {
+    getAllElements(svg)
+      .filter((element) => !keep.includes(element))
+      .forEach((element) => {
+        GEOMETRY_ATTRIBUTES.forEach((name) => {
+          const value = element.getAttribute(name)
+          if (value === null) return
+          const next =
+            name === 'd'
+              ? roundPathData(value, precision)
+              : roundNumbers(value, precision)
+          if (next === value) return
+          element.setAttribute(name, next)
+          stats.numbers += 1
+        })
+      })
+  }
+
+  if (options.minifyCss) {
+    findDescendants(svg, (element) => element.localName === 'style').forEach(
+      (style) => {
+        const css = style.textContent ?? ''
+        const next = minifyCss(css, 'stylesheet')
+        if (next === null || next === css) return
+        style.textContent = next
+        stats.styles += 1
+      }
+    )
+    getAllElements(svg)
+      .filter((element) => element.hasAttribute('style'))
+      .forEach((element) => {
+        const css = element.getAttribute('style') ?? ''
+        const next = minifyCss(css, 'declarationList')
+        if (next === null || next === css) return
+        if (next) {
+          element.setAttribute('style', next)
+        } else {
+          element.removeAttribute('style')
+        }
+        stats.styles += 1
+      })
+  }
+
+  return stats
+}
+
+export function countOptimizations(stats: OptimizeStats) {
+  return Object.values(stats).reduce((total, count) => total + count, 0)
+}
+
+/** 文本按 UTF-8 编码后的字节数 */
+export function getByteSize(text: string) {
+  return new TextEncoder().encode(text).length
+}
+
+/** 如 `812 B`、`12.4 KB`、`1.05 MB` */
+export function formatByteSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`
+}
@@ -0,0 +1,1189 @@
+import { generate, parse, walk, type CssNode } from 'css-tree'
+
+import { createRasterImage, type RasterImage } from '@/lib/visual-diff'
+import { findDescendants, parseXml, type XmlElement } from '@/lib/xml-dom'
+
+// 纯 JS 的简化光栅化，只用于比较处理前后的外观：支持基本形状、path、use、
+// transform、渐变（取各 stop 的平均色）与 <style> 层叠；文本、滤镜、裁剪与蒙版不绘制
+
+export const DEFAULT_RASTER_SIZE = 128
+
+type Matrix = [number, number, number, number, number, number]
+type Point = [number, number]
+type Rgba = [number, number, number, number]
+
+interface Subpath {
+  points: Point[]
+  closed: boolean
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+// 每个像素 4×4 个采样点
+const SUPERSAMPLE = 4
+const MAX_USE_DEPTH = 8
+// 关键帧不是选择器；依赖环境的条件规则按默认环境（不匹配）处理
+const SKIPPED_ATRULE_PATTERN =
+  /^(-[a-z]+-)?(keyframes|media|container|scope|page|font-face)$/i
+
+const CONTAINER_ELEMENTS = ['svg', 'g', 'a', 'switch']
+const SHAPE_ELEMENTS = [
+  'rect',
+  'circle',
+  'ellipse',
+  'line',
+  'polyline',
+  'polygon',
+  'path',
+]
+const STYLE_PROPERTIES = [
+  'fill',
+  'stroke',
+  'stroke-width',
+  'fill-opacity',
+  'stroke-opacity',
+  'opacity',
+  'fill-rule',
+  'display',
+  'visibility',
+  'color',
+]
+const INHERITED_PROPERTIES = [
+  'fill',
+  'stroke',
+  'stroke-width',
+  'fill-opacity',
+  'stroke-opacity',
+  'fill-rule',
+  'visibility',
+  'color',
+]
+const INITIAL_STYLE: Record<string, string> = {
+  fill: 'black',
+  stroke: 'none',
+  'stroke-width': '1',
+  'fill-opacity': '1',
+  'stroke-opacity': '1',
+  'fill-rule': 'nonzero',
+  visibility: 'visible',
+  color: 'black',
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  lime: '#00ff00',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  cyan: '#00ffff',
+  aqua: '#00ffff',
+  magenta: '#ff00ff',
+  fuchsia: '#ff00ff',
+  gray: '#808080',
+  grey: '#808080',
+  silver: '#c0c0c0',
+  lightgray: '#d3d3d3',
+  lightgrey: '#d3d3d3',
+  darkgray: '#a9a9a9',
+  darkgrey: '#a9a9a9',
+  dimgray: '#696969',
+  maroon: '#800000',
+  olive: '#808000',
+  navy: '#000080',
+  purple: '#800080',
+  teal: '#008080',
+  orange: '#ffa500',
+  gold: '#ffd700',
+  pink: '#ffc0cb',
+  brown: '#a52a2a',
+  skyblue: '#87ceeb',
+  steelblue: '#4682b4',
+  lightblue: '#add8e6',
+  darkblue: '#00008b',
+  darkgreen: '#006400',
+  lightgreen: '#90ee90',
+  darkred: '#8b0000',
+  orangered: '#ff4500',
+  tomato: '#ff6347',
+  crimson: '#dc143c',
+  coral: '#ff7f50',
+  salmon: '#fa8072',
+  khaki: '#f0e68c',
+  violet: '#ee82ee',
+  indigo: '#4b0082',
+  turquoise: '#40e0d0',
+  whitesmoke: '#f5f5f5',
+  gainsboro: '#dcdcdc',
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ]
+}
+
+function applyMatrix(m: Matrix, [x, y]: Point): Point {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]]
+}
+
+function parseNumbers(value: string | null) {
+  return (value?.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi) ?? []).map(
+    Number
+  )
+}
+
+function parseTransform(value: string | null): Matrix {
+  let matrix = IDENTITY
+  for (const match of (value ?? '').matchAll(
+    /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g
+  )) {
+    const args = parseNumbers(match[2])
+    let next: Matrix = IDENTITY
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length >= 6) next = args.slice(0, 6) as Matrix
+        break
+      case 'translate':
+        next = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0]
+        break
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0]
+        break
+      case 'rotate': {
+        const angle = ((args[0] ?? 0) * Math.PI) / 180
+        const [cx = 0, cy = 0] = args.slice(1)
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        next = multiply(
+          multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]),
+          [1, 0, 0, 1, -cx, -cy]
+        )
+        break
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0]
+        break
+      case 'skewY':
+        next = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0]
+        break
+    }
+    matrix = multiply(matrix, next)
+  }
+  return matrix
+}
+
+function parseLength(value: string | null, reference: number, fallback = 0) {
+  if (value === null) return fallback
+  const number = Number.parseFloat(value)
+  if (!Number.isFinite(number)) return fallback
+  return value.trim().endsWith('%') ? (number / 100) * reference : number
+}
+
+function parseColor(value: string): Rgba | null {
+  const normalized = value.trim().toLowerCase()
+  const hex = (NAMED_COLORS[normalized] ?? normalized).match(
+    /^#([0-9a-f]{3,8})$/
+  )?.[1]
+  if (hex) {
+    const digits =
+      hex.length <= 4 ? hex.replace(/./g, (digit) => digit + digit) : hex
+    const channels = digits.match(/../g)?.map((pair) => parseInt(pair, 16))
+    if (!channels || channels.length < 3) return null
+    return [
+      channels[0],
+      channels[1],
+      channels[2],
+      channels.length > 3 ? channels[3] / 255 : 1,
+    ]
+  }
+  if (normalized === 'transparent') return [0, 0, 0, 0]
+
+  const functional = normalized.match(/^(rgba?|hsla?)\((.*)\)$/)
+  if (!functional) return null
+  const parts = functional[2].split(/[\s,/]+/).filter(Boolean)
+  const read = (part: string | undefined, scale: number) =>
+    part === undefined
+      ? 1
+      : part.endsWith('%')
+        ? (Number.parseFloat(part) / 100) * scale
+        : Number.parseFloat(part)
+  const alpha = parts[3] === undefined ? 1 : read(parts[3], 1)
+  if (functional[1].startsWith('rgb')) {
+    return [
+      read(parts[0], 255),
+      read(parts[1], 255),
+      read(parts[2], 255),
+      alpha,
+    ]
+  }
+  const hue = (((Number.parseFloat(parts[0]) % 360) + 360) % 360) / 360
+  const saturation = read(parts[1], 1)
+  const lightness = read(parts[2], 1)
+  const q =
+    lightness < 0.5
+      ? lightness * (1 + saturation)
+      : lightness + saturation - lightness * saturation
+  const p = 2 * lightness - q
+  const channel = (offset: number) => {
+    const t = (hue + offset + 1) % 1
+    const value =
+      t < 1 / 6
+        ? p + (q - p) * 6 * t
+        : t < 1 / 2
+          ? q
+          : t < 2 / 3
+            ? p + (q - p) * (2 / 3 - t) * 6
+            : p
+    return value * 255
+  }
+  return [channel(1 / 3), channel(0), channel(-1 / 3), alpha]
+}
+
+// AttributeSelector 的 name 是 Identifier 节点，其余节点为字符串
+function getNodeName(node: CssNode): string {
+  const name = node.name as string | CssNode
+  return typeof name === 'string' ? name : getNodeName(name)
+}
+
+interface StyleRule {
+  compounds: { nodes: CssNode[]; combinator: string | null }[]
+  specificity: number
+  order: number
+  declarations: [string, string][]
+}
+
+function getSpecificity(selector: CssNode) {
+  let specificity = 0
+  selector.children?.forEach((node) => {
+    if (node.type === 'IdSelector') {
+      specificity += 10000
+    } else if (
+      ['ClassSelector', 'AttributeSelector', 'PseudoClassSelector'].includes(
+        node.type
+      )
+    ) {
+      specificity += 100
+    } else if (node.type === 'TypeSelector' && getNodeName(node) !== '*') {
+      specificity += 1
+    }
+  })
+  return specificity
+}
+
+function collectStyleRules(svg: XmlElement) {
+  const rules: StyleRule[] = []
+  findDescendants(svg, (element) => element.localName === 'style').forEach(
+    (style) => {
+      let ast: CssNode
+      try {
+        ast = parse(style.textContent ?? '', { parseRulePrelude: true })
+      } catch {
+        return
+      }
+      let skippedDepth = 0
+      walk(ast, {
+        enter(node) {
+          if (
+            node.type === 'Atrule' &&
+            SKIPPED_ATRULE_PATTERN.test(getNodeName(node))
+          ) {
+            skippedDepth += 1
+          }
+          if (node.type !== 'Rule' || skippedDepth) return
+          if (node.prelude?.type !== 'SelectorList') return
+          const declarations: [string, string][] = []
+          node.block?.children?.forEach((child) => {
+            if (child.type !== 'Declaration') return
+            declarations.push([
+              child.property.toLowerCase(),
+              generate(child.value as CssNode).trim(),
+            ])
+          })
+          node.prelude.children?.forEach((selector) => {
+            const compounds: StyleRule['compounds'] = [
+              { nodes: [], combinator: null },
+            ]
+            selector.children?.forEach((child) => {
+              if (child.type === 'Combinator') {
+                compounds.push({ nodes: [], combinator: getNodeName(child) })
+              } else {
+                compounds[compounds.length - 1].nodes.push(child)
+              }
+            })
+            rules.push({
+              compounds,
+              specificity: getSpecificity(selector),
+              order: rules.length,
+              declarations,
+            })
+          })
+        },
+        leave(node) {
+          if (
+            node.type === 'Atrule' &&
+            SKIPPED_ATRULE_PATTERN.test(getNodeName(node))
+          ) {
+            skippedDepth -= 1
+          }
+        },
+      })
+    }
+  )
+  return rules.sort(
+    (a, b) => a.specificity - b.specificity || a.order - b.order
+  )
+}
+
+function getAttributeSelectorValue(node: CssNode) {
+  if (!node.value || typeof node.value === 'string') return null
+  return node.value.type === 'String'
+    ? String(node.value.value)
+    : getNodeName(node.value)
+}
+
+function matchesCompound(
+  element: XmlElement,
+  nodes: CssNode[],
+  root: XmlElement
+) {
+  return nodes.every((node) => {
+    switch (node.type) {
+      case 'TypeSelector': {
+        const name = getNodeName(node).slice(getNodeName(node).indexOf('|') + 1)
+        return name === '*' || name.toLowerCase() === element.localName
+      }
+      case 'IdSelector':
+        return element.getAttribute('id') === getNodeName(node)
+      case 'ClassSelector':
+        return (element.getAttribute('class') ?? '')
+          .split(/\s+/)
+          .includes(getNodeName(node))
+      case 'AttributeSelector': {
+        const actual = element.getAttribute(getNodeName(node))
+        const expected = getAttributeSelectorValue(node)
+        if (actual === null) return false
+        if (expected === null) return true
+        switch (node.matcher) {
+          case '=':
+            return actual === expected
+          case '~=':
+            return actual.split(/\s+/).includes(expected)
+          case '^=':
+            return actual.startsWith(expected)
+          case '$=':
+            return actual.endsWith(expected)
+          case '*=':
+            return actual.includes(expected)
+          case '|=':
+            return actual === expected || actual.startsWith(`${expected}-`)
+          default:
+            return false
+        }
+      }
+      case 'PseudoClassSelector': {
+        const siblings = Array.from(element.parentNode?.children ?? [])
+        switch (getNodeName(node).toLowerCase()) {
+          case 'root':
+            return element === root
+          case 'first-child':
+            return siblings[0] === element
+          case 'last-child':
+            return siblings[siblings.length - 1] === element
+          default:
+            return false
+        }
+      }
+      default:
+        return false
+    }
+  })
+}
+
+function matchesRule(
+  element: XmlElement,
+  compounds: StyleRule['compounds'],
+  index: number,
+  root: XmlElement
+): boolean {
+  if (!matchesCompound(element, compounds[index].nodes, root)) return false
+  if (index === 0) return true
+  const parent = element.parentNode
+  const siblings = Array.from(parent?.children ?? [])
+  const previous = siblings.slice(0, siblings.indexOf(element))
+  switch (compounds[index].combinator) {
+    case '>':
+      return Boolean(parent) && matchesRule(parent!, compounds, index - 1, root)
+    case '+':
+      return (
+        previous.length > 0 &&
+        matchesRule(previous[previous.length - 1], compounds, index - 1, root)
+      )
+    case '~':
+      return previous.some((sibling) =>
+        matchesRule(sibling, compounds, index - 1, root)
+      )
+    default:
+      for (let ancestor = parent; ancestor; ancestor = ancestor.parentNode) {
+        if (matchesRule(ancestor, compounds, index - 1, root)) return true
+      }
+      return false
+  }
+}
+
+interface ComputedStyle {
+  values: Record<string, string>
+  /** 祖先 opacity 的累乘 */
+  opacity: number
+}
+
+function computeStyle(
+  element: XmlElement,
+  parent: ComputedStyle,
+  rules: StyleRule[],
+  root: XmlElement
+): ComputedStyle | null {
+  const declared: Record<string, string> = {}
+  STYLE_PROPERTIES.forEach((property) => {
+    const value = element.getAttribute(property)
+    if (value !== null) declared[property] = value.trim()
+  })
+  rules.forEach((rule) => {
+    if (!matchesRule(element, rule.compounds, rule.compounds.length - 1, root))
+      return
+    rule.declarations.forEach(([property, value]) => {
+      declared[property] = value.replace(/\s*!important$/i, '')
+    })
+  })
+  ;(element.getAttribute('style') ?? '').split(';').forEach((declaration) => {
+    const colon = declaration.indexOf(':')
+    if (colon === -1) return
+    declared[declaration.slice(0, colon).trim().toLowerCase()] = declaration
+      .slice(colon + 1)
+      .replace(/\s*!important\s*$/i, '')
+      .trim()
+  })
+
+  if (declared.display === 'none') return null
+
+  const values: Record<string, string> = {}
+  Object.entries({ ...parent.values, ...declared }).forEach(
+    ([property, value]) => {
+      if (property.startsWith('--')) values[property] = value
+    }
+  )
+  INHERITED_PROPERTIES.forEach((property) => {
+    const value = declared[property]
+    values[property] =
+      value === undefined || value === 'inherit'
+        ? parent.values[property]
+        : resolveVariables(value, values)
+  })
+  return { values, opacity: parent.opacity * parseOpacity(declared.opacity) }
+}
+
+function resolveVariables(value: string, values: Record<string, string>) {
+  let resolved = value
+  for (let pass = 0; pass < 8 && resolved.includes('var('); pass += 1) {
+    resolved = resolved.replace(
+      /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/g,
+      (_, name: string, fallback?: string) =>
+        values[name] ?? fallback?.trim() ?? ''
+    )
+  }
+  return resolved
+}
+
+function parseOpacity(value: string | undefined) {
+  const opacity = Number.parseFloat(value ?? '1')
+  return Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity)) : 1
+}
+
+function getHref(element: XmlElement) {
+  return (
+    element.getAttribute('href') ?? element.getAttribute('xlink:href') ?? ''
+  )
+}
+
+// 渐变按各 stop 的平均色近似；引用不存在时退回 fallback 颜色
+function resolvePaint(
+  value: string,
+  style: ComputedStyle,
+  ids: Map<string, XmlElement>
+): Rgba | null {
+  const normalized = value.trim()
+  if (!normalized || normalized === 'none') return null
+  if (normalized.toLowerCase() === 'currentcolor') {
+    return parseColor(style.values.color)
+  }
+  const url = normalized.match(/^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)\s*(.*)$/)
+  if (!url) return parseColor(normalized)
+
+  const fallback = url[2] ? resolvePaint(url[2], style, ids) : null
+  let target = ids.get(url[1])
+  if (!target) return fallback
+  if (target.localName === 'pattern') return [128, 128, 128, 1]
+  if (!/Gradient$/.test(target.localName)) return fallback
+
+  for (let depth = 0; depth < MAX_USE_DEPTH; depth += 1) {
+    if (target.children.length) break
+    const next = ids.get(getHref(target).replace(/^#/, ''))
+    if (!next) break
+    target = next
+  }
+  const stops = Array.from(target.children)
+    .filter((child) => child.localName === 'stop')
+    .map((stop) => {
+      const inline = Object.fromEntries(
+        (stop.getAttribute('style') ?? '')
+          .split(';')
+          .map((declaration) =>
+            declaration.split(':').map((part) => part.trim().toLowerCase())
+          )
+      )
+      const color = parseColor(
+        inline['stop-color'] ?? stop.getAttribute('stop-color') ?? 'black'
+      )
+      const opacity = parseOpacity(
+        inline['stop-opacity'] ?? stop.getAttribute('stop-opacity') ?? undefined
+      )
+      return color
+        ? ([color[0], color[1], color[2], color[3] * opacity] as Rgba)
+        : null
+    })
+    .filter((stop): stop is Rgba => stop !== null)
+  if (!stops.length) return fallback
+  return [0, 1, 2, 3].map(
+    (channel) =>
+      stops.reduce((sum, stop) => sum + stop[channel], 0) / stops.length
+  ) as Rgba
+}
+
+function ellipsePoints(cx: number, cy: number, rx: number, ry: number) {
+  const segments = 48
+  return Array.from({ length: segments }, (_, index) => {
+    const angle = (index / segments) * Math.PI * 2
+    return [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)] as Point
+  })
+}
+
+function arcPoints(
+  from: Point,
+  rxInput: number,
+  ryInput: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point
+): Point[] {
+  let rx = Math.abs(rxInput)
+  let ry = Math.abs(ryInput)
+  if (!rx || !ry) return [to]
+  const phi = (rotation * Math.PI) / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+  const dx = (from[0] - to[0]) / 2
+  const dy = (from[1] - to[1]) / 2
+  const x1 = cos * dx + sin * dy
+  const y1 = -sin * dx + cos * dy
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry)
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda)
+    ry *= Math.sqrt(lambda)
+  }
+  const sign = largeArc === sweep ? -1 : 1
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1
+  const coefficient =
+    sign *
+    Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)))
+  const cxp = (coefficient * rx * y1) / ry
+  const cyp = (-coefficient * ry * x1) / rx
+  const cx = cos * cxp - sin * cyp + (from[0] + to[0]) / 2
+  const cy = sin * cxp + cos * cyp + (from[1] + to[1]) / 2
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+  const start = angle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry)
+  let delta = angle(
+    (x1 - cxp) / rx,
+    (y1 - cyp) / ry,
+    (-x1 - cxp) / rx,
+    (-y1 - cyp) / ry
+  )
+  if (!sweep && delta > 0) delta -= Math.PI * 2
+  if (sweep && delta < 0) delta += Math.PI * 2
+
+  const segments = Math.max(2, Math.ceil(Math.abs(delta) / (Math.PI / 12)))
+  return Array.from({ length: segments }, (_, index) => {
+    const theta = start + (delta * (index + 1)) / segments
+    const x = rx * Math.cos(theta)
+    const y = ry * Math.sin(theta)
+    return [cos * x - sin * y + cx, sin * x + cos * y + cy] as Point
+  })
+}
+
+function parsePathData(d: string): Subpath[] {
+  const subpaths: Subpath[] = []
+  let current: Subpath | null = null
+  let position: Point = [0, 0]
+  let start: Point = [0, 0]
+  let control: Point | null = null
+  let command = ''
+  let cursor = 0
+
+  const skip = () => {
+    while (cursor < d.length && /[\s,]/.test(d[cursor])) cursor += 1
+  }
+  const readNumber = () => {
+    skip()
+    const match = d
+      .slice(cursor)
+      .match(/^[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/)
+    if (!match) return null
+    cursor += match[0].length
+    return Number(match[0])
+  }
+  const readFlag = () => {
+    skip()
+    const flag = d[cursor]
+    if (flag !== '0' && flag !== '1') return null
+    cursor += 1
+    return flag === '1'
+  }
+  const lineTo = (point: Point) => {
+    if (!current) {
+      current = { points: [position], closed: false }
+      subpaths.push(current)
+    }
+    current.points.push(point)
+    position = point
+  }
+  const curveTo = (points: Point[]) => {
+    const steps = 12
+    const p0 = position
+    for (let step = 1; step <= steps; step += 1) {
+      const t = step / steps
+      const all = [p0, ...points]
+      while (all.length > 1) {
+        for (let index = 0; index < all.length - 1; index += 1) {
+          all[index] = [
+            all[index][0] + (all[index + 1][0] - all[index][0]) * t,
+            all[index][1] + (all[index + 1][1] - all[index][1]) * t,
+          ]
+        }
+        all.pop()
+      }
+      lineTo(all[0])
+    }
+  }
+
+  while (cursor < d.length) {
+    skip()
+    if (cursor >= d.length) break
+    if (/[a-zA-Z]/.test(d[cursor])) {
+      command = d[cursor]
+      cursor += 1
+    } else if (!command) {
+      break
+    }
+    const relative = command === command.toLowerCase()
+    const offset = (point: Point): Point =>
+      relative ? [position[0] + point[0], position[1] + point[1]] : point
+    const readPoint = (): Point | null => {
+      const x = readNumber()
+      const y = readNumber()
+      return x === null || y === null ? null : [x, y]
+    }
+
+    switch (command.toUpperCase()) {
+      case 'Z':
+        if (current) {
+          current.closed = true
+          position = start
+        }
+        current = null
+        control = null
+        command = ''
+        continue
+      case 'M': {
+        const point = readPoint()
+        if (!point) return subpaths
+        position = offset(point)
+        start = position
+        current = { points: [position], closed: false }
+        subpaths.push(current)
+        command = relative ? 'l' : 'L'
+        control = null
+        continue
+      }
+      case 'L': {
+        const point = readPoint()
+        if (!point) return subpaths
+        lineTo(offset(point))
+        control = null
+        continue
+      }
+      case 'H':
+      case 'V': {
+        const value = readNumber()
+        if (value === null) return subpaths
+        const horizontal = command.toUpperCase() === 'H'
+        lineTo(
+          horizontal
+            ? [relative ? position[0] + value : value, position[1]]
+            : [position[0], relative ? position[1] + value : value]
+        )
+        control = null
+        continue
+      }
+      case 'C':
+      case 'S': {
+        const smooth = command.toUpperCase() === 'S'
+        const first = smooth
+          ? ([
+              2 * position[0] - (control?.[0] ?? position[0]),
+              2 * position[1] - (control?.[1] ?? position[1]),
+            ] as Point)
+          : readPoint()
+        const second = readPoint()
+        const end = readPoint()
+        if (!first || !second || !end) return subpaths
+        const c1 = smooth ? first : offset(first)
+        const c2 = offset(second)
+        curveTo([c1, c2, offset(end)])
+        control = c2
+        continue
+      }
+      case 'Q':
+      case 'T': {
+        const smooth = command.toUpperCase() === 'T'
+        const controlPoint: Point | null = smooth
+          ? ([
+              2 * position[0] - (control?.[0] ?? position[0]),
+              2 * position[1] - (control?.[1] ?? position[1]),
+            ] as Point)
+          : readPoint()
+        if (!controlPoint) return subpaths
+        const c: Point = smooth ? controlPoint : offset(controlPoint)
+        const end = readPoint()
+        if (!end) return subpaths
+        curveTo([c, offset(end)])
+        control = c
+        continue
+      }
+      case 'A': {
+        const rx = readNumber()
+        const ry = readNumber()
+        const rotation = readNumber()
+        const largeArc = readFlag()
+        const sweep = readFlag()
+        const end = readPoint()
+        if (
+          rx === null ||
+          ry === null ||
+          rotation === null ||
+          largeArc === null ||
+          sweep === null ||
+          !end
+        ) {
+          return subpaths
+        }
+        arcPoints(
+          position,
+          rx,
+          ry,
+          rotation,
+          largeArc,
+          sweep,
+          offset(end)
+        ).forEach(lineTo)
+        control = null
+        continue
+      }
+      default:
+        return subpaths
+    }
+  }
+  return subpaths
+}
+
+function getShapeGeometry(
+  element: XmlElement,
+  viewport: [number, number]
+): Subpath[] {
+  const length = (name: string, axis: 0 | 1) =>
+    parseLength(element.getAttribute(name), viewport[axis])
+  switch (element.localName) {
+    case 'rect': {
+      const x = length('x', 0)
+      const y = length('y', 1)
+      const width = length('width', 0)
+      const height = length('height', 1)
+      if (width <= 0 || height <= 0) return []
+      const rxAttr = element.getAttribute('rx')
+      const ryAttr = element.getAttribute('ry')
+      const rx = Math.min(width / 2, parseLength(rxAttr ?? ryAttr, viewport[0]))
+      const ry = Math.min(
+        height / 2,
+        parseLength(ryAttr ?? rxAttr, viewport[1])
+      )
+      if (rx <= 0 || ry <= 0) {
+        return [
+          {
+            points: [
+              [x, y],
+              [x + width, y],
+              [x + width, y + height],
+              [x, y + height],
+            ],
+            closed: true,
+          },
+        ]
+      }
+      const corner = (cx: number, cy: number, from: number) =>
+        Array.from({ length: 7 }, (_, index) => {
+          const angle = ((from + index * 15) * Math.PI) / 180
+          return [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)] as Point
+        })
+      return [
+        {
+          points: [
+            ...corner(x + width - rx, y + ry, 270),
+            ...corner(x + width - rx, y + height - ry, 0),
+            ...corner(x + rx, y + height - ry, 90),
+            ...corner(x + rx, y + ry, 180),
+          ],
+          closed: true,
+        },
+      ]
+    }
+    case 'circle': {
+      const r = parseLength(
+        element.getAttribute('r'),
+        Math.hypot(...viewport) / Math.SQRT2
+      )
+      if (r <= 0) return []
+      return [
+        {
+          points: ellipsePoints(length('cx', 0), length('cy', 1), r, r),
+          closed: true,
+        },
+      ]
+    }
+    case 'ellipse': {
+      const rx = length('rx', 0)
+      const ry = length('ry', 1)
+      if (rx <= 0 || ry <= 0) return []
+      return [
+        {
+          points: ellipsePoints(length('cx', 0), length('cy', 1), rx, ry),
+          closed: true,
+        },
+      ]
+    }
+    case 'line':
+      return [
+        {
+          points: [
+            [length('x1', 0), length('y1', 1)],
+            [length('x2', 0), length('y2', 1)],
+          ],
+          closed: false,
+        },
+      ]
+    case 'polyline':
+    case 'polygon': {
+      const numbers = parseNumbers(element.getAttribute('points'))
+      const points: Point[] = []
+      for (let index = 0; index + 1 < numbers.length; index += 2) {
+        points.push([numbers[index], numbers[index + 1]])
+      }
+      return points.length
+        ? [{ points, closed: element.localName === 'polygon' }]
+        : []
+    }
+    case 'path':
+      return parsePathData(element.getAttribute('d') ?? '')
+    default:
+      return []
+  }
+}
+
+// 把描边拆成每段一个四边形和每个顶点一个小多边形，统一成同一绕向后用 nonzero 填充
+function strokeToPolygons(subpaths: Subpath[], width: number): Point[][] {
+  const half = width / 2
+  const polygons: Point[][] = []
+  const oriented = (points: Point[]) => {
+    const area = points.reduce((sum, point, index) => {
+      const next = points[(index + 1) % points.length]
+      return sum + point[0] * next[1] - next[0] * point[1]
+    }, 0)
+    return area < 0 ? [...points].reverse() : points
+  }
+  subpaths.forEach(({ points, closed }) => {
+    const segments = closed ? [...points, points[0]] : points
+    for (let index = 0; index + 1 < segments.length; index += 1) {
+      const [x0, y0] = segments[index]
+      const [x1, y1] = segments[index + 1]
+      const length = Math.hypot(x1 - x0, y1 - y0)
+      if (!length) continue
+      const nx = (-(y1 - y0) / length) * half
+      const ny = ((x1 - x0) / length) * half
+      polygons.push(
+        oriented([
+          [x0 + nx, y0 + ny],
+          [x1 + nx, y1 + ny],
+          [x1 - nx, y1 - ny],
+          [x0 - nx, y0 - ny],
+        ])
+      )
+    }
+    points.forEach(([x, y]) => {
+      polygons.push(
+        oriented(
+          Array.from({ length: 8 }, (_, index) => {
+            const angle = (index / 8) * Math.PI * 2
+            return [
+              x + half * Math.cos(angle),
+              y + half * Math.sin(angle),
+            ] as Point
+          })
+        )
+      )
+    })
+  })
+  return polygons
+}
+
+class Canvas {
+  readonly width: number
+  readonly height: number
+  // 预乘 alpha 的 RGBA
+  private readonly pixels: Float32Array
+
+  constructor(width: number, height: number) {
+    this.width = width
+    this.height = height
+    this.pixels = new Float32Array(width * height * 4)
+  }
+
+  fill(polygons: Point[][], color: Rgba, evenOdd: boolean) {
+    if (color[3] <= 0) return
+    const edges: [number, number, number, number, number][] = []
+    let minY = Infinity
+    let maxY = -Infinity
+    polygons.forEach((polygon) => {
+      polygon.forEach((point, index) => {
+        const next = polygon[(index + 1) % polygon.length]
+        if (point[1] === next[1]) return
+        const direction = point[1] < next[1] ? 1 : -1
+        const [top, bottom] = direction === 1 ? [point, next] : [next, point]
+        edges.push([top[0], top[1], bottom[0], bottom[1], direction])
+        minY = Math.min(minY, top[1])
+        maxY = Math.max(maxY, bottom[1])
+      })
+    })
+    if (!edges.length) return
+
+    const coverage = new Float32Array(this.width)
+    const firstRow = Math.max(0, Math.floor(minY))
+    const lastRow = Math.min(this.height - 1, Math.ceil(maxY))
+    const samples = SUPERSAMPLE * SUPERSAMPLE
+
+    for (let row = firstRow; row <= lastRow; row += 1) {
+      coverage.fill(0)
+      let touched = false
+      for (let sub = 0; sub < SUPERSAMPLE; sub += 1) {
+        const y = row + (sub + 0.5) / SUPERSAMPLE
+        const crossings: [number, number][] = []
+        edges.forEach(([x0, y0, x1, y1, direction]) => {
+          if (y < y0 || y >= y1) return
+          crossings.push([x0 + ((y - y0) / (y1 - y0)) * (x1 - x0), direction])
+        })
+        if (crossings.length < 2) continue
+        crossings.sort((a, b) => a[0] - b[0])
+        let winding = 0
+        crossings.forEach(([x, direction], index) => {
+          winding += direction
+          const inside = evenOdd ? (index + 1) % 2 === 1 : winding !== 0
+          const nextX = crossings[index + 1]?.[0]
+          if (!inside || nextX === undefined) return
+          const from = Math.max(0, Math.ceil(x * SUPERSAMPLE - 0.5))
+          const to = Math.min(
+            this.width * SUPERSAMPLE,
+            Math.ceil(nextX * SUPERSAMPLE - 0.5)
+          )
+          for (let column = from; column < to; column += 1) {
+            coverage[Math.floor(column / SUPERSAMPLE)] += 1
+            touched = true
+          }
+        })
+      }
+      if (!touched) continue
+      for (let column = 0; column < this.width; column += 1) {
+        if (!coverage[column]) continue
+        const alpha = (coverage[column] / samples) * color[3]
+        const offset = (row * this.width + column) * 4
+        for (let channel = 0; channel < 3; channel += 1) {
+          this.pixels[offset + channel] =
+            color[channel] * alpha + this.pixels[offset + channel] * (1 - alpha)
+        }
+        this.pixels[offset + 3] = alpha + this.pixels[offset + 3] * (1 - alpha)
+      }
+    }
+  }
+
+  toImage(): RasterImage {
+    const image = createRasterImage(this.width, this.height)
+    for (let index = 0; index < this.width * this.height; index += 1) {
+      const alpha = this.pixels[index * 4 + 3]
+      for (let channel = 0; channel < 3; channel += 1) {
+        image.data[index * 4 + channel] = alpha
+          ? this.pixels[index * 4 + channel] / alpha
+          : 0
+      }
+      image.data[index * 4 + 3] = alpha * 255
+    }
+    return image
+  }
+}
+
+export interface SvgRasterSize {
+  width: number
+  height: number
+  viewBox: [number, number, number, number]
+}
+
+/** 按 viewBox（缺失时按 width / height）的比例缩放到不超过 maxSize 的光栅尺寸 */
+export function getSvgRasterSize(
+  svg: XmlElement,
+  maxSize = DEFAULT_RASTER_SIZE
+): SvgRasterSize {
+  const viewBoxNumbers = parseNumbers(svg.getAttribute('viewBox'))
+  const viewBox: SvgRasterSize['viewBox'] =
+    viewBoxNumbers.length === 4 &&
+    viewBoxNumbers[2] > 0 &&
+    viewBoxNumbers[3] > 0
+      ? (viewBoxNumbers as SvgRasterSize['viewBox'])
+      : [
+          0,
+          0,
+          parseLength(svg.getAttribute('width'), 300, 300) || 300,
+          parseLength(svg.getAttribute('height'), 150, 150) || 150,
+        ]
+  const scale = maxSize / Math.max(viewBox[2], viewBox[3])
+  return {
+    width: Math.max(1, Math.round(viewBox[2] * scale)),
+    height: Math.max(1, Math.round(viewBox[3] * scale)),
+    viewBox,
+  }
+}
+
+export function rasterizeSvg(
+  svgContent: string,
+  maxSize = DEFAULT_RASTER_SIZE
+): RasterImage | null {
+  const svg = parseXml(svgContent)
+  if (!svg || svg.localName !== 'svg') return null
+
+  const { width, height, viewBox } = getSvgRasterSize(svg, maxSize)
+  const scale = Math.min(width / viewBox[2], height / viewBox[3])
+  const rootMatrix: Matrix = [
+    scale,
+    0,
+    0,
+    scale,
+    (width - viewBox[2] * scale) / 2 - viewBox[0] * scale,
+    (height - viewBox[3] * scale) / 2 - viewBox[1] * scale,
+  ]
+  const viewport: [number, number] = [viewBox[2], viewBox[3]]
+  const rules = collectStyleRules(svg)
+  const ids = new Map<string, XmlElement>()
+  ;[svg, ...findDescendants(svg, (element) => element.hasAttribute('id'))]
+    .filter((element) => element.hasAttribute('id'))
+    .forEach((element) => {
+      const id = element.getAttribute('id') ?? ''
+      if (!ids.has(id)) ids.set(id, element)
+    })
+  const canvas = new Canvas(width, height)
+
+  const render = (
+    element: XmlElement,
+    parentStyle: ComputedStyle,
+    parentMatrix: Matrix,
+    depth: number
+  ) => {
+    const style = computeStyle(element, parentStyle, rules, svg)
+    if (!style) return
+    const matrix = multiply(
+      parentMatrix,
+      parseTransform(element.getAttribute('transform'))
+    )
+    const name = element.localName
+
+    if (name === 'use') {
+      const target = ids.get(getHref(element).replace(/^#/, ''))
+      if (!target || depth >= MAX_USE_DEPTH) return
+      const offset = multiply(matrix, [
+        1,
+        0,
+        0,
+        1,
+        parseLength(element.getAttribute('x'), viewport[0]),
+        parseLength(element.getAttribute('y'), viewport[1]),
+      ])
+      if (target.localName === 'symbol') {
+        Array.from(target.children).forEach((child) =>
+          render(child, style, offset, depth + 1)
+        )
+      } else {
+        render(target, style, offset, depth + 1)
+      }
+      return
+    }
+
+    if (CONTAINER_ELEMENTS.includes(name)) {
+      Array.from(element.children).forEach((child) =>
+        render(child, style, matrix, depth)
+      )
+      return
+    }
+
+    if (!SHAPE_ELEMENTS.includes(name)) return
+    if (style.values.visibility === 'hidden') return
+    const geometry = getShapeGeometry(element, viewport)
+    if (!geometry.length) return
+    const toDevice = (polygon: Point[]) =>
+      polygon.map((point) => applyMatrix(matrix, point))
+
+    const fill = resolvePaint(style.values.fill, style, ids)
+    if (fill && name !== 'line') {
+      const opacity = parseOpacity(style.values['fill-opacity']) * style.opacity
+      canvas.fill(
+        geometry.map(({ points }) => toDevice(points)),
+        [fill[0], fill[1], fill[2], fill[3] * opacity],
+        style.values['fill-rule'] === 'evenodd'
+      )
+    }
+
+    const stroke = resolvePaint(style.values.stroke, style, ids)
+    const strokeWidth = parseLength(style.values['stroke-width'], viewport[0])
+    if (stroke && strokeWidth > 0) {
+      const opacity =
+        parseOpacity(style.values['stroke-opacity']) * style.opacity
+      canvas.fill(
+        strokeToPolygons(geometry, strokeWidth).map(toDevice),
+        [stroke[0], stroke[1], stroke[2], stroke[3] * opacity],
+        false
+      )
+    }
+  }
+
+  const rootStyle: ComputedStyle = { values: INITIAL_STYLE, opacity: 1 }
+  render(svg, rootStyle, rootMatrix, 0)
+  return canvas.toImage()
+}
@@ -0,0 +1,306 @@
+import { generate, parse, walk, type CssNode } from 'css-tree'
+
+import {
+  compileNamePatterns,
+  describeRemovalElement,
+  type RemovalRecord,
+} from '@/lib/removal-policy'
+import { findDescendants, type XmlElement } from '@/lib/xml-dom'
+
+/**
+ * 清理不可信 SVG 时的放行列表。元素与属性支持 `*` 通配，匹配时忽略大小写；
+ * URL 按前缀匹配，如 `https://cdn.example.com/`。`#id` 引用与 `data:image/` 始终放行，
+ * `javascript:` / `vbscript:` 始终移除
+ */
+export interface SanitizePolicy {
+  allowElements: string[]
+  allowAttributes: string[]
+  allowUrls: string[]
+}
+
+export const DEFAULT_SANITIZE_POLICY: SanitizePolicy = {
+  allowElements: [],
+  allowAttributes: [],
+  allowUrls: [],
+}
+
+export type SanitizeReason =
+  | 'script'
+  | 'foreign-object'
+  | 'event-handler'
+  | 'external-href'
+  | 'css-import'
+  | 'remote-url'
+
+export interface SanitizeRecord extends RemovalRecord {
+  reason: SanitizeReason
+}
+
+// 元素名统一按小写比较：内联进 HTML 时 `<SCRIPT>`、`<foreignobject>` 同样会生效
+const SCRIPT_ELEMENTS = ['script', 'handler']
+const FOREIGN_OBJECT_ELEMENT = 'foreignobject'
+const ANIMATION_ELEMENTS = [
+  'animate',
+  'animatecolor',
+  'animatemotion',
+  'animatetransform',
+  'set',
+]
+
+function getAttributeIgnoreCase(element: XmlElement, name: string) {
+  const match = element
+    .getAttributeNames()
+    .find((candidate) => candidate.toLowerCase() === name)
+  return match === undefined ? null : element.getAttribute(match)
+}
+
+function isEventHandler(name: string) {
+  return /^on/i.test(name.replace(/^.*:/, ''))
+}
+
+// `<image>` 等用 href，混入的 HTML 元素（`<img>`、`<embed>`、`<object>`）用 src / data
+const URL_ATTRIBUTES = ['href', 'src', 'data']
+
+function isUrlAttribute(name: string) {
+  return URL_ATTRIBUTES.includes(name.replace(/^.*:/, '').toLowerCase())
+}
+
+// 去掉空白与控制字符后再判断，`java\tscript:` 这类写法同样会被识别
+function normalizeUrl(url: string) {
+  return Array.from(url)
+    .filter((char) => char.trim() && char.charCodeAt(0) > 0x1f)
+    .join('')
+    .toLowerCase()
+}
+
+function createUrlMatcher(allowUrls: readonly string[]) {
+  const prefixes = allowUrls.map(normalizeUrl).filter(Boolean)
+  return (url: string) => {
+    const normalized = normalizeUrl(url)
+    if (/^(javascript|vbscript):/.test(normalized)) return false
+    return (
+      normalized === '' ||
+      normalized.startsWith('#') ||
+      normalized.startsWith('data:image/') ||
+      prefixes.some((prefix) => normalized.startsWith(prefix))
+    )
+  }
+}
+
+// @import 的目标可以直接写成字符串，声明里只有 url() 才会请求资源
+function collectUrls(node: CssNode, includeStrings = false) {
+  const urls: string[] = []
+  walk(node, {
+    enter(child) {
+      if (
+        (child.type === 'Url' || (includeStrings && child.type === 'String')) &&
+        typeof child.value === 'string'
+      ) {
+        urls.push(child.value)
+      }
+    },
+  })
+  return urls
+}
+
+const CSS_URL_PATTERN = /url\(\s*(['"]?)(.*?)\1\s*\)/gi
+
+/**
+ * 移除脚本、事件属性、外部链接、`<foreignObject>`、`@import` 与远程 `url()`。
+ * 直接修改传入的 svg，返回被移除内容的清单
+ */
+export function sanitizeSvg(svg: XmlElement, policy: SanitizePolicy) {
+  const allowElements = compileNamePatterns(policy.allowElements)
+  const allowAttributes = compileNamePatterns(policy.allowAttributes)
+  const isAllowed = (patterns: RegExp[], name: string) =>
+    patterns.some((pattern) => pattern.test(name.toLowerCase()))
+  const isSafeUrl = createUrlMatcher(policy.allowUrls)
+  const records: SanitizeRecord[] = []
+  const describe = (element: XmlElement) =>
+    describeRemovalElement(element.localName, element.getAttribute('id'))
+
+  // 能把 href / src 改成 javascript: 或挂上事件属性的动画元素同样视为脚本
+  const getElementReason = (element: XmlElement): SanitizeReason | null => {
+    const localName = element.localName.toLowerCase()
+    if (isAllowed(allowElements, localName)) return null
+    if (SCRIPT_ELEMENTS.includes(localName)) return 'script'
+    if (localName === FOREIGN_OBJECT_ELEMENT) return 'foreign-object'
+    if (!ANIMATION_ELEMENTS.includes(localName)) return null
+    const target = getAttributeIgnoreCase(element, 'attributename') ?? ''
+    if (isEventHandler(target) && !isAllowed(allowAttributes, target)) {
+      return 'event-handler'
+    }
+    return isUrlAttribute(target) ? 'external-href' : null
+  }
+
+  // 被移除元素的子元素随之移除，不再单独记录
+  const visit = (parent: XmlElement) => {
+    Array.from(parent.children).forEach((element) => {
+      const reason = getElementReason(element)
+      if (!reason) {
+        visit(element)
+        return
+      }
+      element.remove()
+      records.push({
+        reason,
+        source: 'element',
+        name: element.localName,
+        value: null,
+        selector: null,
+        styleIndex: null,
+        element: describe(element),
+      })
+    })
+  }
+  visit(svg)
+
+  ;[svg, ...findDescendants(svg, () => true)].forEach((element) => {
+    element.getAttributeNames().forEach((name) => {
+      if (name.toLowerCase() === 'style') return
+      const value = element.getAttribute(name) ?? ''
+      const reason: SanitizeReason | null =
+        isEventHandler(name) && !isAllowed(allowAttributes, name)
+          ? 'event-handler'
+          : isUrlAttribute(name) && !isSafeUrl(value)
+            ? 'external-href'
+            : Array.from(value.matchAll(CSS_URL_PATTERN)).some(
+                  ([, , url]) => !isSafeUrl(url)
+                )
+              ? 'remote-url'
+              : null
+      if (!reason) return
+      records.push({
+        reason,
+        source: 'attribute',
+        name,
+        value,
+        selector: null,
+        styleIndex: null,
+        element: describe(element),
+      })
+      element.removeAttribute(name)
+    })
+  })
+
+  // 返回 null 表示没有改动，保留原有 CSS 文本
+  const sanitizeCss = (
+    css: string,
+    context: 'stylesheet' | 'declarationList',
+    createRecord: (
+      reason: SanitizeReason,
+      name: string,
+      value: string
+    ) => SanitizeRecord
+  ) => {
+    let ast: CssNode
+    try {
+      ast = parse(css, { context })
+    } catch {
+      return null
+    }
+    let changed = false
+    walk(ast, {
+      enter(node, item, list) {
+        if (!item || !list) return
+        if (node.type === 'Atrule' && node.name.toLowerCase() === 'import') {
+          const { prelude } = node
+          const urls = prelude ? collectUrls(prelude, true) : []
+          if (urls.length && urls.every(isSafeUrl)) return
+          list.remove(item)
+          records.push(
+            createRecord(
+              'css-import',
+              '@import',
+              prelude ? generate(prelude).trim() : ''
+            )
+          )
+          changed = true
+          return
+        }
+        if (
+          node.type === 'Declaration' &&
+          !collectUrls(node).every(isSafeUrl)
+        ) {
+          list.remove(item)
+          records.push(
+            createRecord(
+              'remote-url',
+              node.property,
+              generate(node.value as CssNode).trim()
+            )
+          )
+          changed = true
+        }
+      },
+    })
+    return changed ? generate(ast).trim() : null
+  }
+
+  findDescendants(
+    svg,
+    (element) => element.localName.toLowerCase() === 'style'
+  ).forEach(
+    (style, styleIndex) => {
+      const next = sanitizeCss(
+        style.textContent ?? '',
+        'stylesheet',
+        (reason, name, value) => ({
+          reason,
+          source: 'style-block',
+          name,
+          value,
+          selector: null,
+          styleIndex,
+          element: null,
+        })
+      )
+      if (next !== null) style.textContent = next
+    }
+  )
+
+  ;[svg, ...findDescendants(svg, () => true)]
+    .forEach((element) => {
+      const styleAttribute = element
+        .getAttributeNames()
+        .find((candidate) => candidate.toLowerCase() === 'style')
+      if (styleAttribute === undefined) return
+      const next = sanitizeCss(
+        element.getAttribute(styleAttribute) ?? '',
+        'declarationList',
+        (reason, name, value) => ({
+          reason,
+          source: 'inline-style',
+          name,
+          value,
+          selector: null,
+          styleIndex: null,
+          element: describe(element),
+        })
+      )
+      if (next === null) return
+      if (next) {
+        element.setAttribute(styleAttribute, next)
+      } else {
+        element.removeAttribute(styleAttribute)
+      }
+    })
+
+  return records
+}
+
+/** 报告里的一行，如 `<style>[0] @import url(https://example.com/a.css)` */
+export function formatSanitizeRecord(record: SanitizeRecord) {
+  switch (record.source) {
+    case 'style-block':
+      return record.name === '@import'
+        ? `<style>[${record.styleIndex ?? 0}] @import ${record.value}`
+        : `<style>[${record.styleIndex ?? 0}] ${record.name}: ${record.value}`
+    case 'inline-style':
+      return `${record.element} style="${record.name}: ${record.value}"`
+    case 'attribute':
+      return `${record.element} ${record.name}="${record.value}"`
+    case 'element':
+      return `<${record.element}>`
+  }
+}
@@ -1,27 +1,174 @@
-import { generate, parse, walk } from 'css-tree'
+import { generate, parse, walk, type CssNode } from 'css-tree'
+
+import { createSeededRandom, hashString } from '@/lib/hash'
+import { DEFAULT_LOCALE, translate, type Locale } from '@/lib/i18n'
+import {
+  LEVEL_MAX_ATTRIBUTE,
+  LEVEL_MIN_ATTRIBUTE,
+  readLevelCalibration,
+  type LevelCalibration,
+  type LevelCalibrations,
+} from '@/lib/level-calibration'
+import {
+  DEFAULT_LEVEL_RULES,
+  detectLevelElements,
+  type LevelDetectionRule,
+} from '@/lib/level-detection'
+import {
+  DEFAULT_LEVEL_FILL_DIRECTION,
+  DEFAULT_LEVEL_TRANSITION,
+  formatLevelTransition,
+  type LevelFillDirection,
+  type LevelFillDirections,
+  type LevelTransition,
+  type LevelTransitions,
+} from '@/lib/level-transition'
+import {
+  createRemovalMatcher,
+  DEFAULT_REMOVAL_POLICY,
+  describeRemovalElement,
+  type RemovalMatcher,
+  type RemovalPolicy,
+  type RemovalRecord,
+} from '@/lib/removal-policy'
+import {
+  countOptimizations,
+  optimizeSvg,
+  type OptimizeOptions,
+  type OptimizeStats,
+} from '@/lib/svg-optimize'
+import {
+  sanitizeSvg,
+  type SanitizePolicy,
+  type SanitizeRecord,
+} from '@/lib/svg-sanitize'
+import { pureXmlAdapter, type XmlAdapter } from '@/lib/xml-adapter'
+import {
+  findDescendants,
+  type XmlElement,
+} from '@/lib/xml-dom'
 
 interface PrefixResult {
   css: string
   changed: boolean
   selectorsChanged: boolean
-  transitionsStripped: boolean
+  propertiesStripped: boolean
   allScoped: boolean
-  warnings: string[]
+  allScopedAfter: boolean
+  keyframesRenamed: boolean
+  warnings: ScopeWarning[]
+  removals: RemovalRecord[]
+}
+
+export type ScopeWarningCode =
+  | 'css-parse-error'
+  | 'foreign-id-selector'
+  | 'html-body-selector'
+  | 'unscopable-atrule'
+  | 'unsupported-atrule'
+  | 'level-rotate-removed'
+
+export type ScopeWarningSeverity = 'error' | 'warning' | 'info'
+
+export interface ScopeWarning {
+  code: ScopeWarningCode
+  severity: ScopeWarningSeverity
+  /** 按 ScopeOptions.locale 生成的说明；调用方也可以用 code + params 自行翻译 */
+  message: string
+  params: Record<string, string>
+  /** 触发警告的 <style> 在文档中的序号（从 0 开始） */
+  styleIndex: number | null
+  /** 在原始 SVG 源码中的行列（从 1 开始），无法定位时为 null */
+  line: number | null
+  column: number | null
+  selector: string | null
+}
+
+const WARNING_SEVERITIES: Record<ScopeWarningCode, ScopeWarningSeverity> = {
+  'css-parse-error': 'error',
+  'foreign-id-selector': 'warning',
+  'html-body-selector': 'warning',
+  'unscopable-atrule': 'info',
+  'unsupported-atrule': 'warning',
+  'level-rotate-removed': 'warning',
+}
+
+// 位置先记录为相对 <style> 内容的行列，由 scopeSvgContent 换算成源码位置
+function createWarning(
+  locale: Locale,
+  code: ScopeWarningCode,
+  params: Record<string, string>,
+  node?: CssNode,
+  selector: string | null = null
+): ScopeWarning {
+  return {
+    code,
+    severity: WARNING_SEVERITIES[code],
+    message: translate(locale, `warning.${code}`, params),
+    params,
+    styleIndex: null,
+    line: node?.loc?.start.line ?? null,
+    column: node?.loc?.start.column ?? null,
+    selector,
+  }
+}
+
+export interface KeyframesRename {
+  name: string
+  scopedName: string
+}
+
+export interface IdRename {
+  id: string
+  scopedId: string
+}
+
+export interface ClassRename {
+  name: string
+  scopedName: string
+}
+
+export type ScopeStrategy = 'id-prefix' | 'class-namespace'
+
+export const SCOPE_STRATEGIES: ScopeStrategy[] = [
+  'id-prefix',
+  'class-namespace',
+]
+
+export function isScopeStrategy(value: unknown): value is ScopeStrategy {
+  return (SCOPE_STRATEGIES as unknown[]).includes(value)
+}
+
+interface CssRenames {
+  keyframes: Map<string, string>
+  ids: Map<string, string>
+  /** 处理过程中遇到的类名，旧类名 → 新类名 */
+  classes: Map<string, string>
+  /** class-namespace 模式下类名的前缀，id-prefix 模式为 null */
+  classPrefix: string | null
 }
 
 const ID_SAFE_PATTERN = /[^\p{Letter}\p{Number}_-]+/gu
 const VENDOR_PREFIX_PATTERN = /^-[a-z]+-/
-const LEVEL_RECT_IDS = ['level', 'level1', 'level_1', 'level2'] as const
+// 规则体内的选择器会递归加上作用域
+const CONDITIONAL_ATRULES = ['media', 'supports', 'layer', 'container']
+// 对整个文档生效，无法限定到某个 svg
+const UNSCOPABLE_ATRULES = ['font-face', 'import']
+// 选中的是 svg 根元素本身，直接换成 #id
+const ROOT_PSEUDO_CLASSES = ['root', 'host']
+const PAGE_TYPE_SELECTORS = ['html', 'body']
+
+function withoutVendorPrefix(name: string) {
+  return name.trim().toLowerCase().replace(VENDOR_PREFIX_PATTERN, '')
+}
 
-type LevelRectId = (typeof LEVEL_RECT_IDS)[number]
-type LevelTransitionSeconds = Partial<Record<LevelRectId, number>>
+function isKeyframesAtrule(name: string) {
+  return withoutVendorPrefix(name) === 'keyframes'
+}
 
-function isTransitionProperty(property: string) {
-  const normalized = property.trim().toLowerCase()
-  const withoutVendor = normalized.replace(VENDOR_PREFIX_PATTERN, '')
-  return (
-    withoutVendor === 'transition' || withoutVendor.startsWith('transition-')
-  )
+function isAnimationNameProperty(property: string) {
+  const withoutVendor = withoutVendorPrefix(property)
+  return withoutVendor === 'animation' || withoutVendor === 'animation-name'
 }
 
 function sanitizeId(value: string) {
@@ -38,48 +185,291 @@ function sanitizeId(value: string) {
   return collapsed
 }
 
-function generateSvgId() {
-  return `svg-${Math.random().toString(36).slice(2, 10)}`
+function generateSvgId(random: () => number) {
+  return `svg-${random().toString(36).slice(2, 10)}`
+}
+
+function getKeyframesPreludeNode(node: CssNode) {
+  if (node.prelude?.type !== 'AtrulePrelude') return null
+  const first = node.prelude.children?.first
+  if (first?.type === 'Identifier' || first?.type === 'String') return first
+  return null
+}
+
+function getKeyframesName(nameNode: CssNode) {
+  return nameNode.type === 'String' ? String(nameNode.value) : nameNode.name
+}
+
+function collectKeyframeNames(css: string) {
+  const names: string[] = []
+  try {
+    const ast = parse(css, { parseAtrulePrelude: true })
+    walk(ast, {
+      enter(node) {
+        if (node.type !== 'Atrule' || !isKeyframesAtrule(node.name)) return
+        const nameNode = getKeyframesPreludeNode(node)
+        if (!nameNode) return
+        names.push(getKeyframesName(nameNode))
+      },
+    })
+  } catch {
+    return names
+  }
+  return names
+}
+
+// 给名字加上 `<svgId>--` 前缀；已经带有旧 id 前缀的名字会换成新 id
+function namespaceName(
+  name: string,
+  id: string,
+  aliases: string[],
+  separator = '--'
+) {
+  if (name.startsWith(`${id}${separator}`)) return name
+  const alias = aliases.find(
+    (prefix) =>
+      prefix && prefix !== id && name.startsWith(`${prefix}${separator}`)
+  )
+  const baseName = alias ? name.slice(alias.length + separator.length) : name
+  return `${id}${separator}${baseName}`
+}
+
+function registerClassName(name: string, aliases: string[], renames: CssRenames) {
+  const existing = renames.classes.get(name)
+  if (existing) return existing
+  const scopedName = renames.classPrefix
+    ? namespaceName(name, renames.classPrefix, aliases, '__')
+    : name
+  renames.classes.set(name, scopedName)
+  return scopedName
+}
+
+function buildKeyframeRenames(names: string[], id: string, aliases: string[]) {
+  const renames = new Map<string, string>()
+
+  names.forEach((name) => {
+    if (renames.has(name) || name.startsWith(`${id}--`)) return
+    renames.set(name, namespaceName(name, id, aliases))
+  })
+
+  return renames
+}
+
+function isRootSelectorNode(node: CssNode) {
+  if (node.type === 'TypeSelector') return node.name.toLowerCase() === 'svg'
+  return (
+    node.type === 'PseudoClassSelector' &&
+    node.children === null &&
+    ROOT_PSEUDO_CLASSES.includes(node.name.toLowerCase())
+  )
+}
+
+// `svg .a` → `#id .a`，`:root` → `#id`；首个复合选择器里已经有 #id 时保持不变
+function mapRootSelector(selector: CssNode, id: string) {
+  const { children } = selector
+  const first = children?.first
+  if (!children || !first || !isRootSelectorNode(first)) return false
+
+  let hasId = false
+  for (const child of children) {
+    if (child.type === 'Combinator') break
+    if (child.type === 'IdSelector') hasId = true
+  }
+  if (hasId) return false
+
+  children.shift()
+  children.prependData({ type: 'IdSelector', name: id })
+  return true
+}
+
+function findPageSelector(selector: CssNode) {
+  let pageSelector: string | null = null
+  selector.children?.forEach((child) => {
+    if (
+      child.type === 'TypeSelector' &&
+      PAGE_TYPE_SELECTORS.includes(child.name.toLowerCase())
+    ) {
+      pageSelector = child.name
+    }
+  })
+  return pageSelector
+}
+
+function renameAnimationReferences(
+  declaration: CssNode,
+  keyframeRenames: Map<string, string>
+) {
+  const { value } = declaration
+  if (typeof value !== 'object' || value?.type !== 'Value') return false
+  let renamed = false
+  value.children?.forEach((child) => {
+    if (child.type !== 'Identifier') return
+    const scopedName = keyframeRenames.get(child.name)
+    if (!scopedName) return
+    child.name = scopedName
+    renamed = true
+  })
+  return renamed
 }
 
 function prefixCssSelectors(
   css: string,
   id: string,
-  aliases: string[]
+  aliases: string[],
+  renames: CssRenames,
+  removalMatcher: RemovalMatcher,
+  locale: Locale
 ): PrefixResult {
   try {
     const ast = parse(css, {
       parseAtrulePrelude: true,
       parseRulePrelude: true,
-    }) as any
+      positions: true,
+    })
     let selectorsChanged = false
-    let transitionsStripped = false
+    let propertiesStripped = false
     let allScoped = true
-    const warnings: string[] = []
+    let allScopedAfter = true
+    let keyframesRenamed = false
+    const warnings: ScopeWarning[] = []
+    const removals: RemovalRecord[] = []
+    // 规则进入时选择器还没加作用域，报告里记录原始选择器
+    const originalSelectors = new WeakMap<object, string>()
     const aliasSet = new Set(
       aliases.filter((name) => name && name !== id)
     )
 
-    ;(walk as any)(ast, {
-      enter(node: any, item: any, list: any) {
-        if (node.type === 'Declaration' && isTransitionProperty(node.property)) {
+    walk(ast, {
+      enter(node, item, list) {
+        if (node.type === 'Rule') {
+          originalSelectors.set(node, generate(node.prelude!))
+        }
+
+        if (
+          node.type === 'Declaration' &&
+          removalMatcher.property(node.property)
+        ) {
           if (list && item) {
             list.remove(item)
-            transitionsStripped = true
+            propertiesStripped = true
+            removals.push({
+              source: 'style-block',
+              name: node.property,
+              value: generate(node.value as CssNode).trim(),
+              selector: this.rule
+                ? (originalSelectors.get(this.rule) ?? null)
+                : this.atrule
+                  ? `@${this.atrule.name}`
+                  : null,
+              styleIndex: null,
+              element: null,
+            })
+          }
+          return
+        }
+
+        if (node.type === 'Declaration' && isAnimationNameProperty(node.property)) {
+          keyframesRenamed =
+            renameAnimationReferences(node, renames.keyframes) || keyframesRenamed
+          return
+        }
+
+        if (
+          node.type === 'Url' &&
+          typeof node.value === 'string' &&
+          node.value.startsWith('#')
+        ) {
+          const scopedId = renames.ids.get(node.value.slice(1))
+          if (scopedId && scopedId !== node.value.slice(1)) {
+            node.value = `#${scopedId}`
+            selectorsChanged = true
           }
           return
         }
 
-        if (node.type !== 'Rule' || node.prelude.type !== 'SelectorList') {
+        if (node.type === 'Atrule') {
+          const name = withoutVendorPrefix(node.name)
+          if (UNSCOPABLE_ATRULES.includes(name)) {
+            warnings.push(
+              createWarning(
+                locale,
+                'unscopable-atrule',
+                { atrule: node.name },
+                node
+              )
+            )
+            return walk.skip
+          }
+          if (!isKeyframesAtrule(name) && !CONDITIONAL_ATRULES.includes(name)) {
+            if (node.block?.children?.some((child) => child.type === 'Rule')) {
+              allScopedAfter = false
+              warnings.push(
+                createWarning(
+                  locale,
+                  'unsupported-atrule',
+                  { atrule: node.name },
+                  node
+                )
+              )
+              return walk.skip
+            }
+            return
+          }
+        }
+
+        if (node.type === 'Atrule' && isKeyframesAtrule(node.name)) {
+          const nameNode = getKeyframesPreludeNode(node)
+          const currentName = nameNode && getKeyframesName(nameNode)
+          const scopedName = currentName && renames.keyframes.get(currentName)
+          if (!nameNode || !scopedName) return
+          if (nameNode.type === 'String') {
+            nameNode.value = scopedName
+          } else {
+            nameNode.name = scopedName
+          }
+          keyframesRenamed = true
+          return
+        }
+
+        if (node.type !== 'Rule' || node.prelude?.type !== 'SelectorList') {
           return
         }
 
-        node.prelude.children.forEach((selector: any) => {
+        // @keyframes 内的 from / to / 百分比不是选择器
+        if (this.atrule && isKeyframesAtrule(this.atrule.name)) {
+          return
+        }
+
+        node.prelude.children?.forEach((selector) => {
+          const selectorText = generate(selector)
           let hadTargetBefore = false
           let hadAliasBefore = false
+          let hadInternalId = false
           let hasOtherId = false
+          let hasClass = false
+          let classRenamed = false
+
+          const rootMapped = mapRootSelector(selector, id)
 
-          selector.children.forEach((child: any) => {
+          walk(selector, {
+            visit: 'ClassSelector',
+            enter(classNode) {
+              const scopedName = registerClassName(
+                classNode.name,
+                aliases,
+                renames
+              )
+              if (scopedName === classNode.name) return
+              classNode.name = scopedName
+              classRenamed = true
+            },
+          })
+
+          selector.children?.forEach((child) => {
+            if (child.type === 'ClassSelector') {
+              hasClass = true
+              return
+            }
             if (child.type !== 'IdSelector') {
               return
             }
@@ -92,28 +482,69 @@ function prefixCssSelectors(
               child.name = id
               return
             }
+            // 加了命名空间的内部 id 在页面内唯一，本身就限定了作用域；
+            // 白名单里保留原名的 id 则按普通选择器处理
+            const scopedId = renames.ids.get(child.name)
+            if (scopedId === child.name) {
+              if (child.name.startsWith(`${id}--`)) hadTargetBefore = true
+              return
+            }
+            if (scopedId) {
+              hadInternalId = true
+              child.name = scopedId
+              return
+            }
             hasOtherId = true
           })
 
-          if (hadAliasBefore) {
+          if (hadAliasBefore || hadInternalId || classRenamed || rootMapped) {
             selectorsChanged = true
           }
 
-          const wasScoped = hadTargetBefore || hadAliasBefore
+          // class-namespace 模式下带类名的选择器已经由类名限定作用域，
+          // 只有纯标签 / 通配选择器才需要退回到 #id 前缀
+          const scopedByClass = Boolean(renames.classPrefix) && hasClass
+          const wasScoped =
+            (hadTargetBefore && !rootMapped) ||
+            hadAliasBefore ||
+            (scopedByClass && !classRenamed)
           allScoped = allScoped && wasScoped
 
-          if (wasScoped) {
+          if (wasScoped || hadInternalId || scopedByClass || rootMapped) {
+            return
+          }
+
+          // `#id html` 永远匹配不到，只能交给使用者处理
+          const pageSelector = findPageSelector(selector)
+          if (pageSelector) {
+            allScopedAfter = false
+            warnings.push(
+              createWarning(
+                locale,
+                'html-body-selector',
+                { selector: selectorText, element: pageSelector },
+                selector,
+                selectorText
+              )
+            )
             return
           }
 
           if (hasOtherId) {
+            allScopedAfter = false
             warnings.push(
-              `选择器 "${generate(selector)}" 中已经存在其他 #id，将跳过自动作用域处理。`
+              createWarning(
+                locale,
+                'foreign-id-selector',
+                { selector: selectorText },
+                selector,
+                selectorText
+              )
             )
             return
           }
 
-          if (selector.children.isEmpty) {
+          if (!selector.children || selector.children.isEmpty) {
             return
           }
 
@@ -130,62 +561,233 @@ function prefixCssSelectors(
       },
     })
 
-    const changed = selectorsChanged || transitionsStripped
+    const changed = selectorsChanged || propertiesStripped || keyframesRenamed
     return {
       css: generate(ast),
       changed,
       selectorsChanged,
-      transitionsStripped,
+      propertiesStripped,
       allScoped,
+      allScopedAfter,
+      keyframesRenamed,
       warnings,
+      removals,
     }
-  } catch (error) {
+  } catch {
     return {
       css,
       changed: false,
       selectorsChanged: false,
-      transitionsStripped: false,
+      propertiesStripped: false,
       allScoped: false,
+      allScopedAfter: false,
+      keyframesRenamed: false,
       warnings: [
-        '无法解析样式文本，已跳过自动作用域处理。请手动检查这段 CSS。',
+        createWarning(locale, 'css-parse-error', {}),
       ],
+      removals: [],
     }
   }
 }
 
-function stripTransitionFromInlineStyle(styleValue: string) {
+function processInlineStyle(
+  styleValue: string,
+  keyframeRenames: Map<string, string>,
+  removalMatcher: RemovalMatcher
+) {
   const trimmed = styleValue.trim()
-  if (!trimmed) return { style: styleValue, changed: false }
+  const removed: { name: string; value: string }[] = []
+  if (!trimmed) return { style: styleValue, changed: false, removed }
 
   try {
-    const ast = parse(trimmed, { context: 'declarationList' }) as any
+    const ast = parse(trimmed, { context: 'declarationList' })
     let changed = false
 
-    ;(walk as any)(ast, {
-      enter(node: any, item: any, list: any) {
+    walk(ast, {
+      enter(node, item, list) {
         if (node.type !== 'Declaration') return
-        if (!isTransitionProperty(node.property)) return
-        if (list && item) {
-          list.remove(item)
-          changed = true
+        if (removalMatcher.property(node.property)) {
+          if (list && item) {
+            list.remove(item)
+            removed.push({
+              name: node.property,
+              value: generate(node.value as CssNode).trim(),
+            })
+            changed = true
+          }
+          return
+        }
+        if (isAnimationNameProperty(node.property)) {
+          changed = renameAnimationReferences(node, keyframeRenames) || changed
         }
       },
     })
 
     const next = generate(ast).trim()
-    return { style: next, changed }
+    return { style: next, changed, removed }
   } catch {
-    const next = trimmed
-      .replace(
-        /(^|;)\s*(-[a-z]+-)?transition(-[a-z-]+)?\s*:[^;]*;?/gi,
-        '$1'
+    const kept = trimmed.split(';').filter((declaration) => {
+      const colon = declaration.indexOf(':')
+      if (colon === -1) return declaration.trim() !== ''
+      const name = declaration.slice(0, colon).trim()
+      if (!removalMatcher.property(name)) return true
+      removed.push({ name, value: declaration.slice(colon + 1).trim() })
+      return false
+    })
+    const next = kept
+      .map((declaration) => declaration.trim())
+      .filter(Boolean)
+      .join(';')
+
+    return { style: next, changed: removed.length > 0, removed }
+  }
+}
+
+// 只在 SVG 内有效的元素、编辑器导出的 `transition="..."` 等属性也按策略移除
+function applyRemovalPolicy(svg: XmlElement, removalMatcher: RemovalMatcher) {
+  const removals: RemovalRecord[] = []
+
+  // 被移除元素的子元素随之移除，不再单独记录
+  const visit = (parent: XmlElement) => {
+    Array.from(parent.children).forEach((element) => {
+      if (!removalMatcher.element(element.localName)) {
+        visit(element)
+        return
+      }
+      element.remove()
+      removals.push({
+        source: 'element',
+        name: element.localName,
+        value: null,
+        selector: null,
+        styleIndex: null,
+        element: describeRemovalElement(
+          element.localName,
+          element.getAttribute('id')
+        ),
+      })
+    })
+  }
+  visit(svg)
+
+  ;[svg, ...findDescendants(svg, () => true)].forEach((element) => {
+    element
+      .getAttributeNames()
+      .filter((name) => name !== 'style' && removalMatcher.property(name))
+      .forEach((name) => {
+        removals.push({
+          source: 'attribute',
+          name,
+          value: element.getAttribute(name),
+          selector: null,
+          styleIndex: null,
+          element: describeRemovalElement(
+            element.localName,
+            element.getAttribute('id')
+          ),
+        })
+        element.removeAttribute(name)
+      })
+  })
+
+  return removals
+}
+
+const URL_REFERENCE_PATTERN = /url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g
+const HREF_ATTRIBUTES = ['href', 'xlink:href']
+const ID_LIST_ATTRIBUTES = [
+  'aria-activedescendant',
+  'aria-controls',
+  'aria-describedby',
+  'aria-flowto',
+  'aria-labelledby',
+  'aria-owns',
+]
+const SMIL_TIMING_ATTRIBUTES = ['begin', 'end']
+
+// 返回 旧 id → 新 id；白名单与已带当前前缀的 id 映射到自身，CSS 处理时据此识别内部 id
+function buildIdRenames(
+  svg: XmlElement,
+  id: string,
+  aliases: string[],
+  preservedIds: readonly string[]
+) {
+  const renames = new Map<string, string>()
+  const preserved = new Set(preservedIds)
+
+  findDescendants(svg, (element) => element.hasAttribute('id')).forEach(
+    (element) => {
+      const currentId = element.getAttribute('id') ?? ''
+      if (!currentId || renames.has(currentId)) return
+      renames.set(
+        currentId,
+        preserved.has(currentId)
+          ? currentId
+          : namespaceName(currentId, id, aliases)
       )
-      .replace(/;{2,}/g, ';')
-      .replace(/^\s*;\s*/g, '')
-      .trim()
+    }
+  )
+
+  return renames
+}
+
+function rewriteSmilTiming(value: string, renames: Map<string, string>) {
+  return value
+    .split(';')
+    .map((token) =>
+      token.replace(
+        /^(\s*)([^\s.;+-][^\s.;+]*)\./,
+        (match, space: string, ref: string) => {
+          const scopedId = renames.get(ref)
+          return scopedId ? `${space}${scopedId}.` : match
+        }
+      )
+    )
+    .join(';')
+}
 
-    return { style: next, changed: next !== trimmed }
+function rewriteIdReferences(
+  name: string,
+  value: string,
+  renames: Map<string, string>
+) {
+  let next = value
+  if (HREF_ATTRIBUTES.includes(name) && value.startsWith('#')) {
+    next = `#${renames.get(value.slice(1)) ?? value.slice(1)}`
+  } else if (ID_LIST_ATTRIBUTES.includes(name)) {
+    next = value.replace(/[^\s]+/g, (ref) => renames.get(ref) ?? ref)
+  } else if (SMIL_TIMING_ATTRIBUTES.includes(name)) {
+    next = rewriteSmilTiming(value, renames)
   }
+
+  return next.replace(
+    URL_REFERENCE_PATTERN,
+    (match, quote: string, ref: string) => {
+      const scopedId = renames.get(ref)
+      return scopedId ? `url(${quote}#${scopedId}${quote})` : match
+    }
+  )
+}
+
+function applyIdRenames(svg: XmlElement, renames: Map<string, string>) {
+  let changed = false
+
+  ;[svg, ...findDescendants(svg, () => true)].forEach((element) => {
+    element.getAttributeNames().forEach((name) => {
+      const value = element.getAttribute(name) ?? ''
+      const next =
+        name === 'id'
+          ? element === svg
+            ? value
+            : (renames.get(value) ?? value)
+          : rewriteIdReferences(name, value, renames)
+      if (next === value) return
+      element.setAttribute(name, next)
+      changed = true
+    })
+  })
+
+  return changed
 }
 
 function parseSvgNumber(value: string | null) {
@@ -199,11 +801,6 @@ function formatSvgNumber(value: number) {
   return `${rounded}`
 }
 
-function formatCssSeconds(value: number) {
-  const rounded = Math.round(value * 1000) / 1000
-  return `${rounded}s`
-}
-
 function appendInlineStyle(styleValue: string, declaration: string) {
   const trimmed = styleValue.trim()
   if (!trimmed) return declaration.trim()
@@ -211,61 +808,245 @@ function appendInlineStyle(styleValue: string, declaration: string) {
   return `${trimmed}${joiner}${declaration.trim()}`
 }
 
-function ensureLevelRectTransform(rect: SVGRectElement) {
+// 旧版本处理 btt 时追加的 rotate(180 cx cy)，没有时返回 null
+function getLevelRectRotate(rect: XmlElement) {
   const x = parseSvgNumber(rect.getAttribute('x')) ?? 0
   const y = parseSvgNumber(rect.getAttribute('y')) ?? 0
   const width = parseSvgNumber(rect.getAttribute('width'))
   const height = parseSvgNumber(rect.getAttribute('height'))
-
-  if (width === null || height === null) return false
+  const existing = rect.getAttribute('transform')
+  if (width === null || height === null || existing === null) return null
 
   const cx = x + width / 2
   const cy = y + height / 2
   const rotate = `rotate(180 ${formatSvgNumber(cx)} ${formatSvgNumber(cy)})`
-  const existing = rect.getAttribute('transform')?.trim() ?? ''
-  if (existing.includes(rotate)) return false
+  return existing.includes(rotate) ? rotate : null
+}
 
-  rect.setAttribute('transform', existing ? `${existing} ${rotate}` : rotate)
-  return true
+function removeLevelRectRotate(rect: XmlElement, rotate: string) {
+  const next = (rect.getAttribute('transform') ?? '')
+    .replace(rotate, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (next) {
+    rect.setAttribute('transform', next)
+  } else {
+    rect.removeAttribute('transform')
+  }
 }
 
-function ensureLevelRectTransitionInlineStyle(rect: SVGRectElement, seconds: number) {
-  if (!Number.isFinite(seconds) || seconds <= 0) return false
+function ensureLevelTransitionInlineStyle(
+  element: XmlElement,
+  properties: string[],
+  transition: LevelTransition
+) {
+  const { duration } = transition
+  if (!Number.isFinite(duration) || duration <= 0) return false
 
-  const existingStyle = rect.getAttribute('style') ?? ''
-  const declaration = `transition: height ${formatCssSeconds(seconds)};`
+  const existingStyle = element.getAttribute('style') ?? ''
+  const value = formatLevelTransition(properties, transition)
+  const declaration = `transition: ${value};`
   const nextStyle = appendInlineStyle(existingStyle, declaration)
   if (nextStyle === existingStyle) return false
-  rect.setAttribute('style', nextStyle)
+  element.setAttribute('style', nextStyle)
   return true
 }
 
-function applyLevelEnhancements(
-  svg: SVGSVGElement,
-  levelTransitionSeconds?: LevelTransitionSeconds
+const LEVEL_SHAPE_TRANSFORM_ORIGINS: Record<LevelFillDirection, string> = {
+  btt: '50% 100%',
+  ttb: '50% 0%',
+  ltr: '0% 50%',
+  rtl: '100% 50%',
+}
+
+// rect 以外的形状没有 height / width 可用，运行时通过 scaleY / scaleX 从起始边填充
+function ensureLevelShapeTransformOrigin(
+  element: XmlElement,
+  direction: LevelFillDirection
+) {
+  const existingStyle = element.getAttribute('style') ?? ''
+  const declarations = [
+    ['transform-box', 'fill-box'],
+    ['transform-origin', LEVEL_SHAPE_TRANSFORM_ORIGINS[direction]],
+  ]
+    .filter(
+      ([property]) =>
+        !new RegExp(`(^|;)\\s*${property}\\s*:`, 'i').test(existingStyle)
+    )
+    .map(([property, value]) => `${property}: ${value};`)
+  if (!declarations.length) return false
+  element.setAttribute(
+    'style',
+    appendInlineStyle(existingStyle, declarations.join(' '))
+  )
+  return true
+}
+
+export interface LevelRect {
+  /** 液位元素的 key，与 levelTransitions / levelFillDirections 的键对应 */
+  key: string
+  id: string | null
+  tagName: string
+  direction: LevelFillDirection
+  /** 运行时要改变的尺寸：rect 直接改该属性，其他形状改 scaleY / scaleX */
+  dimension: 'height' | 'width'
+  /**
+   * btt 的 rect 以下边缘为锚点，运行时需同步设置 y = anchor - height；
+   * rtl 以右边缘为锚点，同步设置 x = anchor - width。
+   * 沿用旧版 rotate(180) 的 btt rect 为 null，只改 height 即可
+   */
+  anchor: number | null
+  /**
+   * 空 / 满时的取值：优先取标定值（data-level-min / data-level-max），
+   * 否则 rect 为 0 与 dimension 的原始数值（缺失时为 null），其他形状为 scale 系数 0 / 1
+   */
+  min: number
+  max: number | null
+}
+
+// levelCalibrations 里出现的 key 以传入值为准（null 会移除属性），未出现的沿用 SVG 里已有的标定
+function applyLevelCalibration(
+  element: XmlElement,
+  calibration: LevelCalibration | undefined
 ) {
-  const rectIds = LEVEL_RECT_IDS.filter((rectId) =>
-    svg.querySelector(`rect#${rectId}`)
-  ) as LevelRectId[]
+  if (!calibration) return false
+  let changed = false
+  const entries: [string, number | null][] = [
+    [LEVEL_MIN_ATTRIBUTE, calibration.min],
+    [LEVEL_MAX_ATTRIBUTE, calibration.max],
+  ]
+  entries.forEach(([name, value]) => {
+    const next = value === null ? null : formatSvgNumber(value)
+    if (element.getAttribute(name) === next) return
+    if (next === null) {
+      if (!element.hasAttribute(name)) return
+      element.removeAttribute(name)
+    } else {
+      element.setAttribute(name, next)
+    }
+    changed = true
+  })
+  return changed
+}
 
-  if (!rectIds.length) {
-    return { changed: false, rectIds: [] as LevelRectId[] }
+// 不旋转元素，避免图案 / 渐变被镜像：btt 以下边缘为锚点同步改 y，
+// rtl 以右边缘为锚点同步改 x。已处理过的 btt rect 保留旧版的 rotate(180)，
+// 只改 height 的运行时代码仍然可用；换成其他方向时才去掉
+function applyLevelRectDirection(
+  rect: XmlElement,
+  direction: LevelFillDirection,
+  transition: LevelTransition,
+  legacyRotate: string | null
+) {
+  if (legacyRotate && direction === 'btt') {
+    return ensureLevelTransitionInlineStyle(rect, ['height'], transition)
   }
+  if (legacyRotate) removeLevelRectRotate(rect, legacyRotate)
+  const properties: Record<LevelFillDirection, string[]> = {
+    btt: ['height', 'y'],
+    ttb: ['height'],
+    ltr: ['width'],
+    rtl: ['width', 'x'],
+  }
+  return (
+    ensureLevelTransitionInlineStyle(rect, properties[direction], transition) ||
+    legacyRotate !== null
+  )
+}
+
+function getLevelRectAnchor(rect: XmlElement, direction: LevelFillDirection) {
+  if (direction !== 'btt' && direction !== 'rtl') return null
+  const [position, size] =
+    direction === 'btt' ? ['y', 'height'] : ['x', 'width']
+  const length = parseSvgNumber(rect.getAttribute(size))
+  if (length === null) return null
+  return (parseSvgNumber(rect.getAttribute(position)) ?? 0) + length
+}
+
+function applyLevelEnhancements(
+  svg: XmlElement,
+  levelRules: readonly LevelDetectionRule[],
+  {
+    levelTransitions,
+    levelFillDirections,
+    levelCalibrations,
+  }: Pick<
+    ScopeOptions,
+    'levelTransitions' | 'levelFillDirections' | 'levelCalibrations'
+  >,
+  locale: Locale
+) {
+  const matches = detectLevelElements(svg, levelRules)
+  const warnings: ScopeWarning[] = []
 
   let changed = false
-  rectIds.forEach((rectId) => {
-    const rect = svg.querySelector(`rect#${rectId}`) as SVGRectElement | null
-    if (!rect) return
-    changed = ensureLevelRectTransform(rect) || changed
-    const seconds = levelTransitionSeconds?.[rectId] ?? 5
-    changed = ensureLevelRectTransitionInlineStyle(rect, seconds) || changed
+  const levelRects = matches.map(({ key, id, element }): LevelRect => {
+    const transition = levelTransitions?.[key] ?? DEFAULT_LEVEL_TRANSITION
+    const direction =
+      levelFillDirections?.[key] ?? DEFAULT_LEVEL_FILL_DIRECTION
+    const dimension =
+      direction === 'ltr' || direction === 'rtl' ? 'width' : 'height'
+    const isRect = element.localName === 'rect'
+    const legacyRotate = isRect ? getLevelRectRotate(element) : null
+    const keepsRotate = legacyRotate !== null && direction === 'btt'
+    // 锚点与尺寸按改写前的几何计算，去掉旧的 rotate(180) 不影响 x / y / width / height
+    const anchor =
+      isRect && !keepsRotate ? getLevelRectAnchor(element, direction) : null
+    changed =
+      applyLevelCalibration(element, levelCalibrations?.[key]) || changed
+    const calibration = readLevelCalibration(element)
+    const max =
+      calibration.max ??
+      (isRect ? parseSvgNumber(element.getAttribute(dimension)) : 1)
+
+    // 没有 id 的液位元素写入 key，运行时代码据此查找
+    if (!id && element.getAttribute('data-level-key') !== key) {
+      element.setAttribute('data-level-key', key)
+      changed = true
+    }
+
+    if (isRect) {
+      changed =
+        applyLevelRectDirection(element, direction, transition, legacyRotate) ||
+        changed
+      if (legacyRotate && !keepsRotate) {
+        warnings.push(
+          createWarning(locale, 'level-rotate-removed', { key, direction })
+        )
+      }
+    } else {
+      changed = ensureLevelShapeTransformOrigin(element, direction) || changed
+      changed =
+        ensureLevelTransitionInlineStyle(element, ['transform'], transition) ||
+        changed
+    }
+
+    return {
+      key,
+      id,
+      tagName: element.localName,
+      direction,
+      dimension,
+      anchor,
+      min: calibration.min ?? 0,
+      max,
+    }
   })
 
-  return { changed, rectIds }
+  return {
+    changed,
+    levelRects,
+    warnings,
+    elements: matches.map(({ element }) => element),
+  }
 }
 
+export type ScopeErrorCode = 'xml-parse-error' | 'missing-svg-root' | 'empty-id'
+
 export interface SvgScopeResult {
   ok: boolean
+  /** 与语言无关的错误码，调用方可据此自行翻译 */
+  errorCode?: ScopeErrorCode
   error?: string
   svgId: string
   generatedId: boolean
@@ -273,26 +1054,118 @@ export interface SvgScopeResult {
   scopedAfter: boolean
   changed: boolean
   processed: string
-  classes: string[]
-  warnings: string[]
-  levelRects: LevelRectId[]
+  classes: ClassRename[]
+  warnings: ScopeWarning[]
+  levelRects: LevelRect[]
+  keyframes: KeyframesRename[]
+  idRenames: IdRename[]
+  /** 按移除策略删掉的声明、属性与元素 */
+  removals: RemovalRecord[]
+  /** 开启 sanitizePolicy 时清理掉的脚本、事件属性、外部引用等 */
+  sanitized: SanitizeRecord[]
+  /** 开启 optimize 时各优化步骤的改动数量，未开启为 null */
+  optimized: OptimizeStats | null
+}
+
+function createFailedResult(
+  svgContent: string,
+  errorCode: ScopeErrorCode,
+  locale: Locale
+): SvgScopeResult {
+  return {
+    ok: false,
+    errorCode,
+    error: translate(locale, `error.${errorCode}`),
+    svgId: '',
+    generatedId: false,
+    scopedBefore: false,
+    scopedAfter: false,
+    changed: false,
+    processed: svgContent,
+    classes: [],
+    warnings: [],
+    levelRects: [],
+    keyframes: [],
+    idRenames: [],
+    removals: [],
+    sanitized: [],
+    optimized: null,
+  }
+}
+
+export type IdStrategy = 'random' | 'content-hash' | 'path-hash'
+
+export const ID_STRATEGIES: IdStrategy[] = ['random', 'content-hash', 'path-hash']
+
+export function isIdStrategy(value: unknown): value is IdStrategy {
+  return (ID_STRATEGIES as unknown[]).includes(value)
 }
 
-interface ScopeOptions {
+export interface ScopeOptions {
   desiredId?: string
   fileName?: string
   forceNewId?: boolean
-  levelTransitionSeconds?: LevelTransitionSeconds
+  /** 液位元素 key → 过渡设置（属性、时长、timing-function、延迟） */
+  levelTransitions?: LevelTransitions
+  /** 液位元素 key → 填充方向，未指定的元素自下而上（btt）填充 */
+  levelFillDirections?: LevelFillDirections
+  /** 液位元素 key → 空 / 满标定值，写入 data-level-min / data-level-max */
+  levelCalibrations?: LevelCalibrations
+  xmlAdapter?: XmlAdapter
+  random?: () => number
+  idStrategy?: IdStrategy
+  /**
+   * id-prefix（默认）：选择器前置 `#<svgId>`；
+   * class-namespace：类名改为 `<svgId>__<name>`，不增加选择器优先级
+   */
+  scopeStrategy?: ScopeStrategy
+  /** 为内部元素 id 加 `<svgId>--` 前缀，并同步更新所有引用 */
+  namespaceIds?: boolean
+  /** namespaceIds 开启时额外保留原名的 id；识别出的液位元素 id 总是保留 */
+  preservedIds?: readonly string[]
+  /** 液位元素识别规则，默认识别 id 为 level / level1 / level_1 … 的 rect */
+  levelRules?: readonly LevelDetectionRule[]
+  /** 要移除 / 保留的 CSS 属性与 SVG 元素，默认只移除 transition 相关声明 */
+  removalPolicy?: RemovalPolicy
+  /**
+   * 清理不可信 SVG：移除脚本、事件属性、外部链接、foreignObject、@import 与远程 url()，
+   * 放行列表中的除外；默认 null 不做清理
+   */
+  sanitizePolicy?: SanitizePolicy | null
+  /**
+   * 输出前的优化步骤：移除编辑器元数据、注释、空组，数值取整与 CSS 压缩；
+   * 默认 null 不做优化，液位元素的几何属性始终保持原值
+   */
+  optimize?: OptimizeOptions | null
+  /** error / warning 说明文字使用的语言，默认 zh-CN */
+  locale?: Locale
+}
+
+// 每个 <style> 内容在源码中的起始行列，用来把 CSS 内的位置换算成源码位置。
+// 注释、CDATA、处理指令与 DOCTYPE 里的 `<style>` 不算，结果与文档中 style 元素的顺序一致
+const STYLE_TAG_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<\?[\s\S]*?(?:\?>|$)|<!DOCTYPE(?:[^[>]|\[[\s\S]*?\])*>?|<((?:[\w.-]+:)?style)(?=[\s/>])[^>]*>/g
+
+function locateStyleContents(svgContent: string) {
+  const source = svgContent.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  return Array.from(source.matchAll(STYLE_TAG_PATTERN))
+    .filter((match) => match[1])
+    .map((match) => {
+      const lines = source.slice(0, match.index + match[0].length).split('\n')
+      return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+    })
 }
 
-function deriveIdFromFileName(fileName?: string) {
+function deriveIdFromFileName(random: () => number, fileName?: string) {
   if (!fileName) return ''
-  const baseName = fileName.replace(/\.[^/.\\]+$/g, '')
+  const baseName = fileName
+    .replace(/^.*[/\\]/, '')
+    .replace(/\.[^/.\\]+$/g, '')
   const sanitizedBase = sanitizeId(baseName)
   if (!sanitizedBase) {
     return ''
   }
-  const suffix = Math.floor(Math.random() * 9000 + 1000).toString()
+  const suffix = Math.floor(random() * 9000 + 1000).toString()
   return `${sanitizedBase}-${suffix}`
 }
 
@@ -300,85 +1173,85 @@ export function scopeSvgContent(
   svgContent: string,
   options: ScopeOptions = {}
 ): SvgScopeResult {
-  const { desiredId, fileName, forceNewId = false } = options
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(svgContent, 'image/svg+xml')
-  const parserError = doc.querySelector('parsererror')
+  const {
+    desiredId,
+    fileName,
+    forceNewId = false,
+    xmlAdapter = pureXmlAdapter,
+    random = Math.random,
+    idStrategy = 'random',
+    scopeStrategy = 'id-prefix',
+    namespaceIds = false,
+    preservedIds = [],
+    levelRules = DEFAULT_LEVEL_RULES,
+    removalPolicy = DEFAULT_REMOVAL_POLICY,
+    sanitizePolicy = null,
+    optimize = null,
+    locale = DEFAULT_LOCALE,
+  } = options
+  const root = xmlAdapter.parse(svgContent)
 
-  if (parserError) {
-    return {
-      ok: false,
-      error: '无法解析 SVG 文件，请确认文件是否正确。',
-      svgId: '',
-      generatedId: false,
-      scopedBefore: false,
-      scopedAfter: false,
-      changed: false,
-      processed: svgContent,
-      classes: [],
-      warnings: [],
-      levelRects: [],
-    }
+  if (!root) {
+    return createFailedResult(svgContent, 'xml-parse-error', locale)
   }
 
-  const root = doc.documentElement
-  if (!root || root.tagName.toLowerCase() !== 'svg') {
-    return {
-      ok: false,
-      error: '文件中没有找到 <svg> 根节点。',
-      svgId: '',
-      generatedId: false,
-      scopedBefore: false,
-      scopedAfter: false,
-      changed: false,
-      processed: svgContent,
-      classes: [],
-      warnings: [],
-      levelRects: [],
-    }
+  if (root.tagName.toLowerCase() !== 'svg') {
+    return createFailedResult(svgContent, 'missing-svg-root', locale)
   }
 
-  const svg = root as unknown as SVGSVGElement
+  const svg = root
   const currentId = svg.getAttribute('id')?.trim() ?? ''
   const sanitizedCurrentId = forceNewId ? '' : sanitizeId(currentId)
   const nextIdCandidate =
     !forceNewId && desiredId ? sanitizeId(desiredId) : ''
-  const fileNameDerivedId = deriveIdFromFileName(fileName)
+  const idRandom =
+    idStrategy === 'content-hash'
+      ? createSeededRandom(hashString(svgContent))
+      : idStrategy === 'path-hash' && fileName
+        ? createSeededRandom(hashString(fileName))
+        : random
+  const fileNameDerivedId = deriveIdFromFileName(idRandom, fileName)
   const generatedId =
     forceNewId || (!sanitizedCurrentId && !nextIdCandidate)
   const targetId =
     nextIdCandidate ||
     sanitizedCurrentId ||
     fileNameDerivedId ||
-    generateSvgId()
+    generateSvgId(idRandom)
 
   if (!targetId) {
-    return {
-      ok: false,
-      error: 'SVG id 为空且无法自动生成，请手动提供一个有效的 id。',
-      svgId: '',
-      generatedId: false,
-      scopedBefore: false,
-      scopedAfter: false,
-      changed: false,
-      processed: svgContent,
-      classes: [],
-      warnings: [],
-      levelRects: [],
-    }
+    return createFailedResult(svgContent, 'empty-id', locale)
   }
 
   if (currentId !== targetId) {
     svg.setAttribute('id', targetId)
   }
 
-  const styleNodes = Array.from(svg.querySelectorAll('style'))
-  const classes = new Set<string>()
-  const warnings: string[] = []
+  // 清理与移除会删掉节点，先按解析出的节点记下每个 <style> 的原始序号与位置
+  const styleLocations = locateStyleContents(svgContent)
+  const styleOrigins = new Map(
+    findDescendants(svg, (element) => element.localName === 'style').map(
+      (style, index) => [
+        style,
+        { index, location: styleLocations[index] ?? null },
+      ]
+    )
+  )
+
+  const sanitized = sanitizePolicy ? sanitizeSvg(svg, sanitizePolicy) : []
+  const removalMatcher = createRemovalMatcher(removalPolicy)
+  const removals = applyRemovalPolicy(svg, removalMatcher)
+
+  const styleNodes = findDescendants(
+    svg,
+    (element) => element.localName === 'style'
+  )
+  const warnings: ScopeWarning[] = []
 
   let scopedBefore = true
   let scopedAfter = true
-  let changed = currentId !== targetId
+  let changed =
+    currentId !== targetId || removals.length > 0 || sanitized.length > 0
 
   const aliasIds = Array.from(
     new Set(
@@ -394,32 +1267,97 @@ export function scopeSvgContent(
     )
   )
 
+  const idRenames = namespaceIds
+    ? buildIdRenames(svg, targetId, aliasIds, [
+        ...preservedIds,
+        ...detectLevelElements(svg, levelRules).flatMap(({ id }) =>
+          id ? [id] : []
+        ),
+      ])
+    : new Map<string, string>()
+  const keyframeRenames = buildKeyframeRenames(
+    styleNodes.flatMap((style) => collectKeyframeNames(style.textContent ?? '')),
+    targetId,
+    aliasIds
+  )
+  const cssRenames: CssRenames = {
+    keyframes: keyframeRenames,
+    ids: idRenames,
+    classes: new Map(),
+    classPrefix: scopeStrategy === 'class-namespace' ? targetId : null,
+  }
+
   styleNodes.forEach((style) => {
     const content = style.textContent ?? ''
     if (!content.trim()) {
       return
     }
+    const origin = styleOrigins.get(style)
+    const styleIndex = origin?.index ?? null
+    const location = origin?.location ?? null
 
-    const classMatches = content.match(/\.[A-Za-z0-9_-]+/g) ?? []
-    classMatches.forEach((match) => classes.add(match.replace('.', '')))
-
-    const prefixResult = prefixCssSelectors(content, targetId, aliasIds)
-    scopedBefore = scopedBefore && prefixResult.allScoped
-    const blockScopedAfter =
-      prefixResult.allScoped || prefixResult.selectorsChanged
-    scopedAfter = scopedAfter && blockScopedAfter
+    const prefixResult = prefixCssSelectors(
+      content,
+      targetId,
+      aliasIds,
+      cssRenames,
+      removalMatcher,
+      locale
+    )
+    scopedBefore =
+      scopedBefore && prefixResult.allScoped && !prefixResult.keyframesRenamed
+    scopedAfter = scopedAfter && prefixResult.allScopedAfter
+    removals.push(
+      ...prefixResult.removals.map((removal) => ({ ...removal, styleIndex }))
+    )
     if (prefixResult.changed) {
       changed = true
       style.textContent = prefixResult.css
     }
-    warnings.push(...prefixResult.warnings)
+    warnings.push(
+      ...prefixResult.warnings.map((warning) => {
+        if (!location || warning.line === null || warning.column === null) {
+          return { ...warning, styleIndex, line: null, column: null }
+        }
+        return {
+          ...warning,
+          styleIndex,
+          line: location.line + warning.line - 1,
+          column:
+            warning.line === 1
+              ? location.column + warning.column - 1
+              : warning.column,
+        }
+      })
+    )
   })
 
-  Array.from(svg.querySelectorAll('[style]')).forEach((node) => {
+  const styledNodes = findDescendants(svg, (element) =>
+    element.hasAttribute('style')
+  )
+  styledNodes.forEach((node) => {
     const styleValue = node.getAttribute('style') ?? ''
     if (!styleValue.trim()) return
 
-    const stripped = stripTransitionFromInlineStyle(styleValue)
+    const stripped = processInlineStyle(
+      styleValue,
+      keyframeRenames,
+      removalMatcher
+    )
+    const element = describeRemovalElement(
+      node.localName,
+      node.getAttribute('id')
+    )
+    removals.push(
+      ...stripped.removed.map(({ name, value }) => ({
+        source: 'inline-style' as const,
+        name,
+        value,
+        selector: null,
+        styleIndex: null,
+        element,
+      }))
+    )
     if (!stripped.changed) return
 
     changed = true
@@ -432,22 +1370,43 @@ export function scopeSvgContent(
 
   const levelEnhancements = applyLevelEnhancements(
     svg,
-    options.levelTransitionSeconds
+    levelRules,
+    options,
+    locale
   )
   if (levelEnhancements.changed) {
     changed = true
   }
+  warnings.push(...levelEnhancements.warnings)
 
-  Array.from(svg.querySelectorAll('[class]')).forEach((node) => {
-    const classValue = node.getAttribute('class')
-    classValue
-      ?.split(/\s+/)
+  if (idRenames.size && applyIdRenames(svg, idRenames)) {
+    changed = true
+  }
+
+  const classedNodes = [svg, ...findDescendants(svg, () => true)].filter(
+    (element) => element.hasAttribute('class')
+  )
+  classedNodes.forEach((node) => {
+    const classValue = node.getAttribute('class') ?? ''
+    const next = classValue
+      .split(/\s+/)
       .filter(Boolean)
-      .forEach((cls) => classes.add(cls))
+      .map((cls) => registerClassName(cls, aliasIds, cssRenames))
+      .join(' ')
+    if (!cssRenames.classPrefix || next === classValue.trim()) return
+    node.setAttribute('class', next)
+    scopedBefore = false
+    changed = true
   })
 
-  const serializer = new XMLSerializer()
-  const processed = serializer.serializeToString(svg)
+  const optimized = optimize
+    ? optimizeSvg(svg, optimize, levelEnhancements.elements)
+    : null
+  if (optimized && countOptimizations(optimized) > 0) {
+    changed = true
+  }
+
+  const processed = xmlAdapter.serialize(svg)
 
   return {
     ok: true,
@@ -457,8 +1416,23 @@ export function scopeSvgContent(
     scopedAfter,
     changed,
     processed,
-    classes: Array.from(classes.values()).sort(),
+    classes: Array.from(cssRenames.classes.keys())
+      .sort()
+      .map((name) => ({
+        name,
+        scopedName: cssRenames.classes.get(name) ?? name,
+      })),
     warnings,
-    levelRects: levelEnhancements.rectIds,
+    levelRects: levelEnhancements.levelRects,
+    keyframes: Array.from(keyframeRenames, ([name, scopedName]) => ({
+      name,
+      scopedName,
+    })),
+    idRenames: Array.from(idRenames)
+      .filter(([id, scopedId]) => id !== scopedId)
+      .map(([id, scopedId]) => ({ id, scopedId })),
+    removals,
+    sanitized,
+    optimized,
   }
 }
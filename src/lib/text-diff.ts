@@ -0,0 +1,303 @@
+export type DiffEditKind = 'equal' | 'delete' | 'insert'
+
+export interface DiffEdit {
+  kind: DiffEditKind
+  /** before / after 中的下标，insert 时 beforeIndex 为 -1，delete 时 afterIndex 为 -1 */
+  beforeIndex: number
+  afterIndex: number
+}
+
+// 编辑距离超过上限时放弃精确对比，剩余部分整体视为删除 + 插入，避免大文件卡死
+const MAX_EDIT_DISTANCE = 2000
+// 单行 token 过多（如内嵌 base64）时整行高亮
+const MAX_INLINE_TOKENS = 2000
+
+function myersMiddle<T>(
+  before: readonly T[],
+  after: readonly T[],
+  start: number,
+  beforeEnd: number,
+  afterEnd: number
+) {
+  const n = beforeEnd - start
+  const m = afterEnd - start
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d += 1) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && before[start + x] === after[start + y]) {
+        x += 1
+        y += 1
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        return backtrack(trace, offset, n, m, start)
+      }
+    }
+  }
+  return null
+}
+
+function backtrack(
+  trace: Int32Array[],
+  offset: number,
+  n: number,
+  m: number,
+  start: number
+) {
+  const edits: DiffEdit[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d -= 1) {
+    const v = trace[d]
+    const k = x - y
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? k + 1
+        : k - 1
+    const prevX = d === 0 ? 0 : v[offset + prevK]
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      x -= 1
+      y -= 1
+      edits.push({
+        kind: 'equal',
+        beforeIndex: start + x,
+        afterIndex: start + y,
+      })
+    }
+    if (d === 0) break
+    if (x === prevX) {
+      edits.push({ kind: 'insert', beforeIndex: -1, afterIndex: start + prevY })
+    } else {
+      edits.push({ kind: 'delete', beforeIndex: start + prevX, afterIndex: -1 })
+    }
+    x = prevX
+    y = prevY
+  }
+  return edits.reverse()
+}
+
+/** Myers 差分：先剥离公共前后缀，再对中间部分求最短编辑脚本 */
+export function diffSequences<T>(
+  before: readonly T[],
+  after: readonly T[]
+): DiffEdit[] {
+  let start = 0
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start += 1
+  }
+  let beforeEnd = before.length
+  let afterEnd = after.length
+  while (
+    beforeEnd > start &&
+    afterEnd > start &&
+    before[beforeEnd - 1] === after[afterEnd - 1]
+  ) {
+    beforeEnd -= 1
+    afterEnd -= 1
+  }
+
+  const edits: DiffEdit[] = []
+  for (let index = 0; index < start; index += 1) {
+    edits.push({ kind: 'equal', beforeIndex: index, afterIndex: index })
+  }
+  const middle = myersMiddle(before, after, start, beforeEnd, afterEnd)
+  if (middle) {
+    edits.push(...middle)
+  } else {
+    for (let index = start; index < beforeEnd; index += 1) {
+      edits.push({ kind: 'delete', beforeIndex: index, afterIndex: -1 })
+    }
+    for (let index = start; index < afterEnd; index += 1) {
+      edits.push({ kind: 'insert', beforeIndex: -1, afterIndex: index })
+    }
+  }
+  for (let index = 0; index < before.length - beforeEnd; index += 1) {
+    edits.push({
+      kind: 'equal',
+      beforeIndex: beforeEnd + index,
+      afterIndex: afterEnd + index,
+    })
+  }
+  return edits
+}
+
+export interface DiffSegment {
+  text: string
+  changed: boolean
+}
+
+export interface DiffLine {
+  /** 从 1 开始的行号 */
+  number: number
+  segments: DiffSegment[]
+}
+
+export type DiffRowKind = 'equal' | 'change' | 'delete' | 'insert'
+
+export interface DiffRow {
+  kind: DiffRowKind
+  before: DiffLine | null
+  after: DiffLine | null
+}
+
+function tokenize(line: string) {
+  return line.match(/\s+|[\w-]+|[^\w\s]/g) ?? []
+}
+
+function mergeSegments(segments: DiffSegment[]) {
+  return segments.reduce<DiffSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1]
+    if (last && last.changed === segment.changed) {
+      last.text += segment.text
+    } else if (segment.text) {
+      merged.push({ ...segment })
+    }
+    return merged
+  }, [])
+}
+
+function diffInline(before: string, after: string) {
+  const beforeTokens = tokenize(before)
+  const afterTokens = tokenize(after)
+  if (
+    beforeTokens.length > MAX_INLINE_TOKENS ||
+    afterTokens.length > MAX_INLINE_TOKENS
+  ) {
+    return {
+      before: [{ text: before, changed: true }],
+      after: [{ text: after, changed: true }],
+    }
+  }
+
+  const beforeSegments: DiffSegment[] = []
+  const afterSegments: DiffSegment[] = []
+  diffSequences(beforeTokens, afterTokens).forEach((edit) => {
+    if (edit.kind !== 'insert') {
+      beforeSegments.push({
+        text: beforeTokens[edit.beforeIndex],
+        changed: edit.kind === 'delete',
+      })
+    }
+    if (edit.kind !== 'delete') {
+      afterSegments.push({
+        text: afterTokens[edit.afterIndex],
+        changed: edit.kind === 'insert',
+      })
+    }
+  })
+  return {
+    before: mergeSegments(beforeSegments),
+    after: mergeSegments(afterSegments),
+  }
+}
+
+/**
+ * 逐行对比，相邻的删除 / 插入按顺序配对成 change 行并做行内（按单词与符号）高亮，
+ * 多出来的行保留为单独的 delete / insert 行
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const beforeLines = before.split('\n')
+  const afterLines = after.split('\n')
+  const rows: DiffRow[] = []
+  let deleted: number[] = []
+  let inserted: number[] = []
+
+  const toLine = (lines: string[], index: number, changed: boolean) => ({
+    number: index + 1,
+    segments: [{ text: lines[index], changed }],
+  })
+  const flush = () => {
+    const paired = Math.min(deleted.length, inserted.length)
+    for (let index = 0; index < paired; index += 1) {
+      const inline = diffInline(
+        beforeLines[deleted[index]],
+        afterLines[inserted[index]]
+      )
+      rows.push({
+        kind: 'change',
+        before: { number: deleted[index] + 1, segments: inline.before },
+        after: { number: inserted[index] + 1, segments: inline.after },
+      })
+    }
+    deleted.slice(paired).forEach((index) => {
+      rows.push({
+        kind: 'delete',
+        before: toLine(beforeLines, index, true),
+        after: null,
+      })
+    })
+    inserted.slice(paired).forEach((index) => {
+      rows.push({
+        kind: 'insert',
+        before: null,
+        after: toLine(afterLines, index, true),
+      })
+    })
+    deleted = []
+    inserted = []
+  }
+
+  diffSequences(beforeLines, afterLines).forEach((edit) => {
+    if (edit.kind === 'delete') {
+      deleted.push(edit.beforeIndex)
+      return
+    }
+    if (edit.kind === 'insert') {
+      inserted.push(edit.afterIndex)
+      return
+    }
+    flush()
+    rows.push({
+      kind: 'equal',
+      before: toLine(beforeLines, edit.beforeIndex, false),
+      after: toLine(afterLines, edit.afterIndex, false),
+    })
+  })
+  flush()
+
+  return rows
+}
+
+export interface DiffBlock {
+  /** fold 为折叠起来的连续未改动行 */
+  kind: 'rows' | 'fold'
+  rows: DiffRow[]
+}
+
+/** 只保留改动附近 context 行，其余连续未改动的行折叠起来 */
+export function foldDiffRows(rows: DiffRow[], context = 3): DiffBlock[] {
+  const visible = rows.map(() => false)
+  rows.forEach((row, index) => {
+    if (row.kind === 'equal') return
+    const from = Math.max(0, index - context)
+    const to = Math.min(rows.length - 1, index + context)
+    for (let cursor = from; cursor <= to; cursor += 1) visible[cursor] = true
+  })
+
+  const blocks: DiffBlock[] = []
+  rows.forEach((row, index) => {
+    const kind = visible[index] ? 'rows' : 'fold'
+    const last = blocks[blocks.length - 1]
+    if (last?.kind === kind) {
+      last.rows.push(row)
+    } else {
+      blocks.push({ kind, rows: [row] })
+    }
+  })
+  return blocks
+}
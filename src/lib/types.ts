@@ -1,14 +1,42 @@
-import type { SvgScopeResult } from '@/lib/svg-scope'
+import type { LevelCalibrations } from '@/lib/level-calibration'
+import type {
+  LevelFillDirections,
+  LevelTransitions,
+} from '@/lib/level-transition'
+import type { RemovalPolicy } from '@/lib/removal-policy'
+import type {
+  ScopeErrorCode,
+  ScopeStrategy,
+  SvgScopeResult,
+} from '@/lib/svg-scope'
 
-export type LevelRectId = 'level' | 'level1' | 'level_1' | 'level2'
+export type EntryErrorCode =
+  | ScopeErrorCode
+  | 'process-failed'
+  | 'read-failed'
+  | 'clipboard-failed'
+
+export interface EntryVisualCheck {
+  /** 比对时的处理结果，与当前结果不一致时需要重新比对 */
+  processed: string
+  /** 不同像素占比，0–1 */
+  score: number
+  heatmapUrl: string
+}
 
 export interface SvgEntry {
   id: string
   fileName: string
   rawContent: string
   desiredId: string
-  levelTransitionSeconds: Partial<Record<LevelRectId, number>>
+  levelTransitions: LevelTransitions
+  levelFillDirections: LevelFillDirections
+  levelCalibrations: LevelCalibrations
+  scopeStrategy: ScopeStrategy
+  /** 单独设置的移除策略，null 时使用全局策略 */
+  removalPolicy: RemovalPolicy | null
   result: SvgScopeResult | null
-  error: string | null
+  visualCheck: EntryVisualCheck | null
+  error: EntryErrorCode | null
   isProcessing: boolean
 }
@@ -0,0 +1,85 @@
+/** RGBA 像素数据，与浏览器 ImageData 的布局一致 */
+export interface RasterImage {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+/** 超过该比例的像素不同即视为外观有变化 */
+export const DEFAULT_VISUAL_DIFF_THRESHOLD = 0.01
+// 单个像素的通道差低于该值（0–1）时视为相同，容忍抗锯齿带来的细微差别
+const PIXEL_TOLERANCE = 0.1
+
+export interface VisualDiffResult {
+  /** 不同像素占全部像素的比例，0–1 */
+  score: number
+  diffPixels: number
+  totalPixels: number
+  exceeded: boolean
+  /** 不同的像素标红，其余像素以淡灰度显示处理后的图像 */
+  heatmap: RasterImage
+}
+
+export function createRasterImage(width: number, height: number) {
+  return {
+    width,
+    height,
+    data: new Uint8ClampedArray(width * height * 4),
+  }
+}
+
+// 与白底合成后再比较，透明像素与白色像素视为相同
+function readComposited(image: RasterImage, x: number, y: number) {
+  if (x >= image.width || y >= image.height) return [255, 255, 255]
+  const offset = (y * image.width + x) * 4
+  const alpha = image.data[offset + 3] / 255
+  return [0, 1, 2].map(
+    (channel) => image.data[offset + channel] * alpha + 255 * (1 - alpha)
+  )
+}
+
+export function compareRasters(
+  before: RasterImage,
+  after: RasterImage,
+  threshold = DEFAULT_VISUAL_DIFF_THRESHOLD
+): VisualDiffResult {
+  const width = Math.max(before.width, after.width)
+  const height = Math.max(before.height, after.height)
+  const heatmap = createRasterImage(width, height)
+  let diffPixels = 0
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const a = readComposited(before, x, y)
+      const b = readComposited(after, x, y)
+      const delta =
+        Math.max(...a.map((value, channel) => Math.abs(value - b[channel]))) /
+        255
+      const offset = (y * width + x) * 4
+      if (delta > PIXEL_TOLERANCE) {
+        diffPixels += 1
+        heatmap.data[offset] = 255
+        heatmap.data[offset + 1] = Math.round(96 * (1 - delta))
+        heatmap.data[offset + 2] = Math.round(96 * (1 - delta))
+      } else {
+        const gray = Math.round(
+          200 + ((b[0] * 0.299 + b[1] * 0.587 + b[2] * 0.114) / 255) * 55
+        )
+        heatmap.data[offset] = gray
+        heatmap.data[offset + 1] = gray
+        heatmap.data[offset + 2] = gray
+      }
+      heatmap.data[offset + 3] = 255
+    }
+  }
+
+  const totalPixels = width * height
+  const score = totalPixels ? diffPixels / totalPixels : 0
+  return {
+    score,
+    diffPixels,
+    totalPixels,
+    exceeded: score > threshold,
+    heatmap,
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  summarizeWorkspace,
+  upgradeWorkspace,
+  type Workspace,
+  type WorkspaceSummary,
+} from '@/lib/workspace'
+
+const DATABASE_NAME = 'svg-scope'
+const DATABASE_VERSION = 1
+const STORE_NAME = 'workspaces'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function promisifyRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // 打开失败（如隐私模式禁用了 IndexedDB）后允许下次重试
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const database = await openDatabase()
+  const store = database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+  return promisifyRequest(operation(store))
+}
+
+/** 按最近修改时间倒序列出所有项目 */
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const workspaces = await runTransaction<Workspace[]>('readonly', (store) =>
+    store.getAll()
+  )
+  return workspaces
+    .map(summarizeWorkspace)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function loadWorkspace(id: string) {
+  const workspace = await runTransaction<Workspace | undefined>(
+    'readonly',
+    (store) => store.get(id)
+  )
+  return workspace ? upgradeWorkspace(workspace) : null
+}
+
+export async function saveWorkspace(workspace: Workspace) {
+  await runTransaction('readwrite', (store) => store.put(workspace))
+}
+
+export async function deleteWorkspace(id: string) {
+  await runTransaction('readwrite', (store) => store.delete(id))
+}
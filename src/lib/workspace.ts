@@ -0,0 +1,394 @@
+import type { LevelCalibration } from '@/lib/level-calibration'
+import {
+  DEFAULT_LEVEL_RULES,
+  type LevelDetectionRule,
+} from '@/lib/level-detection'
+import {
+  isLevelFillDirection,
+  type LevelFillDirection,
+  type LevelTransition,
+} from '@/lib/level-transition'
+import {
+  DEFAULT_REMOVAL_POLICY,
+  type RemovalPolicy,
+} from '@/lib/removal-policy'
+import {
+  isOptimizeOptions,
+  isRemovalPolicy,
+  isSanitizePolicy,
+  parseLevelRules,
+  validateScopeConfig,
+  type ScopeConfig,
+} from '@/lib/scope-config'
+import {
+  isIdStrategy,
+  isScopeStrategy,
+  type IdStrategy,
+  type SvgScopeResult,
+} from '@/lib/svg-scope'
+import type { OptimizeOptions } from '@/lib/svg-optimize'
+import type { SanitizePolicy } from '@/lib/svg-sanitize'
+import type { SvgEntry } from '@/lib/types'
+import { DEFAULT_VISUAL_DIFF_THRESHOLD } from '@/lib/visual-diff'
+
+/** 对所有文件生效的全局设置 */
+export interface WorkspaceSettings {
+  idStrategy: IdStrategy
+  namespaceIds: boolean
+  preservedIdsText: string
+  levelRules: LevelDetectionRule[]
+  removalPolicy: RemovalPolicy
+  /** 为 null 时不做安全清理 */
+  sanitizePolicy: SanitizePolicy | null
+  /** 为 null 时不做输出优化 */
+  optimizeOptions: OptimizeOptions | null
+  visualThreshold: number
+  /** 最近加载的配置文件，新上传的文件按其中的作用域方式、液位过渡与 id 模板处理 */
+  config: ScopeConfig | null
+}
+
+export const DEFAULT_WORKSPACE_SETTINGS: WorkspaceSettings = {
+  idStrategy: 'random',
+  namespaceIds: false,
+  preservedIdsText: '',
+  levelRules: DEFAULT_LEVEL_RULES,
+  removalPolicy: DEFAULT_REMOVAL_POLICY,
+  sanitizePolicy: null,
+  optimizeOptions: null,
+  visualThreshold: DEFAULT_VISUAL_DIFF_THRESHOLD,
+  config: null,
+}
+
+export interface WorkspaceMeta {
+  id: string
+  name: string
+  createdAt: number
+}
+
+export interface Workspace extends WorkspaceMeta {
+  updatedAt: number
+  /** 只保存处理完成的文件；外观比对结果不保存，恢复后重新计算 */
+  entries: SvgEntry[]
+  activeEntryId: string | null
+  settings: WorkspaceSettings
+}
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  updatedAt: number
+  entryCount: number
+}
+
+export const WORKSPACE_BUNDLE_FORMAT = 'svg-scope-workspace'
+export const WORKSPACE_BUNDLE_VERSION = 1
+
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_BUNDLE_FORMAT
+  version: typeof WORKSPACE_BUNDLE_VERSION
+  exportedAt: string
+  workspace: Workspace
+}
+
+const generateWorkspaceId = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `workspace-${Math.random().toString(36).slice(2, 10)}`
+
+export function createWorkspaceMeta(name: string): WorkspaceMeta {
+  return { id: generateWorkspaceId(), name, createdAt: Date.now() }
+}
+
+export function createWorkspace(name: string): Workspace {
+  const meta = createWorkspaceMeta(name)
+  return {
+    ...meta,
+    updatedAt: meta.createdAt,
+    entries: [],
+    activeEntryId: null,
+    settings: DEFAULT_WORKSPACE_SETTINGS,
+  }
+}
+
+export function createWorkspaceSnapshot(
+  meta: WorkspaceMeta,
+  entries: readonly SvgEntry[],
+  activeEntryId: string | null,
+  settings: WorkspaceSettings
+): Workspace {
+  const savedEntries = entries
+    .filter((entry) => !entry.isProcessing)
+    .map((entry) => ({ ...entry, visualCheck: null }))
+  return {
+    ...meta,
+    updatedAt: Date.now(),
+    entries: savedEntries,
+    activeEntryId: savedEntries.some((entry) => entry.id === activeEntryId)
+      ? activeEntryId
+      : (savedEntries[0]?.id ?? null),
+    settings,
+  }
+}
+
+export function summarizeWorkspace(workspace: Workspace): WorkspaceSummary {
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    updatedAt: workspace.updatedAt,
+    entryCount: workspace.entries.length,
+  }
+}
+
+export function createWorkspaceBundle(workspace: Workspace): WorkspaceBundle {
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspace,
+  }
+}
+
+type UnknownRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isResult(value: unknown): value is SvgScopeResult {
+  return (
+    isRecord(value) &&
+    value.ok === true &&
+    typeof value.svgId === 'string' &&
+    typeof value.processed === 'string' &&
+    [
+      'classes',
+      'warnings',
+      'levelRects',
+      'keyframes',
+      'idRenames',
+      'removals',
+    ].every((key) => Array.isArray(value[key]))
+  )
+}
+
+// 旧版本保存的结果缺少后来新增的字段
+function withResultDefaults(result: SvgScopeResult): SvgScopeResult {
+  return {
+    ...result,
+    sanitized: result.sanitized ?? [],
+    optimized: result.optimized ?? null,
+  }
+}
+
+/** 补全从 IndexedDB 读出的旧版本项目 */
+export function upgradeWorkspace(workspace: Workspace): Workspace {
+  return {
+    ...workspace,
+    entries: workspace.entries.map((entry) =>
+      entry.result
+        ? { ...entry, result: withResultDefaults(entry.result) }
+        : entry
+    ),
+    settings: { ...DEFAULT_WORKSPACE_SETTINGS, ...workspace.settings },
+  }
+}
+
+/** 导入时被丢弃的单个液位设置；`key` 为空表示整组设置的格式不对 */
+export interface WorkspaceImportWarning {
+  fileName: string
+  field: 'levelTransitions' | 'levelFillDirections' | 'levelCalibrations'
+  key: string
+}
+
+export interface WorkspaceImportResult {
+  workspace: Workspace
+  warnings: WorkspaceImportWarning[]
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isLevelTransition(value: unknown): value is LevelTransition {
+  return (
+    isRecord(value) &&
+    typeof value.property === 'string' &&
+    isFiniteNumber(value.duration) &&
+    value.duration >= 0 &&
+    typeof value.timingFunction === 'string' &&
+    isFiniteNumber(value.delay)
+  )
+}
+
+function isFillDirection(value: unknown): value is LevelFillDirection {
+  return typeof value === 'string' && isLevelFillDirection(value)
+}
+
+function isLevelCalibration(value: unknown): value is LevelCalibration {
+  return (
+    isRecord(value) &&
+    [value.min, value.max].every(
+      (bound) => bound === null || isFiniteNumber(bound)
+    )
+  )
+}
+
+// 逐项检查液位设置，取值无效的项丢弃并记录，其余照常导入
+function pickRecord<T>(
+  value: unknown,
+  isValid: (item: unknown) => item is T,
+  onInvalid: (key: string) => void
+): Record<string, T> {
+  if (value === undefined || value === null) return {}
+  if (!isRecord(value)) {
+    onInvalid('')
+    return {}
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, T] => {
+      if (isValid(entry[1])) return true
+      onInvalid(entry[0])
+      return false
+    })
+  )
+}
+
+function parseEntry(
+  value: unknown,
+  warnings: WorkspaceImportWarning[]
+): SvgEntry | null {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.fileName !== 'string' ||
+    typeof value.rawContent !== 'string'
+  ) {
+    return null
+  }
+  const result = isResult(value.result)
+    ? withResultDefaults(value.result)
+    : null
+  const { fileName } = value
+  const warn = (field: WorkspaceImportWarning['field']) => (key: string) =>
+    warnings.push({ fileName, field, key })
+  return {
+    id: value.id,
+    fileName: value.fileName,
+    rawContent: value.rawContent,
+    desiredId: typeof value.desiredId === 'string' ? value.desiredId : '',
+    levelTransitions: pickRecord(
+      value.levelTransitions,
+      isLevelTransition,
+      warn('levelTransitions')
+    ),
+    levelFillDirections: pickRecord(
+      value.levelFillDirections,
+      isFillDirection,
+      warn('levelFillDirections')
+    ),
+    levelCalibrations: pickRecord(
+      value.levelCalibrations,
+      isLevelCalibration,
+      warn('levelCalibrations')
+    ),
+    scopeStrategy: isScopeStrategy(value.scopeStrategy)
+      ? value.scopeStrategy
+      : 'id-prefix',
+    removalPolicy: isRemovalPolicy(value.removalPolicy)
+      ? value.removalPolicy
+      : null,
+    result,
+    visualCheck: null,
+    // 结果缺失或损坏时提示重新处理
+    error: result
+      ? null
+      : typeof value.error === 'string'
+        ? (value.error as SvgEntry['error'])
+        : 'process-failed',
+    isProcessing: false,
+  }
+}
+
+// 嵌套设置不完整或取值无效时回退到默认值，避免之后每次处理都抛出异常
+function parseSettings(value: unknown): WorkspaceSettings {
+  const settings = isRecord(value) ? value : {}
+  const defaults = DEFAULT_WORKSPACE_SETTINGS
+  return {
+    idStrategy: isIdStrategy(settings.idStrategy)
+      ? settings.idStrategy
+      : defaults.idStrategy,
+    namespaceIds:
+      typeof settings.namespaceIds === 'boolean'
+        ? settings.namespaceIds
+        : defaults.namespaceIds,
+    preservedIdsText:
+      typeof settings.preservedIdsText === 'string'
+        ? settings.preservedIdsText
+        : defaults.preservedIdsText,
+    levelRules: parseLevelRules(settings.levelRules) ?? defaults.levelRules,
+    removalPolicy: isRemovalPolicy(settings.removalPolicy)
+      ? settings.removalPolicy
+      : defaults.removalPolicy,
+    sanitizePolicy: isSanitizePolicy(settings.sanitizePolicy)
+      ? settings.sanitizePolicy
+      : defaults.sanitizePolicy,
+    optimizeOptions: isOptimizeOptions(settings.optimizeOptions)
+      ? settings.optimizeOptions
+      : defaults.optimizeOptions,
+    visualThreshold:
+      typeof settings.visualThreshold === 'number' &&
+      settings.visualThreshold >= 0 &&
+      settings.visualThreshold <= 1
+        ? settings.visualThreshold
+        : defaults.visualThreshold,
+    config: isRecord(settings.config)
+      ? validateScopeConfig(settings.config).config
+      : defaults.config,
+  }
+}
+
+/**
+ * 解析导出的 JSON；格式不对时返回 null，个别液位设置无效时丢弃该项并在 warnings 中列出。
+ * 导入的项目总是分配新的 id，不会覆盖已有项目
+ */
+export function parseWorkspaceBundle(
+  text: string
+): WorkspaceImportResult | null {
+  let bundle: unknown
+  try {
+    bundle = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (
+    !isRecord(bundle) ||
+    bundle.format !== WORKSPACE_BUNDLE_FORMAT ||
+    bundle.version !== WORKSPACE_BUNDLE_VERSION ||
+    !isRecord(bundle.workspace) ||
+    !Array.isArray(bundle.workspace.entries)
+  ) {
+    return null
+  }
+
+  const { workspace } = bundle
+  const warnings: WorkspaceImportWarning[] = []
+  const entries = (workspace.entries as unknown[]).map((entry) =>
+    parseEntry(entry, warnings)
+  )
+  if (entries.some((entry) => entry === null)) return null
+  const name = typeof workspace.name === 'string' ? workspace.name.trim() : ''
+  const meta = createWorkspaceMeta(name || 'workspace')
+  return {
+    workspace: {
+      ...meta,
+      updatedAt: meta.createdAt,
+      entries: entries as SvgEntry[],
+      activeEntryId:
+        typeof workspace.activeEntryId === 'string'
+          ? workspace.activeEntryId
+          : null,
+      settings: parseSettings(workspace.settings),
+    },
+    warnings,
+  }
+}
@@ -0,0 +1,13 @@
+import { parseXml, serializeXml, type XmlElement } from '@/lib/xml-dom'
+
+export interface XmlAdapter {
+  /** 解析失败时返回 null，成功时返回根元素 */
+  parse(source: string): XmlElement | null
+  serialize(root: XmlElement): string
+}
+
+// 纯 JS 实现，不依赖任何全局对象，浏览器 / Node / Web Worker 输出完全一致
+export const pureXmlAdapter: XmlAdapter = {
+  parse: parseXml,
+  serialize: serializeXml,
+}
@@ -0,0 +1,564 @@
+export const ELEMENT_NODE = 1
+export const TEXT_NODE = 3
+export const CDATA_SECTION_NODE = 4
+export const PROCESSING_INSTRUCTION_NODE = 7
+export const COMMENT_NODE = 8
+
+// 浏览器 DOM 的一个最小子集。svg-scope 只依赖这些成员，
+// 因此原生 DOM 节点和下面的纯 JS 节点都可以直接传入。
+export interface XmlNode {
+  readonly nodeType: number
+  readonly nodeName: string
+  readonly parentNode: XmlElement | null
+  textContent: string | null
+  remove(): void
+}
+
+export interface XmlElement extends XmlNode {
+  readonly tagName: string
+  readonly localName: string
+  readonly childNodes: ArrayLike<XmlNode>
+  readonly children: ArrayLike<XmlElement>
+  getAttribute(name: string): string | null
+  getAttributeNames(): string[]
+  hasAttribute(name: string): boolean
+  setAttribute(name: string, value: string): void
+  removeAttribute(name: string): void
+}
+
+export function isElement(node: XmlNode): node is XmlElement {
+  return node.nodeType === ELEMENT_NODE
+}
+
+export function findDescendants(
+  root: XmlElement,
+  predicate: (element: XmlElement) => boolean
+) {
+  const matches: XmlElement[] = []
+  const visit = (element: XmlElement) => {
+    Array.from(element.children).forEach((child) => {
+      if (predicate(child)) matches.push(child)
+      visit(child)
+    })
+  }
+  visit(root)
+  return matches
+}
+
+export function findFirstDescendant(
+  root: XmlElement,
+  predicate: (element: XmlElement) => boolean
+) {
+  return findDescendants(root, predicate)[0] ?? null
+}
+
+abstract class BaseNode {
+  parentNode: ElementNode | null = null
+
+  remove() {
+    this.parentNode?.removeChild(this as unknown as ChildNode)
+  }
+}
+
+class CharacterNode extends BaseNode implements XmlNode {
+  readonly nodeType: number
+  readonly nodeName: string
+  data: string
+
+  constructor(nodeType: number, nodeName: string, data: string) {
+    super()
+    this.nodeType = nodeType
+    this.nodeName = nodeName
+    this.data = data
+  }
+
+  get textContent(): string | null {
+    return this.data
+  }
+
+  set textContent(value: string | null) {
+    this.data = value ?? ''
+  }
+}
+
+class ElementNode extends BaseNode implements XmlElement {
+  readonly nodeType = ELEMENT_NODE
+  readonly tagName: string
+  readonly localName: string
+  readonly childNodes: ChildNode[] = []
+  private readonly attributes = new Map<string, string>()
+
+  constructor(tagName: string) {
+    super()
+    this.tagName = tagName
+    this.localName = tagName.slice(tagName.indexOf(':') + 1)
+  }
+
+  get nodeName() {
+    return this.tagName
+  }
+
+  get children() {
+    return this.childNodes.filter(
+      (node): node is ElementNode => node instanceof ElementNode
+    )
+  }
+
+  get textContent(): string | null {
+    return this.childNodes
+      .map((node) => {
+        if (node instanceof ElementNode) return node.textContent
+        if (node.nodeType === TEXT_NODE || node.nodeType === CDATA_SECTION_NODE) {
+          return node.data
+        }
+        return ''
+      })
+      .join('')
+  }
+
+  set textContent(value: string | null) {
+    this.childNodes.forEach((node) => {
+      node.parentNode = null
+    })
+    this.childNodes.length = 0
+    if (value) {
+      this.appendChild(new CharacterNode(TEXT_NODE, '#text', value))
+    }
+  }
+
+  getAttribute(name: string) {
+    return this.attributes.get(name) ?? null
+  }
+
+  getAttributeNames() {
+    return Array.from(this.attributes.keys())
+  }
+
+  hasAttribute(name: string) {
+    return this.attributes.has(name)
+  }
+
+  setAttribute(name: string, value: string) {
+    this.attributes.set(name, String(value))
+  }
+
+  removeAttribute(name: string) {
+    this.attributes.delete(name)
+  }
+
+  appendChild(node: ChildNode) {
+    node.parentNode = this
+    this.childNodes.push(node)
+  }
+
+  removeChild(node: ChildNode) {
+    const index = this.childNodes.indexOf(node)
+    if (index === -1) return
+    this.childNodes.splice(index, 1)
+    node.parentNode = null
+  }
+}
+
+type ChildNode = ElementNode | CharacterNode
+
+class XmlSyntaxError extends Error {
+  readonly offset: number
+
+  constructor(message: string, offset: number) {
+    super(message)
+    this.name = 'XmlSyntaxError'
+    this.offset = offset
+  }
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+}
+const NAME_PATTERN = /[A-Za-z_:\u00C0-\uFFFF][\w:.\-\u00B7\u00C0-\uFFFF]*/y
+const WHITESPACE_PATTERN = /[ \t\n]*/y
+const ENTITY_DECLARATION_PATTERN = /<!ENTITY\s+([^\s%]+)\s+(["'])([\s\S]*?)\2\s*>/g
+const REFERENCE_PATTERN = /&([^;&\s]*);?/g
+// 自定义实体的展开上限：防止嵌套实体（billion laughs）撑爆内存。
+const MAX_ENTITY_EXPANSIONS = 10_000
+const MAX_EXPANDED_LENGTH = 1_000_000
+
+function createParser(input: string) {
+  const source = input.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const entities = new Map<string, string>()
+  let pos = 0
+  let expansionCount = 0
+  let expandedLength = 0
+
+  const fail = (message: string): never => {
+    throw new XmlSyntaxError(message, pos)
+  }
+
+  const startsWith = (token: string) => source.startsWith(token, pos)
+
+  const skipWhitespace = () => {
+    WHITESPACE_PATTERN.lastIndex = pos
+    WHITESPACE_PATTERN.exec(source)
+    pos = WHITESPACE_PATTERN.lastIndex
+  }
+
+  const readName = () => {
+    NAME_PATTERN.lastIndex = pos
+    const match = NAME_PATTERN.exec(source)
+    if (!match) fail('Expected a name')
+    pos = NAME_PATTERN.lastIndex
+    return match![0]
+  }
+
+  const readUntil = (terminator: string) => {
+    const end = source.indexOf(terminator, pos)
+    if (end === -1) fail(`Missing "${terminator}"`)
+    const value = source.slice(pos, end)
+    pos = end + terminator.length
+    return value
+  }
+
+  const decode = (raw: string, depth = 0): string =>
+    raw.replace(REFERENCE_PATTERN, (match, name: string) => {
+      if (!match.endsWith(';')) fail('Unterminated entity reference')
+      if (name.startsWith('#')) {
+        // parseInt 会忽略末尾的非数字字符，先确认整个引用都是数字
+        const digits = /^#(?:x([\da-fA-F]+)|(\d+))$/.exec(name)
+        if (!digits) return fail(`Invalid character reference ${match}`)
+        const code = digits[1]
+          ? Number.parseInt(digits[1], 16)
+          : Number.parseInt(digits[2], 10)
+        if (!Number.isFinite(code) || code <= 0 || code > 0x10ffff) {
+          fail(`Invalid character reference ${match}`)
+        }
+        return String.fromCodePoint(code)
+      }
+      if (Object.hasOwn(PREDEFINED_ENTITIES, name)) {
+        return PREDEFINED_ENTITIES[name]
+      }
+      const value = entities.get(name)
+      if (value === undefined || depth > 8) {
+        fail(`Undefined entity ${match}`)
+      }
+      expansionCount += 1
+      if (expansionCount > MAX_ENTITY_EXPANSIONS) {
+        fail('Too many entity expansions')
+      }
+      const expanded = decode(value!, depth + 1)
+      expandedLength += expanded.length
+      if (expandedLength > MAX_EXPANDED_LENGTH) {
+        fail('Entity expansion exceeds the size limit')
+      }
+      return expanded
+    })
+
+  const parseDoctype = () => {
+    const start = pos
+    let bracketDepth = 0
+    let quote: string | null = null
+    for (; pos < source.length; pos += 1) {
+      const ch = source[pos]
+      if (quote) {
+        if (ch === quote) quote = null
+        continue
+      }
+      if (ch === '"' || ch === "'") quote = ch
+      else if (ch === '[') bracketDepth += 1
+      else if (ch === ']') bracketDepth -= 1
+      else if (ch === '>' && bracketDepth <= 0) break
+    }
+    if (pos >= source.length) fail('Unterminated DOCTYPE')
+    const doctype = source.slice(start, pos)
+    pos += 1
+    for (const match of doctype.matchAll(ENTITY_DECLARATION_PATTERN)) {
+      if (!entities.has(match[1])) entities.set(match[1], match[3])
+    }
+  }
+
+  const parseProcessingInstruction = () => {
+    pos += 2
+    const target = readName()
+    skipWhitespace()
+    const data = readUntil('?>')
+    return new CharacterNode(PROCESSING_INSTRUCTION_NODE, target, data.trimEnd())
+  }
+
+  const parseElement = (): ElementNode => {
+    pos += 1
+    const element = new ElementNode(readName())
+
+    for (;;) {
+      const before = pos
+      skipWhitespace()
+      if (startsWith('/>')) {
+        pos += 2
+        return element
+      }
+      if (startsWith('>')) {
+        pos += 1
+        break
+      }
+      if (pos === before) fail('Expected whitespace between attributes')
+
+      const name = readName()
+      skipWhitespace()
+      if (!startsWith('=')) fail(`Attribute "${name}" has no value`)
+      pos += 1
+      skipWhitespace()
+      const quote = source[pos]
+      if (quote !== '"' && quote !== "'") fail(`Attribute "${name}" is not quoted`)
+      pos += 1
+      const raw = readUntil(quote)
+      if (raw.includes('<')) fail(`Attribute "${name}" contains "<"`)
+      if (element.hasAttribute(name)) fail(`Duplicate attribute "${name}"`)
+      element.setAttribute(name, decode(raw.replace(/[\t\n]/g, ' ')))
+    }
+
+    for (;;) {
+      if (pos >= source.length) fail(`Unclosed element <${element.tagName}>`)
+      if (startsWith('</')) {
+        pos += 2
+        const closing = readName()
+        skipWhitespace()
+        if (!startsWith('>')) fail('Expected ">"')
+        pos += 1
+        if (closing !== element.tagName) {
+          fail(`Mismatched closing tag </${closing}> for <${element.tagName}>`)
+        }
+        return element
+      }
+      if (startsWith('<!--')) {
+        pos += 4
+        element.appendChild(
+          new CharacterNode(COMMENT_NODE, '#comment', readUntil('-->'))
+        )
+        continue
+      }
+      if (startsWith('<![CDATA[')) {
+        pos += 9
+        element.appendChild(
+          new CharacterNode(CDATA_SECTION_NODE, '#cdata-section', readUntil(']]>'))
+        )
+        continue
+      }
+      if (startsWith('<?')) {
+        element.appendChild(parseProcessingInstruction())
+        continue
+      }
+      if (startsWith('<')) {
+        element.appendChild(parseElement())
+        continue
+      }
+
+      const end = source.indexOf('<', pos)
+      const raw = source.slice(pos, end === -1 ? source.length : end)
+      pos += raw.length
+      element.appendChild(new CharacterNode(TEXT_NODE, '#text', decode(raw)))
+    }
+  }
+
+  const parseDocument = () => {
+    let root: ElementNode | null = null
+
+    for (;;) {
+      skipWhitespace()
+      if (pos >= source.length) break
+      if (startsWith('<?')) {
+        parseProcessingInstruction()
+      } else if (startsWith('<!--')) {
+        pos += 4
+        readUntil('-->')
+      } else if (startsWith('<!DOCTYPE')) {
+        if (root) fail('DOCTYPE after root element')
+        parseDoctype()
+      } else if (startsWith('<') && !root) {
+        root = parseElement()
+      } else {
+        fail('Unexpected content outside the root element')
+      }
+    }
+
+    if (!root) fail('Missing root element')
+    return root!
+  }
+
+  return { parseDocument }
+}
+
+export function parseXml(source: string): XmlElement | null {
+  try {
+    return createParser(source).parseDocument()
+  } catch (error) {
+    if (error instanceof XmlSyntaxError) return null
+    throw error
+  }
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function escapeAttribute(value: string) {
+  return escapeText(value)
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#9;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+}
+
+function serializeNode(node: XmlNode): string {
+  switch (node.nodeType) {
+    case ELEMENT_NODE: {
+      const element = node as XmlElement
+      const attributes = element
+        .getAttributeNames()
+        .map(
+          (name) =>
+            ` ${name}="${escapeAttribute(element.getAttribute(name) ?? '')}"`
+        )
+        .join('')
+      const children = Array.from(element.childNodes)
+      if (!children.length) {
+        return `<${element.tagName}${attributes}/>`
+      }
+      const content = children.map(serializeNode).join('')
+      return `<${element.tagName}${attributes}>${content}</${element.tagName}>`
+    }
+    case TEXT_NODE:
+      return escapeText(node.textContent ?? '')
+    case CDATA_SECTION_NODE:
+      return `<![CDATA[${node.textContent ?? ''}]]>`
+    case COMMENT_NODE:
+      return `<!--${node.textContent ?? ''}-->`
+    case PROCESSING_INSTRUCTION_NODE: {
+      const data = node.textContent ?? ''
+      return data ? `<?${node.nodeName} ${data}?>` : `<?${node.nodeName}?>`
+    }
+    default:
+      return ''
+  }
+}
+
+export function serializeXml(root: XmlElement) {
+  return serializeNode(root)
+}
+
+// 按括号与引号切分 CSS，只在顶层的 `{` `;` `}` 后换行，`url(data:...;base64,...)` 不会被拆开
+function formatCssText(css: string, indent: string, depth: number) {
+  const lines: string[] = []
+  let current = ''
+  let level = depth
+  let parens = 0
+  let quote: string | null = null
+  const flush = (closing = false) => {
+    const text = current.replace(/\s+/g, ' ').trim()
+    current = ''
+    if (closing) level = Math.max(depth, level - 1)
+    if (text) lines.push(indent.repeat(level) + text)
+  }
+
+  for (const char of css) {
+    current += char
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '(') {
+      parens += 1
+    } else if (char === ')') {
+      parens = Math.max(0, parens - 1)
+    } else if (parens === 0 && char === '{') {
+      flush()
+      level += 1
+    } else if (parens === 0 && char === ';') {
+      flush()
+    } else if (parens === 0 && char === '}') {
+      current = current.slice(0, -1)
+      flush()
+      current = '}'
+      flush(true)
+    }
+  }
+  flush()
+  return lines
+}
+
+function formatNode(
+  node: XmlNode,
+  indent: string,
+  depth: number,
+  lines: string[]
+) {
+  const prefix = indent.repeat(depth)
+  if (node.nodeType !== ELEMENT_NODE) {
+    const text =
+      node.nodeType === TEXT_NODE
+        ? escapeText((node.textContent ?? '').trim())
+        : serializeNode(node)
+    if (text) lines.push(prefix + text)
+    return
+  }
+
+  const element = node as XmlElement
+  const attributes = element
+    .getAttributeNames()
+    .map(
+      (name) =>
+        ` ${name}="${escapeAttribute(element.getAttribute(name) ?? '')}"`
+    )
+    .join('')
+  const children = Array.from(element.childNodes).filter(
+    (child) => child.nodeType !== TEXT_NODE || child.textContent?.trim()
+  )
+  const open = `${prefix}<${element.tagName}${attributes}`
+  const close = `${prefix}</${element.tagName}>`
+
+  if (!children.length) {
+    lines.push(`${open}/>`)
+    return
+  }
+
+  if (element.localName === 'style') {
+    lines.push(`${open}>`)
+    children.forEach((child) => {
+      const isCdata = child.nodeType === CDATA_SECTION_NODE
+      if (child.nodeType !== TEXT_NODE && !isCdata) {
+        formatNode(child, indent, depth + 1, lines)
+        return
+      }
+      if (isCdata) lines.push(`${prefix}${indent}<![CDATA[`)
+      const css = formatCssText(child.textContent ?? '', indent, depth + 1)
+      lines.push(...(isCdata ? css : css.map(escapeText)))
+      if (isCdata) lines.push(`${prefix}${indent}]]>`)
+    })
+    lines.push(close)
+    return
+  }
+
+  if (children.length === 1 && children[0].nodeType === TEXT_NODE) {
+    lines.push(
+      `${open}>${escapeText((children[0].textContent ?? '').trim())}</${element.tagName}>`
+    )
+    return
+  }
+
+  lines.push(`${open}>`)
+  children.forEach((child) => formatNode(child, indent, depth + 1, lines))
+  lines.push(close)
+}
+
+/**
+ * 每个元素、每条 CSS 声明各占一行的格式化输出，只用于展示与对比：
+ * 会丢弃空白文本节点并修剪文本两端空白
+ */
+export function formatXml(root: XmlElement, indent = '  ') {
+  const lines: string[] = []
+  formatNode(root, indent, 0, lines)
+  return lines.join('\n')
+}
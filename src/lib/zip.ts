@@ -0,0 +1,90 @@
+import { crc32 } from '@/lib/crc32'
+
+export interface ZipFile {
+  /** 压缩包内的路径，用 / 分隔 */
+  name: string
+  content: string | Uint8Array
+}
+
+// 文件名使用 UTF-8 编码（通用标志位 11）
+const UTF8_FLAG = 0x0800
+
+function toDosDateTime(date: Date) {
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2)
+  const day =
+    ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate()
+  return { time, day }
+}
+
+/** 生成不压缩（store）的 ZIP；SVG 与 JSON 都是小文本，省去 deflate 的实现 */
+export function createZip(files: readonly ZipFile[], date = new Date()) {
+  const encoder = new TextEncoder()
+  const { time, day } = toDosDateTime(date)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name)
+    const data =
+      typeof file.content === 'string'
+        ? encoder.encode(file.content)
+        : file.content
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true)
+    localView.setUint16(6, UTF8_FLAG, true)
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, day, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true)
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, UTF8_FLAG, true)
+    centralView.setUint16(12, time, true)
+    centralView.setUint16(14, day, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, data)
+    centralParts.push(central)
+    offset += local.length + data.length
+  })
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, files.length, true)
+  endView.setUint16(10, files.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, end]
+  const archive = new Uint8Array(offset + centralSize + end.length)
+  let cursor = 0
+  parts.forEach((part) => {
+    archive.set(part, cursor)
+    cursor += part.length
+  })
+  return archive
+}
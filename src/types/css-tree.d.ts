@@ -1,5 +1,73 @@
 declare module 'css-tree' {
-  export function parse(css: string, options?: any): any
-  export function generate(ast: any): string
-  export function walk(ast: any, walker: { enter(node: any): void }): void
+  // css-tree 没有附带类型。各类节点的字段按 type 不同，这里合并成一个宽松的节点类型，
+  // 只声明用到的字段，读取前按 type 判断节点种类
+  export interface CssNode {
+    type: string
+    /** AttributeSelector 的 name 是 Identifier 节点，其余节点为字符串 */
+    name: string
+    property: string
+    matcher: string | null
+    /** Url、String 等为字符串，Declaration 与 AttributeSelector 为子节点 */
+    value: CssNode | string | null
+    prelude: CssNode | null
+    block: CssNode | null
+    children: CssList | null
+    loc?: CssLocation | null
+  }
+
+  export type CssNodeInit = Pick<CssNode, 'type'> & Partial<CssNode>
+
+  export interface CssLocation {
+    start: { offset: number; line: number; column: number }
+    end: { offset: number; line: number; column: number }
+  }
+
+  export interface CssListItem {
+    data: CssNode
+  }
+
+  export interface CssList extends Iterable<CssNode> {
+    readonly head: CssListItem | null
+    readonly first: CssNode | null
+    readonly isEmpty: boolean
+    forEach(callback: (node: CssNode) => void): void
+    some(callback: (node: CssNode) => boolean): boolean
+    remove(item: CssListItem): void
+    shift(): CssListItem | null
+    prependData(node: CssNodeInit): void
+  }
+
+  export interface ParseOptions {
+    context?: string
+    positions?: boolean
+    parseAtrulePrelude?: boolean
+    parseRulePrelude?: boolean
+    parseValue?: boolean
+  }
+
+  export interface WalkContext {
+    rule: CssNode | null
+    atrule: CssNode | null
+  }
+
+  export type WalkCallback = (
+    this: WalkContext,
+    node: CssNode,
+    item?: CssListItem,
+    list?: CssList
+  ) => symbol | void
+
+  export interface WalkOptions {
+    visit?: string
+    enter?: WalkCallback
+    leave?: WalkCallback
+  }
+
+  export function parse(css: string, options?: ParseOptions): CssNode
+  export function generate(ast: CssNode): string
+  export const walk: {
+    (ast: CssNode, options: WalkOptions | WalkCallback): void
+    readonly skip: symbol
+    readonly break: symbol
+  }
 }
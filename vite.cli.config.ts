@@ -0,0 +1,27 @@
+import { resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vite'
+
+const rootDir = fileURLToPath(new URL('.', import.meta.url))
+
+// Node 端 CLI：以 SSR 模式打包，依赖保持 external
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(rootDir, 'src'),
+    },
+  },
+  build: {
+    ssr: resolve(rootDir, 'src/cli/svg-scope.ts'),
+    outDir: 'dist-cli',
+    // public/ 里是网页用的静态资源，CLI 不需要
+    copyPublicDir: false,
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'svg-scope.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})